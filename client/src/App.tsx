@@ -3,27 +3,64 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import * as API from "./api";
 import { SpeechOnce } from "./stt";
-import { extractFieldHTML, toPlainSpeakable } from "./sanitize";
+import {
+  assessSpeakability, createMarkdownSpeaker, describeTestedCloze, extractFieldHTML, hasCloze, toPlainSpeakable, unspeakableNotice,
+} from "./sanitize";
+import { createAudioQueue, type AudioQueue } from "./audioQueue";
+import { parseVoiceCommand } from "./voiceCommands";
+import FieldMappingEditor from "./FieldMappingEditor";
+import DeckProfileEditor from "./DeckProfileEditor";
+import PromptTemplateEditor from "./PromptTemplateEditor";
+import NoteChangeProposal from "./NoteChangeProposal";
+import PreviousAttempts from "./PreviousAttempts";
+import StatsDashboard from "./StatsDashboard";
+import VadControls from "./VadControls";
+import { normalizeVadSettings, type VadLevel, type VadSettings } from "./vad";
 
-type Msg = { role: "assistant" | "user"; text?: string; html?: string };
+type Msg = { role: "assistant" | "user"; text?: string; html?: string; id?: number; streaming?: boolean; change?: API.NoteChange };
+
+const EASE_LABELS = { 1: "Again", 2: "Hard", 3: "Good", 4: "Easy" } as const;
+const AUTO_GRADE_DELAY_S = 4;
+const UNDO_DEPTH = 10; // grades that can be taken back, as on the server
+const SPOKEN_FEEDBACK_MAX_CHARS = 700; // longer replies are cut at a sentence end, the rest stays on screen
+const BACK_RECORDING_MAX_MS = 20_000; // the next card comes after the back's own recording, or after this long
+const VOICE_MODE_HELP =
+  "Listens after each front. Say show back (Rückseite), repeat (wiederholen), skip (überspringen) " +
+  "or discuss (besprechen); once the back or the feedback is there, again / hard / good / easy " +
+  "(nochmal / schwer / gut / einfach). Anything else is evaluated as your answer.";
+const BARGE_IN_HELP =
+  "Keeps the mic open while the card is read aloud; start speaking to interrupt the reading. " +
+  "Works best with headphones.";
+
+const newId = () =>
+  (typeof crypto !== "undefined" && "randomUUID" in crypto) ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+
+function describeVerdict(v: API.Verdict): string {
+  if (!v.valid || !v.ease) return "_Verdict: could not be determined — please grade manually._";
+  const missed = v.missed.length ? ` · missed: ${v.missed.join("; ")}` : "";
+  return `_Verdict: ${v.verdict} → ${EASE_LABELS[v.ease]} (confidence ${Math.round(v.confidence * 100)}%)${missed}_`;
+}
 
 export default function App() {
   // ---------- Deck / session ----------
   const [decks, setDecks] = useState<string[]>([]);
   const [deck, setDeck] = useState<string>(() => localStorage.getItem("deck") || "");
+  const [sessionMode, setSessionMode] = useState<API.SessionMode>(
+    () => (localStorage.getItem("sessionMode") as API.SessionMode) || "gui"
+  );
   const [messages, setMessages] = useState<Msg[]>([]);
   const [current, setCurrent] = useState<API.CurrentCard | null>(null);
   const [loading, setLoading] = useState(false);
 
   // ---------- Audio / TTS ----------
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const [ttsUrl, setTtsUrl] = useState<string | null>(null);
+  // One gapless queue plays the front and the spoken feedback
+  const playerRef = useRef<AudioQueue | null>(null);
+  const [audioReady, setAudioReady] = useState(false);
   const [needsTap, setNeedsTap] = useState(false);
-  const [allowAutoplay, setAllowAutoplay] = useState(false);
-  const lastGestureRef = useRef(0);
 
-  const ttsCache = useRef<Map<number, string>>(new Map());
-  const inflight = useRef<Set<number>>(new Set());
+  const ttsCache = useRef<Map<number, Promise<API.AudioParts>>>(new Map());
+  const soundsCache = useRef<Map<number, Promise<API.CardSounds | null>>>(new Map()); // the cards' own recordings
+  const deckLanguages = useRef<Map<string, string | undefined>>(new Map()); // wording of formulas and notices
   const MAX_CACHE = 12;
   const PREFETCH_COUNT = 5;
   const CONCURRENCY = 4;
@@ -35,15 +72,79 @@ export default function App() {
   // ---------- Conversation (free chat) ----------
   const [chatMode, setChatMode] = useState(false);
   const [chatInput, setChatInput] = useState("");
-  const sessionIdRef = useRef<string>(
-    (typeof crypto !== "undefined" && "randomUUID" in crypto)
-      ? crypto.randomUUID()
-      : Math.random().toString(36).slice(2)
-  );
+  const sessionIdRef = useRef<string>(newId());
+
+  // ---------- Auto-grade (hands-free) ----------
+  const [autoGrade, setAutoGrade] = useState<boolean>(() => localStorage.getItem("autoGrade") === "1");
+  const [autoGradePending, setAutoGradePending] = useState<{ ease: 1 | 2 | 3 | 4; remaining: number } | null>(null);
+  const autoGradeTimerRef = useRef<number | null>(null);
+  const autoGradeRef = useRef(autoGrade);
+
+  // ---------- Voice mode (hands-free command loop) ----------
+  const [voiceMode, setVoiceMode] = useState<boolean>(() => localStorage.getItem("voiceMode") === "1");
+  const voiceModeRef = useRef(voiceMode);
+  const voiceLoopSeqRef = useRef(-1);
+  const activeSttRef = useRef<SpeechOnce | null>(null);
+  const chatModeRef = useRef(false);
+
+  // ---------- Barge-in (speak over the reading) ----------
+  const [bargeIn, setBargeIn] = useState<boolean>(() => localStorage.getItem("bargeIn") === "1");
+  const bargeInRef = useRef(bargeIn);
+  const interruptedPlaybackRef = useRef(false); // paused because the learner started speaking
+
+  // ---------- Spoken feedback / back ----------
+  const [speakFeedback, setSpeakFeedback] = useState<boolean>(() => localStorage.getItem("speakFeedback") === "1");
+  const speakFeedbackRef = useRef(speakFeedback);
+
+  // ---------- Voice activity detection ----------
+  const [vadSettings, setVadSettings] = useState<VadSettings>(() => {
+    try { return normalizeVadSettings(JSON.parse(localStorage.getItem("vadSettings") || "null")); }
+    catch { return normalizeVadSettings(null); }
+  });
+  const vadSettingsRef = useRef(vadSettings);
+  const vadLevelRef = useRef<VadLevel | null>(null);   // live level while the mic is open
+  const noiseFloorRef = useRef<number | undefined>(undefined); // carried over to the next utterance
+
+  // Latest versions of the session actions, for async loops/timers started in older renders
+  const actionsRef = useRef({
+    grade: async (_ease: 1 | 2 | 3 | 4) => {},
+    showBack: async (_opts?: { speakAloud?: boolean }) => {},
+    skipCard: async () => {},
+    startDiscussion: async () => {},
+    sendChat: async (_text: string) => {},
+    advanceToNext: async () => {},
+    undo: async () => {},
+  });
+
+  // ---------- AnkiConnect connection and grades queued while it is down ----------
+  const [connection, setConnection] = useState<API.ConnectionState | null>(null);
+  const awaitedGradeRef = useRef<string | null>(null); // queued grade of the current card; we move on once it is sent
+
+  // ---------- Prompt templates (bumped when one is added or removed) ----------
+  const [templatesVersion, setTemplatesVersion] = useState(0);
+
+  // ---------- Field mappings (per note type, loaded on first use) ----------
+  const [fieldMappings, setFieldMappings] = useState<Record<string, API.FieldMapping>>({});
+  const fieldMappingsRef = useRef(fieldMappings);
+
+  // ---------- Streaming replies ----------
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const msgIdRef = useRef(0);
 
   // ---------- Sequencing guard ----------
   const currentSeqRef = useRef(0);
 
+  // ---------- Attempt on the current card (saved with the grade to the review history) ----------
+  const attemptRef = useRef<
+    { cardId: number; playbackEndedAt: number | null; discussStartedAt: number | null; timings: API.AttemptTimings; revealed: boolean }
+    & API.AttemptInfo | null
+  >(null);
+
+  // ---------- Undo: what the screen looked like before each grade, latest last ----------
+  const gradedRef = useRef<{
+    card: API.CurrentCard; messages: Msg[]; attempt: typeof attemptRef.current; tts?: Promise<API.AudioParts>;
+  }[]>([]);
+
   // ---------- Load decks ----------
   useEffect(() => {
     API.decks()
@@ -66,74 +167,259 @@ export default function App() {
       });
   }, []); // eslint-disable-line
 
+  useEffect(() => API.connectionEvents((state) => {
+    setConnection(state);
+    const gradeId = awaitedGradeRef.current;
+    if (!gradeId || !state.connected || state.items.some((g) => g.gradeId === gradeId)) return;
+    awaitedGradeRef.current = null;
+    const refused = state.failed.find((g) => g.gradeId === gradeId);
+    setMessages((m) => [...m, {
+      role: "assistant",
+      text: refused ? `Anki did not take the grade: ${refused.error}` : "Anki is back — grade sent.",
+    }]);
+    actionsRef.current.advanceToNext().catch((e) => console.error("resume failed:", e));
+  }), []);
+
+  // While Anki is down, probe it; the server resumes sending as soon as a probe gets through
+  useEffect(() => {
+    if (connection?.connected !== false) return;
+    const timer = window.setInterval(() => { API.health().catch(() => {}); }, 3000);
+    return () => window.clearInterval(timer);
+  }, [connection?.connected]);
+
+  // Ctrl/Cmd+Z outside text fields takes back the last grade
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey || e.key.toLowerCase() !== "z") return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName))) return;
+      e.preventDefault();
+      actionsRef.current.undo().catch((err) => console.error("undo failed:", err));
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
   useEffect(() => {
     if (deck) localStorage.setItem("deck", deck);
   }, [deck]);
 
-  // ---------- Autoplay TTS ----------
   useEffect(() => {
-    const el = audioRef.current;
-    if (!el || !ttsUrl) return;
-    el.src = ttsUrl;
-    el.muted = false;
-    el.preload = "auto";
+    localStorage.setItem("sessionMode", sessionMode);
+  }, [sessionMode]);
 
-    const withinGesture = Date.now() - lastGestureRef.current < 5000;
-    const tryPlay = () => el.play().then(() => setNeedsTap(false)).catch(() => setNeedsTap(true));
-    if (allowAutoplay || withinGesture) requestAnimationFrame(tryPlay);
-    else setNeedsTap(true);
+  useEffect(() => {
+    localStorage.setItem("autoGrade", autoGrade ? "1" : "0");
+    autoGradeRef.current = autoGrade;
+    if (!autoGrade) cancelAutoGrade();
+  }, [autoGrade]);
 
-    return () => {
-      try { if (ttsUrl.startsWith("blob:")) URL.revokeObjectURL(ttsUrl); } catch {}
-    };
-  }, [ttsUrl, allowAutoplay]);
+  useEffect(() => {
+    localStorage.setItem("voiceMode", voiceMode ? "1" : "0");
+    voiceModeRef.current = voiceMode;
+    if (!voiceMode) releaseMic();
+    else if (current?.cardId) runVoiceLoop(current, currentSeqRef.current).catch(() => {});
+  }, [voiceMode]); // eslint-disable-line
+
+  useEffect(() => {
+    localStorage.setItem("bargeIn", bargeIn ? "1" : "0");
+    bargeInRef.current = bargeIn;
+  }, [bargeIn]);
+
+  useEffect(() => {
+    localStorage.setItem("speakFeedback", speakFeedback ? "1" : "0");
+    speakFeedbackRef.current = speakFeedback;
+    if (!speakFeedback) stopSpeaking();
+  }, [speakFeedback]);
+
+  useEffect(() => {
+    localStorage.setItem("vadSettings", JSON.stringify(vadSettings));
+    vadSettingsRef.current = vadSettings;
+  }, [vadSettings]);
+
+  useEffect(() => {
+    chatModeRef.current = chatMode;
+  }, [chatMode]);
 
   // ---------- Speakable preview ----------
   const ttsPreview = useMemo(() => {
-    if (!current) return "";
-    const html = extractFieldHTML(current.fields || {}, current.modelName, "front") || current.frontHTML || "";
-    return toPlainSpeakable(html);
-  }, [current]);
+    if (!current) return null;
+    const mapping = fieldMappings[current.modelName || ""];
+    const html = extractFieldHTML(current.fields || {}, mapping, "front") || current.frontHTML || "";
+    return assessSpeakability(html, { ord: current.ord, language: languageOf(current) });
+  }, [current, fieldMappings]);
+
+  // The current card as the evaluation sees it, for the prompt template preview
+  const promptPreviewCard = useMemo(() => {
+    if (!current?.cardId) return null;
+    const { frontTxt, backTxt, contextTxt } = cardTexts(current);
+    return { front: frontTxt, back: backTxt, context: contextTxt };
+  }, [current, fieldMappings]); // eslint-disable-line
 
   // ---------- Utilities ----------
-  function cacheSet(cardId: number, blobUrl: string) {
-    if (!ttsCache.current.has(cardId)) {
-      ttsCache.current.set(cardId, blobUrl);
-      if (ttsCache.current.size > MAX_CACHE) {
-        const oldest = ttsCache.current.keys().next().value as number;
-        const oldUrl = ttsCache.current.get(oldest)!;
-        try { if (oldUrl.startsWith("blob:")) URL.revokeObjectURL(oldUrl); } catch {}
-        ttsCache.current.delete(oldest);
+  function beginAttempt(card: API.CurrentCard | null) {
+    attemptRef.current = card?.cardId
+      ? {
+          cardId: card.cardId, playbackEndedAt: null, discussStartedAt: null, latencyMs: null, revealed: false,
+          timings: { sttMs: [], llmMs: [], ttsMs: [], discussMs: 0 },
+        }
+      : null;
+  }
+
+  // Round trip of the current attempt (for the stats dashboard)
+  function recordTiming(kind: "sttMs" | "llmMs" | "ttsMs", startedAt: number, cardId?: number) {
+    const a = attemptRef.current;
+    if (a && (cardId == null || a.cardId === cardId)) a.timings[kind].push(Date.now() - startedAt);
+  }
+
+  function storeFieldMapping(modelName: string, mapping: API.FieldMapping) {
+    fieldMappingsRef.current = { ...fieldMappingsRef.current, [modelName]: mapping };
+    setFieldMappings(fieldMappingsRef.current);
+  }
+
+  // Mapping for a note type; the server suggests one from modelFieldNames the first time
+  async function mappingFor(modelName?: string): Promise<API.FieldMapping | undefined> {
+    if (!modelName) return undefined;
+    const known = fieldMappingsRef.current[modelName];
+    if (known) return known;
+    const r = await API.fieldMapping(modelName).catch(() => null);
+    if (!r?.ok || !r.mapping) return undefined;
+    storeFieldMapping(modelName, r.mapping);
+    return r.mapping;
+  }
+
+  async function saveFieldMapping(modelName: string, mapping: Record<API.FieldRole, string[]>): Promise<string | null> {
+    const r = await API.saveFieldMapping(modelName, mapping).catch((e) => ({ ok: false, error: String(e), mapping: undefined }));
+    if (!r.ok || !r.mapping) return r.error || "Saving failed";
+    storeFieldMapping(modelName, r.mapping);
+    clearTtsCache(); // prefetched fronts may have been read from other fields
+    return null;
+  }
+
+  async function resetFieldMapping(modelName: string) {
+    await API.resetFieldMapping(modelName).catch(() => {});
+    const { [modelName]: _dropped, ...rest } = fieldMappingsRef.current;
+    fieldMappingsRef.current = rest;
+    setFieldMappings(rest);
+    await mappingFor(modelName);
+    clearTtsCache();
+  }
+
+  function clearTtsCache() {
+    ttsCache.current.clear();
+    soundsCache.current.clear(); // "prefer card audio" may have changed
+    deckLanguages.current.clear();
+  }
+
+  // Failed syntheses are dropped so the card is tried again next time
+  function cacheSet(cardId: number, parts: Promise<API.AudioParts>) {
+    if (ttsCache.current.has(cardId)) return;
+    ttsCache.current.set(cardId, parts);
+    parts.catch(() => { if (ttsCache.current.get(cardId) === parts) ttsCache.current.delete(cardId); });
+    if (ttsCache.current.size > MAX_CACHE) {
+      ttsCache.current.delete(ttsCache.current.keys().next().value as number);
+    }
+  }
+
+  function soundsOf(cardId: number): Promise<API.CardSounds | null> {
+    let sounds = soundsCache.current.get(cardId);
+    if (!sounds) {
+      sounds = API.cardSounds(cardId).then((r) => (r.ok ? r : null)).catch(() => null);
+      soundsCache.current.set(cardId, sounds);
+      if (soundsCache.current.size > MAX_CACHE * 2) soundsCache.current.delete(soundsCache.current.keys().next().value as number);
+    }
+    return sounds;
+  }
+
+  // One side with the card's own recordings (deck setting "prefer card audio"): a field with
+  // [sound:…] files plays them instead of being synthesized, the other fields of that side are read
+  // in between, in field order, after `lead`. Null when the side has no recordings or the deck prefers TTS.
+  // (Wrapped, since an async function cannot resolve to a promise.)
+  async function withRecordings(card: API.CurrentCard, side: "front" | "back", lead = ""): Promise<{ parts: Promise<API.AudioParts> } | null> {
+    if (!card.cardId) return null;
+    const sounds = await soundsOf(card.cardId);
+    const withFiles = sounds?.preferCardAudio ? sounds[side] || [] : [];
+    if (!withFiles.length) return null;
+    const mapping = await mappingFor(card.modelName);
+    const recorded = new Map(withFiles.map((f) => [f.field, f.files.map((x) => x.url)]));
+
+    const segments: Promise<API.AudioParts>[] = [];
+    let text = lead ? [lead] : [];
+    const flushText = () => {
+      if (text.length) segments.push(API.ttsChunks(text.join("\n\n"), deckOf(card)));
+      text = [];
+    };
+    for (const field of mapping?.[side === "front" ? "prompt" : "answer"] || [...recorded.keys()]) {
+      const urls = recorded.get(field);
+      if (urls) {
+        flushText();
+        segments.push(Promise.resolve(API.mediaParts(urls)));
+        continue;
       }
+      const spoken = toPlainSpeakable(card.fields?.[field]?.value || "", { ord: card.ord, side, language: languageOf(card) });
+      if (spoken) text.push(spoken);
     }
+    flushText();
+    return { parts: Promise.all(segments).then((lists) => lists.flat()) };
+  }
+
+  // The card's own deck picks the voice (profiles are inherited, so subdecks may differ)
+  function deckOf(snap?: { deckName?: string } | null) {
+    return snap?.deckName || deck;
+  }
+
+  // The deck's feedback language (its STT language when that is "auto"), loaded once per deck;
+  // undefined lets the text decide
+  async function loadDeckLanguage(deckName: string): Promise<string | undefined> {
+    if (deckLanguages.current.has(deckName)) return deckLanguages.current.get(deckName);
+    const profile = (await API.deckProfile(deckName).catch(() => null))?.profile;
+    const language = profile?.feedbackLanguage !== "auto" ? profile?.feedbackLanguage : profile?.sttLanguage;
+    if (profile) deckLanguages.current.set(deckName, language);
+    return language;
   }
 
-  async function ttsFetchToBlobUrl(text: string): Promise<string | null> {
-    if (!text) return null;
-    const url = await API.tts(text);
-    if (!url) return null;
-    const resp = await fetch(url);
-    const buf = await resp.arrayBuffer();
-    const blob = new Blob([buf], { type: "audio/mpeg" });
-    return URL.createObjectURL(blob);
+  // As far as already loaded (ttsSpeakCardFront loads it before the card is answered)
+  function languageOf(snap?: { deckName?: string } | null) {
+    return deckLanguages.current.get(deckOf(snap));
+  }
+
+  // Created on first use; AudioContexts may only start after a user gesture
+  function player(): AudioQueue {
+    playerRef.current ??= createAudioQueue({
+      onEnded: () => {
+        setNeedsTap(false);
+        // Latest playback end until the learner starts speaking (replays move it)
+        const a = attemptRef.current;
+        if (a && a.latencyMs == null) a.playbackEndedAt = Date.now();
+      },
+      onBlocked: () => setNeedsTap(true),
+    });
+    return playerRef.current;
   }
 
   async function prefetchOneCard(cardId: number) {
-    if (ttsCache.current.has(cardId) || inflight.current.has(cardId)) return;
-    inflight.current.add(cardId);
+    if (ttsCache.current.has(cardId)) return;
     try {
       const infos = await API.cardsInfo([cardId]);
+      const recorded = infos?.[0] ? await withRecordings(infos[0], "front") : null;
+      if (recorded) {
+        cacheSet(cardId, recorded.parts);
+        await Promise.all(await recorded.parts);
+        return;
+      }
       const fields = infos?.[0]?.fields || {};
-      const modelName = infos?.[0]?.modelName || "";
-      const html = extractFieldHTML(fields, modelName, "front") || "";
-      const speakable = toPlainSpeakable(html);
+      const mapping = await mappingFor(infos?.[0]?.modelName);
+      const html = extractFieldHTML(fields, mapping, "front") || "";
+      const language = await loadDeckLanguage(deckOf(infos?.[0]));
+      const { text: speakable, speakable: ok } = assessSpeakability(html, { ord: infos?.[0]?.ord, language });
       console.log("[Prefetch speakable]", cardId, speakable.slice(0, 120));
-      const blobUrl = await ttsFetchToBlobUrl(speakable);
-      if (blobUrl) cacheSet(cardId, blobUrl);
+      // Unspeakable cards are left to ttsSpeakCardFront and the deck's policy
+      if (!ok || ttsCache.current.has(cardId)) return;
+      const parts = API.ttsChunks(speakable, deckOf(infos?.[0]));
+      cacheSet(cardId, parts);
+      await Promise.all(await parts); // keeps the worker busy until every chunk is downloaded
     } catch (e) {
       console.warn("prefetch failed:", e);
-    } finally {
-      inflight.current.delete(cardId);
     }
   }
 
@@ -158,61 +444,152 @@ export default function App() {
     await Promise.all(workers);
   }
 
-  async function ttsSpeakCardFront(cur: API.CurrentCard | null) {
+  // Reads the front aloud. False when the card could not be spoken and the deck's policy moved on
+  // to the next card (already shown and read by advanceToNext).
+  async function ttsSpeakCardFront(cur: API.CurrentCard | null): Promise<boolean> {
     const snap = cur;
-    if (!snap?.cardId) return;
+    if (!snap?.cardId) return true;
 
-    const cached = ttsCache.current.get(snap.cardId);
-    if (cached) {
-      setTtsUrl(cached);
-    } else {
+    const language = await loadDeckLanguage(deckOf(snap));
+    let parts = ttsCache.current.get(snap.cardId);
+    if (!parts) {
+      const recorded = await withRecordings(snap, "front");
+      if (recorded) {
+        parts = recorded.parts;
+        cacheSet(snap.cardId, recorded.parts);
+      }
+    }
+    if (!parts) {
+      const mapping = await mappingFor(snap.modelName);
       const frontHTML =
-        extractFieldHTML(snap.fields || {}, snap.modelName, "front") || snap.frontHTML || "";
-      const speakable = toPlainSpeakable(frontHTML);
+        extractFieldHTML(snap.fields || {}, mapping, "front") || snap.frontHTML || "";
+      const assessment = assessSpeakability(frontHTML, { ord: snap.ord, language });
+      let speakable = assessment.text;
       console.log("[Sanitized front for TTS]", speakable);
-      const blobUrl = await ttsFetchToBlobUrl(speakable);
-      if (blobUrl) {
-        cacheSet(snap.cardId, blobUrl);
-        setTtsUrl(blobUrl);
+      if (!assessment.speakable) {
+        const r = await API.unspeakable(snap.cardId, deckOf(snap), assessment.reasons)
+          .catch((e) => ({ ok: false, error: String(e), action: undefined, skipped: undefined }));
+        const why = assessment.reasons.join(", ");
+        if (r.ok && r.action && r.action !== "warn") {
+          const done = r.action === "bury" ? "buried" : r.action === "tag" ? "tagged voice::unspeakable and skipped" : "skipped";
+          setMessages((m) => [...m, { role: "assistant", text: `Card can't be read aloud (${why}): ${done}.` }]);
+          await advanceToNext();
+          return false;
+        }
+        if (!r.ok) console.warn("unspeakable policy failed:", r.error);
+        speakable = unspeakableNotice(assessment, language);
+        setMessages((m) => [...m, { role: "assistant", text: `This card can't be read aloud (${why}); answer from the screen.` }]);
+      }
+      if (speakable) {
+        // TTS round trip: until the first chunk's audio is here, i.e. playback can start
+        const ttsStartedAt = Date.now();
+        parts = API.ttsChunks(speakable, deckOf(snap));
+        cacheSet(snap.cardId, parts);
+        parts.then((list) => list[0]).then(() => recordTiming("ttsMs", ttsStartedAt, snap.cardId)).catch(() => {});
       }
     }
+    setAudioReady(!!parts);
+    if (parts) {
+      player().stop();
+      player().enqueue(parts);
+    }
     warmPrefetch(deck, snap.cardId, PREFETCH_COUNT).catch(() => {});
+    return true;
+  }
+
+  function isPlaybackActive() {
+    return !!playerRef.current?.isPlaying();
   }
 
-  function waitForPlaybackToFinish(): Promise<void> {
-    return new Promise((resolve) => {
-      const el = audioRef.current;
-      if (!el || !el.src) return resolve();
-      if (el.ended || (Number.isFinite(el.duration) && el.currentTime >= el.duration - 0.01)) {
-        return resolve();
+  // Feedback / back read aloud with the deck's voice (queued after whatever is playing)
+  function speak(text: string, deckName: string) {
+    player().enqueue(API.ttsChunks(text, deckName));
+  }
+
+  function stopSpeaking() {
+    playerRef.current?.stop();
+  }
+
+  // The learner spoke over the reading but nothing usable came of it: continue reading
+  function resumeInterruptedPlayback() {
+    if (!interruptedPlaybackRef.current) return;
+    interruptedPlaybackRef.current = false;
+    playerRef.current?.resume();
+  }
+
+  // An answer came out of the interruption: the rest of the reading is no longer needed
+  function dropInterruptedPlayback() {
+    if (!interruptedPlaybackRef.current) return;
+    interruptedPlaybackRef.current = false;
+    playerRef.current?.stop();
+  }
+
+  async function waitForPlaybackToFinish(): Promise<void> {
+    await playerRef.current?.whenIdle();
+  }
+
+  // ---------- Auto-grade countdown ----------
+  function cancelAutoGrade() {
+    if (autoGradeTimerRef.current != null) {
+      window.clearInterval(autoGradeTimerRef.current);
+      autoGradeTimerRef.current = null;
+    }
+    setAutoGradePending(null);
+  }
+
+  // Counts down, then grades with the suggested ease unless cancelled or the card changed
+  function scheduleAutoGrade(ease: 1 | 2 | 3 | 4, seqAtStart: number) {
+    cancelAutoGrade();
+    let remaining = AUTO_GRADE_DELAY_S;
+    setAutoGradePending({ ease, remaining });
+    autoGradeTimerRef.current = window.setInterval(() => {
+      if (seqAtStart !== currentSeqRef.current) {
+        cancelAutoGrade();
+        return;
       }
-      const onEnded = () => {
-        el.removeEventListener("ended", onEnded);
-        resolve();
-      };
-      el.addEventListener("ended", onEnded);
-    });
+      remaining -= 1;
+      if (remaining > 0) {
+        setAutoGradePending({ ease, remaining });
+        return;
+      }
+      cancelAutoGrade();
+      actionsRef.current.grade(ease).catch((e) => console.error("auto-grade failed:", e));
+    }, 1000);
   }
 
-  // ---------- STT → /api/review-chain (manual via button) ----------
-  async function startListeningForAnswer(
-    languageHint: string,
-    snap: API.CurrentCard,
-    seqAtStart: number
-  ) {
-    if (seqAtStart !== currentSeqRef.current) return;
+  // ---------- STT helpers ----------
+  // Records one utterance; resolves null on silence or when the card changed / mic was released
+  async function recordUtterance(seqAtStart: number): Promise<string | null> {
+    if (seqAtStart !== currentSeqRef.current || sttLockRef.current) return null;
+    sttLockRef.current = true;
 
+    const bargingIn = bargeInRef.current;
+    interruptedPlaybackRef.current = false;
     const stt = new SpeechOnce({
-      rmsThreshold: 0.02,
-      startFrames: 4,
-      // 3s thinking pause handled by default endFrames in stt.ts
-      maxUtteranceMs: 60000,
-      onStartRecording: () => setRecState("recording"),
+      vad: { ...vadSettingsRef.current, initialNoiseFloorDb: noiseFloorRef.current, maxUtteranceMs: 60000 },
+      isPlaybackActive: bargingIn ? isPlaybackActive : undefined,
+      onLevel: (level) => {
+        vadLevelRef.current = level;
+        if (level.phase !== "calibrating") noiseFloorRef.current = level.noiseFloorDb;
+      },
+      onStartRecording: ({ duringPlayback }) => {
+        setRecState("recording");
+        const a = attemptRef.current;
+        if (duringPlayback) {
+          playerRef.current?.pause();
+          interruptedPlaybackRef.current = true;
+          if (a && a.latencyMs == null) a.latencyMs = 0; // answered before the reading finished
+        }
+        // Answer latency: first speech after the front finished playing
+        if (a && a.latencyMs == null && a.playbackEndedAt != null) a.latencyMs = Date.now() - a.playbackEndedAt;
+      },
       onStopRecording: () => setRecState("idle"),
     });
+    activeSttRef.current = stt;
 
     try {
-      await waitForPlaybackToFinish();
+      if (!bargingIn) await waitForPlaybackToFinish();
+      if (seqAtStart !== currentSeqRef.current) return null;
 
       console.log("[STT] Opening mic…");
       await stt.start();
@@ -223,45 +600,237 @@ export default function App() {
 
       if (!blob) {
         console.warn("[STT] No speech captured.");
-        return;
+        return null;
       }
       console.log("[STT] Utterance size:", blob.size);
 
       const dataUrl = await SpeechOnce.blobToDataURL(blob);
-      if (!dataUrl.startsWith("data:audio")) return;
+      return dataUrl.startsWith("data:audio") ? dataUrl : null;
+    } catch (e) {
+      setRecState("idle");
+      console.error("STT failed:", e);
+      return null;
+    } finally {
+      try { await stt.stop(); } catch {}
+      vadLevelRef.current = null;
+      if (activeSttRef.current === stt) activeSttRef.current = null;
+      sttLockRef.current = false;
+    }
+  }
 
-      const frontFieldHTML =
-        extractFieldHTML(snap?.fields || {}, snap?.modelName || "", "front") || snap?.frontHTML || "";
-      const backFieldHTML =
-        extractFieldHTML(snap?.fields || {}, snap?.modelName || "", "back") || snap?.backHTML || "";
+  // Releases the mic so a pending recordUtterance() resolves (card changed, voice mode off)
+  function releaseMic() {
+    activeSttRef.current?.stop().catch(() => {});
+    activeSttRef.current = null;
+  }
 
-      let frontTxt = toPlainSpeakable(frontFieldHTML || "");
-      if (!frontTxt.trim()) frontTxt = "(front text missing)";
-      const backTxt = toPlainSpeakable(backFieldHTML || "");
+  function cardTexts(snap: API.CurrentCard) {
+    const mapping = fieldMappingsRef.current[snap?.modelName || ""];
+    const frontFieldHTML =
+      extractFieldHTML(snap?.fields || {}, mapping, "front") || snap?.frontHTML || "";
+    const backFieldHTML =
+      extractFieldHTML(snap?.fields || {}, mapping, "back") || snap?.backHTML || "";
+    const language = languageOf(snap);
+    const contextTxt = toPlainSpeakable(extractFieldHTML(snap?.fields || {}, mapping, "context"), { language });
 
-      if (seqAtStart !== currentSeqRef.current) return;
+    let frontTxt = toPlainSpeakable(frontFieldHTML || "", { ord: snap?.ord, language });
+    if (!frontTxt.trim()) frontTxt = "(front text missing)";
+    let backTxt = toPlainSpeakable(backFieldHTML || "", { language });
 
-      console.log("[CHAIN] POST /api/review-chain …");
-      const out = await API.reviewChain({
-        audioBase64: dataUrl,
-        front: frontTxt,
-        back: backTxt,
-        language: languageHint || "german",
-      });
-      console.log("[CHAIN] response:", out);
+    // Cloze: the back is the full text, plus exactly which deletion this card asks for
+    if (hasCloze(frontFieldHTML)) {
+      const extra = backFieldHTML !== frontFieldHTML ? backTxt : "";
+      backTxt = [
+        describeTestedCloze(frontFieldHTML, snap?.ord),
+        toPlainSpeakable(frontFieldHTML, { ord: snap?.ord, side: "back", language }),
+        extra,
+      ].filter(Boolean).join("\n\n");
+    }
+    return { frontTxt, backTxt, contextTxt };
+  }
+
+  // ---------- Streaming bubbles ----------
+  // Only one reply streams at a time; starting another (or grading / moving on) cancels it
+  function beginStream(): AbortController {
+    streamAbortRef.current?.abort();
+    const ctrl = new AbortController();
+    streamAbortRef.current = ctrl;
+    return ctrl;
+  }
 
-      if (out.ok) {
-        setMessages((m) => [...m, { role: "user", text: out.transcript || "(no speech)" }]);
-        if (out.reply) setMessages((m) => [...m, { role: "assistant", text: out.reply }]);
-      } else {
-        setMessages((m) => [...m, { role: "assistant", text: out.error || "(review failed)" }]);
+  function cancelStreams() {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+  }
+
+  function addStreamingBubble(): number {
+    const id = ++msgIdRef.current;
+    setMessages((m) => [...m, { role: "assistant", text: "", id, streaming: true }]);
+    return id;
+  }
+
+  function patchMessage(id: number, patch: (msg: Msg) => Partial<Msg>) {
+    setMessages((m) => m.map((msg) => (msg.id === id ? { ...msg, ...patch(msg) } : msg)));
+  }
+
+  // Runs a streaming request into a fresh assistant bubble; resolves with the end event (null if cancelled)
+  async function streamIntoBubble(
+    run: (handlers: API.StreamHandlers, signal: AbortSignal) => Promise<API.StreamEnd>,
+    extra: API.StreamHandlers = {}
+  ): Promise<{ end: API.StreamEnd | null; bubbleId: number | null }> {
+    const ctrl = beginStream();
+    let bubbleId: number | null = null;
+    const ensureBubble = () => (bubbleId ??= addStreamingBubble());
+
+    let end: API.StreamEnd | null;
+    try {
+      end = await run({
+        onTranscript: (t) => extra.onTranscript?.(t),
+        onToken: (text) => {
+          const id = ensureBubble();
+          patchMessage(id, (msg) => ({ text: (msg.text || "") + text }));
+          extra.onToken?.(text);
+        },
+      }, ctrl.signal);
+    } catch (e) {
+      end = ctrl.signal.aborted ? null : { status: "error", error: String((e as Error)?.message || e) };
+    }
+    if (streamAbortRef.current === ctrl) streamAbortRef.current = null;
+
+    if (end === null || ctrl.signal.aborted) {
+      if (bubbleId != null) patchMessage(bubbleId, (msg) => ({ streaming: false, text: `${msg.text || ""} _(stopped)_` }));
+      return { end: null, bubbleId };
+    }
+    if (end.status === "error") {
+      const id = ensureBubble();
+      const error = end.error;
+      patchMessage(id, () => ({ streaming: false, text: error || "(request failed)" }));
+    }
+    return { end, bubbleId };
+  }
+
+  // ---------- Answer → /api/review-chain/stream ----------
+  async function evaluateAnswer(
+    snap: API.CurrentCard,
+    seqAtStart: number,
+    answer: { audioBase64?: string; transcript?: string }
+  ) {
+    const { frontTxt, backTxt, contextTxt } = cardTexts(snap);
+    if (seqAtStart !== currentSeqRef.current) return;
+
+    console.log("[CHAIN] POST /api/review-chain/stream …");
+    const payload = {
+      ...answer, front: frontTxt, back: backTxt, context: contextTxt || undefined, deckName: deckOf(snap),
+    };
+    // Spoken feedback: completed paragraphs/lists go to TTS while the reply is still streaming
+    const deckName = deckOf(snap);
+    const speaker = speakFeedbackRef.current ? createMarkdownSpeaker({ maxChars: SPOKEN_FEEDBACK_MAX_CHARS, language: languageOf(snap) }) : null;
+    const sayAll = (pieces: string[]) => {
+      if (seqAtStart === currentSeqRef.current) pieces.forEach((p) => speak(p, deckName));
+    };
+
+    // With audio the server transcribes first: STT = until the transcript event, LLM = the rest
+    let llmStartedAt = Date.now();
+    const { end, bubbleId } = await streamIntoBubble(
+      (handlers, signal) => API.reviewChainStream(payload, handlers, signal),
+      {
+        onTranscript: (t) => {
+          if (seqAtStart !== currentSeqRef.current) return;
+          if (answer.audioBase64) recordTiming("sttMs", llmStartedAt, snap.cardId);
+          llmStartedAt = Date.now();
+          if (attemptRef.current) attemptRef.current.transcript = t;
+          setMessages((m) => [...m, { role: "user", text: t || "(no speech)" }]);
+        },
+        onToken: (t) => { if (speaker) sayAll(speaker.push(t)); },
       }
+    );
+    console.log("[CHAIN] end:", end);
+    if (!end || end.status !== "done" || seqAtStart !== currentSeqRef.current) return;
+    recordTiming("llmMs", llmStartedAt, snap.cardId);
+    if (speaker) sayAll(speaker.end());
+
+    // Replace the streamed text with the server's final (verdict-stripped) reply
+    const verdictLine = end.verdict ? describeVerdict(end.verdict) : "";
+    const text = [end.reply, verdictLine].filter(Boolean).join("\n\n");
+    if (bubbleId != null) patchMessage(bubbleId, () => ({ text, streaming: false }));
+    else if (text) setMessages((m) => [...m, { role: "assistant", text }]);
+    if (attemptRef.current) Object.assign(attemptRef.current, { feedback: end.reply, verdict: end.verdict, revealed: true });
+
+    if (autoGradeRef.current && end.verdict?.valid && end.verdict.ease) {
+      // Let the spoken feedback finish before the countdown starts
+      if (speaker) await waitForPlaybackToFinish();
+      if (seqAtStart === currentSeqRef.current) scheduleAutoGrade(end.verdict.ease, seqAtStart);
+    }
+  }
+
+  // Manual via button: one utterance, straight to review (no command parsing)
+  async function startListeningForAnswer(snap: API.CurrentCard, seqAtStart: number) {
+    const dataUrl = await recordUtterance(seqAtStart);
+    if (!dataUrl) {
+      resumeInterruptedPlayback();
+      return;
+    }
+    dropInterruptedPlayback();
+    try {
+      await evaluateAnswer(snap, seqAtStart, { audioBase64: dataUrl });
     } catch (e) {
-      setRecState("idle");
-      console.error("STT failed:", e);
-    } finally {
-      try { await stt.stop(); } catch {}
+      console.error("review failed:", e);
+    }
+  }
+
+  // ---------- Voice mode: listen → command or answer, until the card changes ----------
+  async function runVoiceLoop(snap: API.CurrentCard, seqAtStart: number) {
+    if (voiceLoopSeqRef.current === seqAtStart) return; // already listening for this card
+    voiceLoopSeqRef.current = seqAtStart;
+
+    // Give the new front's audio a moment to load so we don't open the mic over it
+    await new Promise((r) => setTimeout(r, 300));
+
+    while (voiceModeRef.current && seqAtStart === currentSeqRef.current) {
+      const dataUrl = await recordUtterance(seqAtStart);
+      if (!voiceModeRef.current || seqAtStart !== currentSeqRef.current) break;
+      if (!dataUrl) continue;
+
+      try {
+        const sttStartedAt = Date.now();
+        const stt = await API.stt(dataUrl, { deckName: deckOf(snap) });
+        recordTiming("sttMs", sttStartedAt, snap.cardId);
+        const text = (stt.ok && stt.text || "").trim();
+        if (!text) resumeInterruptedPlayback();
+        if (!text || seqAtStart !== currentSeqRef.current) continue;
+        dropInterruptedPlayback();
+
+        // Grade words count as grades only after the back or the feedback; before, they are an answer
+        const cmd = parseVoiceCommand(text, attemptRef.current?.revealed ? "answered" : "front");
+        console.log("[VOICE]", JSON.stringify(text), "→", cmd?.type || "answer");
+        const act = actionsRef.current;
+
+        if (!cmd) {
+          if (chatModeRef.current) await act.sendChat(text);
+          else await evaluateAnswer(snap, seqAtStart, { transcript: text });
+          continue;
+        }
+
+        setMessages((m) => [...m, { role: "user", text: `🎙️ _${text}_` }]);
+        if (cmd.type === "grade") { await act.grade(cmd.ease); break; }
+        if (cmd.type === "skip") { await act.skipCard(); break; }
+        if (cmd.type === "undo") { await act.undo(); break; }
+        if (cmd.type === "showBack") await act.showBack({ speakAloud: speakFeedbackRef.current });
+        else if (cmd.type === "repeat") replayAudio();
+        else if (cmd.type === "discuss") await act.startDiscussion();
+      } catch (e) {
+        console.error("voice loop step failed:", e);
+      }
     }
+
+    if (voiceLoopSeqRef.current === seqAtStart) voiceLoopSeqRef.current = -1;
+  }
+
+  function replayAudio() {
+    const parts = current?.cardId ? ttsCache.current.get(current.cardId) : undefined;
+    if (!parts) return;
+    player().stop();
+    player().enqueue(parts);
   }
 
   // ---------- Start / Grade / Show Back ----------
@@ -270,12 +839,13 @@ export default function App() {
       setMessages((m) => [...m, { role: "assistant", text: "Pick a deck first." }]);
       return;
     }
-    lastGestureRef.current = Date.now();
-    setAllowAutoplay(true);
+    player().unlock().catch(() => {}); // inside the click, so the front may play
     setLoading(true);
+    cancelStreams();
     setMessages([]);
+    gradedRef.current = [];
 
-    const startRes = await API.start(deck);
+    const startRes = await API.start(deck, sessionMode);
     if (startRes?.empty && !startRes?.started) {
       setMessages((m) => [...m, { role: "assistant", text: `No cards to review in “${deck}”.` }]);
       setLoading(false);
@@ -290,6 +860,7 @@ export default function App() {
     const cur = await API.current();
     setCurrent(cur);
     currentSeqRef.current += 1;
+    beginAttempt(cur);
 
     if (cur?.empty || !cur?.frontHTML) {
       setMessages((m) => [...m, { role: "assistant", text: "Reviewer not active." }]);
@@ -297,40 +868,176 @@ export default function App() {
       return;
     }
 
+    const seq = currentSeqRef.current;
     setMessages((m) => [...m, { role: "assistant", html: cur.frontHTML }]);
     await API.show("front", deck).catch(() => {});
-    await ttsSpeakCardFront(cur);
+    const spoken = await ttsSpeakCardFront(cur);
 
     setLoading(false);
+    if (spoken && voiceModeRef.current) runVoiceLoop(cur, seq).catch(() => {});
   }
 
-  async function showBack() {
+  async function showBack({ speakAloud = false } = {}) {
     if (!current) return;
     // Purely optional visual reveal; NO impact on grading progression
     await API.show("back", deck).catch(() => {});
+    const a = attemptRef.current;
+    if (a && a.cardId === current.cardId) a.revealed = true;
     setMessages((m) => [...m, { role: "assistant", html: current.backHTML || "<i>(No back)</i>" }]);
+    if (speakAloud) readBackAloud();
+  }
+
+  // The back as heard by the learner: revealed cloze text plus the answer fields (no LLM hints),
+  // with the card's own recordings where it has them
+  async function readBackAloud() {
+    if (!current) return;
+    const mapping = fieldMappingsRef.current[current.modelName || ""];
+    const frontHTML = extractFieldHTML(current.fields || {}, mapping, "front") || current.frontHTML || "";
+    const backHTML = extractFieldHTML(current.fields || {}, mapping, "back") || current.backHTML || "";
+    const cloze = hasCloze(frontHTML);
+    const language = languageOf(current);
+    const recorded = await withRecordings(current, "back", cloze ? toPlainSpeakable(frontHTML, { ord: current.ord, side: "back", language }) : "");
+    if (recorded) {
+      stopSpeaking();
+      player().enqueue(recorded.parts);
+      return;
+    }
+    const parts = cloze
+      ? [toPlainSpeakable(frontHTML, { ord: current.ord, side: "back", language }), backHTML !== frontHTML ? toPlainSpeakable(backHTML, { language }) : ""]
+      : [toPlainSpeakable(backHTML, { ord: current.ord, side: "back", language })];
+    const text = parts.filter(Boolean).join("\n\n");
+    if (!text) return;
+    stopSpeaking();
+    speak(text, deckOf(current));
+  }
+
+  // The back's own recordings (e.g. the native pronunciation), heard after grading before the next card
+  async function playBackRecordings(card: API.CurrentCard) {
+    const sounds = card.cardId ? await soundsOf(card.cardId) : null;
+    const urls = sounds?.preferCardAudio ? (sounds.back || []).flatMap((f) => f.files.map((x) => x.url)) : [];
+    if (!urls.length) return;
+    player().enqueue(Promise.resolve(API.mediaParts(urls)));
+    await Promise.race([player().whenIdle(), new Promise((r) => setTimeout(r, BACK_RECORDING_MAX_MS))]);
   }
 
   // IMPORTANT: Grading advances regardless of whether back was shown.
   async function grade(ease: 1 | 2 | 3 | 4) {
     if (!current) return;
-    lastGestureRef.current = Date.now();
-    setAllowAutoplay(true);
+    cancelAutoGrade();
+    cancelStreams();
+    stopSpeaking();
+    player().unlock().catch(() => {});
+
+    await endChatIfOpen();
+    const a = attemptRef.current;
+    const attempt = a && a.cardId === current.cardId
+      ? { transcript: a.transcript, feedback: a.feedback, verdict: a.verdict, latencyMs: a.latencyMs, timings: a.timings }
+      : undefined;
+    const gradeId = newId();
+    const before = { card: current, messages, attempt: attemptRef.current, tts: current.cardId ? ttsCache.current.get(current.cardId) : undefined };
+    const r = await API.answer(ease, current.cardId ? { cardId: current.cardId, attempt, gradeId } : undefined)
+      .catch((e) => ({ ok: false, error: String(e) }) as API.AnswerResult);
+    if (!r.ok) {
+      setMessages((m) => [...m, { role: "assistant", text: `Grading failed: ${r.error || "unknown error"}` }]);
+      return;
+    }
+    gradedRef.current = [...gradedRef.current, before].slice(-UNDO_DEPTH);
+    if (r.queued) {
+      // Kept by the server; the connection listener moves on once Anki has it
+      if (!r.duplicate) awaitedGradeRef.current = gradeId;
+      setMessages((m) => [...m, { role: "assistant", text: "Anki is not reachable. The grade is saved and will be sent when it is back." }]);
+      return;
+    }
+
+    // Advance right away (after the back's own recording, if any) — do NOT require a "show back" call
+    await playBackRecordings(current);
+    await advanceToNext();
+  }
+
+  // Undo (button, Ctrl+Z, voice "undo"): take back the last grade and return to that card as it was
+  async function undoLastGrade() {
+    cancelAutoGrade();
+    cancelStreams();
+    stopSpeaking();
+    await endChatIfOpen();
 
-    // End chat if open
-    if (chatMode) {
-      const sid = sessionIdRef.current;
-      await API.convoReset(sid);
-      setChatMode(false);
+    const r = await API.undo().catch((e) => ({ ok: false, error: String(e) }) as API.UndoResult);
+    if (!r.ok || !r.undone) {
+      setMessages((m) => [...m, { role: "assistant", text: `Undo failed: ${r.error || "unknown error"}` }]);
+      return;
     }
+    if (r.cancelled) awaitedGradeRef.current = null;
+    const note: Msg = { role: "assistant", text: `Undone: **${EASE_LABELS[r.undone.ease]}** is taken back.` };
 
-    await API.answer(ease);
+    // The snapshot taken when that card was graded; newer ones are stale now
+    const i = gradedRef.current.map((g) => g.card.cardId).lastIndexOf(r.undone.cardId);
+    const prev = i >= 0 ? gradedRef.current[i] : undefined;
+    if (i >= 0) gradedRef.current = gradedRef.current.slice(0, i);
 
-    // Immediately advance — do NOT require a "show back" call
+    releaseMic();
+    // A dropped outbox grade never moved the card on; otherwise Anki now shows it again
+    let cur = r.cancelled ? current : null;
+    if (!cur) {
+      await API.show("front", deck).catch(() => {});
+      cur = await API.current().catch(() => null);
+    }
+    if (!cur?.cardId || !cur.frontHTML) {
+      setMessages((m) => [...m, note]);
+      return;
+    }
+    setCurrent(cur);
+    currentSeqRef.current += 1;
+    const seq = currentSeqRef.current;
+
+    if (prev && prev.card.cardId === cur.cardId) {
+      setMessages([...prev.messages, note]);
+      attemptRef.current = prev.attempt;
+      if (prev.tts) cacheSet(cur.cardId, prev.tts);
+    } else {
+      beginAttempt(cur);
+      setMessages((m) => [...m, note, { role: "assistant", html: cur.frontHTML }]);
+    }
+    if (!(await ttsSpeakCardFront(cur))) return;
+    if (voiceModeRef.current) runVoiceLoop(cur, seq).catch(() => {});
+  }
+
+  // Skip (voice "skip"): bury the card for today and move on without grading
+  async function skipCard() {
+    if (!current) return;
+    cancelAutoGrade();
+    cancelStreams();
+    stopSpeaking();
+    await endChatIfOpen();
+    const r = await API.skip(deck);
+    if (!r.ok) {
+      setMessages((m) => [...m, { role: "assistant", text: `Skip failed: ${r.error || "unknown error"}` }]);
+      return;
+    }
+    await advanceToNext();
+  }
+
+  async function endChatIfOpen() {
+    if (!chatModeRef.current) return;
+    cancelStreams();
+    const a = attemptRef.current;
+    if (a?.discussStartedAt != null) {
+      a.timings.discussMs += Date.now() - a.discussStartedAt;
+      a.discussStartedAt = null;
+    }
+    const sid = sessionIdRef.current;
+    await API.convoReset(sid);
+    setChatMode(false);
+    chatModeRef.current = false;
+  }
+
+  async function advanceToNext() {
+    releaseMic();
     await API.show("front", deck).catch(() => {});
     const next = await API.current();
     setCurrent(next);
     currentSeqRef.current += 1;
+    beginAttempt(next);
+    const seq = currentSeqRef.current;
 
     if (next?.empty || !next?.frontHTML) {
       setMessages((m) => [...m, { role: "assistant", text: "Session finished. No more cards." }]);
@@ -338,16 +1045,44 @@ export default function App() {
     }
 
     setMessages((m) => [...m, { role: "assistant", html: next.frontHTML }]);
-    await ttsSpeakCardFront(next);
+    if (!(await ttsSpeakCardFront(next))) return;
+    if (voiceModeRef.current) runVoiceLoop(next, seq).catch(() => {});
   }
 
+  // ---------- Free chat ("Discuss more") ----------
+  async function startDiscussion() {
+    if (!current) return;
+    setChatMode(true);
+    chatModeRef.current = true;
+    const a = attemptRef.current;
+    if (a && a.cardId === current.cardId) a.discussStartedAt = Date.now();
+    const { frontTxt, backTxt, contextTxt } = cardTexts(current);
+    const sid = sessionIdRef.current;
+    const context = contextTxt ? `\n\nContext:\n${contextTxt}` : "";
+    await API.convoStart(sid, undefined, `Card front:\n${frontTxt}\n\nCard back:\n${backTxt}${context}`, deckOf(current), current.cardId);
+    setMessages(m => [...m, { role: "assistant", text: "Okay, let's discuss this card further." }]);
+  }
+
+  async function sendChat(text: string) {
+    setMessages(m => [...m, { role: "user", text }]);
+    const sid = sessionIdRef.current;
+    const { end, bubbleId } = await streamIntoBubble((handlers, signal) => API.convoSendStream(sid, text, handlers, signal));
+    if (end?.status === "done" && bubbleId != null) patchMessage(bubbleId, () => ({ streaming: false }));
+    // Proposed note changes, each for review in the chat
+    const proposals = end?.status === "done" ? end.proposals || [] : [];
+    if (proposals.length) setMessages((m) => [...m, ...proposals.map((change): Msg => ({ role: "assistant", change }))]);
+  }
+
+  actionsRef.current = { grade, showBack, skipCard, startDiscussion, sendChat, advanceToNext, undo: undoLastGrade };
+
   // ---------- cleanup ----------
   useEffect(() => {
     return () => {
-      for (const url of ttsCache.current.values()) {
-        try { if (url.startsWith("blob:")) URL.revokeObjectURL(url); } catch {}
-      }
-      ttsCache.current.clear();
+      if (autoGradeTimerRef.current != null) window.clearInterval(autoGradeTimerRef.current);
+      activeSttRef.current?.stop().catch(() => {});
+      streamAbortRef.current?.abort();
+      playerRef.current?.stop();
+      clearTtsCache();
     };
   }, []);
 
@@ -357,6 +1092,15 @@ export default function App() {
 
       <h2 style={{ color: "#000" }}>Anki Voice (Back on demand • Grade advances • Markdown chat)</h2>
 
+      {connection && (!connection.connected || connection.pending > 0) && (
+        <div role="status" style={{ background: "#fef3c7", border: "1px solid #f59e0b", borderRadius: 4, padding: "6px 10px", marginBottom: 10 }}>
+          {connection.connected
+            ? `Sending ${connection.pending} pending grade${connection.pending === 1 ? "" : "s"} to Anki…`
+            : `Anki disconnected — ${connection.pending} grade${connection.pending === 1 ? "" : "s"} pending`}
+          {connection.lastError && <small style={{ marginLeft: 8 }}>({connection.lastError})</small>}
+        </div>
+      )}
+
       <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 10 }}>
         <select value={deck} onChange={(e) => setDeck(e.target.value)} style={{ minWidth: 280 }}>
           {decks.length === 0 && <option value="">(No decks found)</option>}
@@ -365,6 +1109,15 @@ export default function App() {
           ))}
         </select>
 
+        <select
+          value={sessionMode}
+          onChange={(e) => setSessionMode(e.target.value as API.SessionMode)}
+          title="GUI mirrors the Anki reviewer window; headless reviews without touching the Anki GUI"
+        >
+          <option value="gui">Anki reviewer (GUI)</option>
+          <option value="headless">Headless</option>
+        </select>
+
         <button onClick={handleStart} disabled={loading || !deck}>
           {loading ? "Starting…" : "Start Review"}
         </button>
@@ -373,7 +1126,11 @@ export default function App() {
           Refresh Decks
         </button>
 
-        {ttsPreview ? <small title={ttsPreview} style={{ color: "#000" }}>TTS preview ready</small> : null}
+        {ttsPreview?.text ? (
+          <small title={ttsPreview.text} style={{ color: "#000" }}>
+            TTS preview ready{ttsPreview.lostFraction ? ` · ${Math.round(ttsPreview.lostFraction * 100)}% not spoken` : ""}
+          </small>
+        ) : null}
 
         <div style={{ marginLeft: 8 }}>
           {recState === "listening" && <small style={{ color: "#000" }}>Listening…</small>}
@@ -396,11 +1153,13 @@ export default function App() {
                 color: "#000",
               }}
             >
-              {m.html ? (
+              {m.change ? (
+                <NoteChangeProposal change={m.change} />
+              ) : m.html ? (
                 <div className="card-html" style={{ color: "#000" }} dangerouslySetInnerHTML={{ __html: m.html }} />
               ) : (
                 <div style={{ color: "#000" }}>
-                  <ReactMarkdown>{m.text || ""}</ReactMarkdown>
+                  <ReactMarkdown>{(m.text || "") + (m.streaming ? " ▍" : "")}</ReactMarkdown>
                 </div>
               )}
             </div>
@@ -410,12 +1169,32 @@ export default function App() {
 
       {/* Card controls */}
       <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}>
-        <button onClick={showBack} disabled={!current || !current.backHTML}>Show Back (optional)</button>
+        <button onClick={() => showBack()} disabled={!current || !current.backHTML}>Show Back (optional)</button>
+        <button onClick={readBackAloud} disabled={!current || !current.backHTML} title="Read the back aloud">🔊 Back</button>
         <span style={{ flex: 1 }} />
         <button onClick={() => grade(1)} disabled={!current}>Again</button>
         <button onClick={() => grade(2)} disabled={!current}>Hard</button>
         <button onClick={() => grade(3)} disabled={!current}>Good</button>
         <button onClick={() => grade(4)} disabled={!current}>Easy</button>
+        <button onClick={undoLastGrade} title="Take back the last grade (Ctrl+Z, or say “undo”)">↶ Undo</button>
+      </div>
+
+      <PreviousAttempts cardId={current?.cardId} />
+
+      {/* Auto-grade */}
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+        <label style={{ color: "#000" }}>
+          <input type="checkbox" checked={autoGrade} onChange={(e) => setAutoGrade(e.target.checked)} />{" "}
+          Auto-grade from verdict
+        </label>
+        {autoGradePending && (
+          <>
+            <small style={{ color: "#000" }}>
+              Grading <b>{EASE_LABELS[autoGradePending.ease]}</b> in {autoGradePending.remaining}s…
+            </small>
+            <button onClick={cancelAutoGrade}>Cancel</button>
+          </>
+        )}
       </div>
 
       {/* Manual Record */}
@@ -424,39 +1203,34 @@ export default function App() {
           onClick={async () => {
             if (!current) return;
             const seqAtStart = currentSeqRef.current;
-            if (!sttLockRef.current) {
-              sttLockRef.current = true;
-              try {
-                await startListeningForAnswer("german", current, seqAtStart);
-              } finally {
-                sttLockRef.current = false;
-              }
-            }
+            await startListeningForAnswer(current, seqAtStart);
           }}
-          disabled={!current}
+          disabled={!current || voiceMode}
         >
           🎙️ Record answer
         </button>
         <small style={{ marginLeft: 8, color: "#000" }}>
-          (Stops after ~3s of silence. Use the grade buttons to advance.)
+          (Stops after a {(vadSettings.endOfSpeechMs / 1000).toFixed(1)}s pause. Use the grade buttons to advance.)
         </small>
+        <label style={{ marginLeft: 12, color: "#000" }} title={VOICE_MODE_HELP}>
+          <input type="checkbox" checked={voiceMode} onChange={(e) => setVoiceMode(e.target.checked)} />{" "}
+          Voice mode (hands-free)
+        </label>
+        <label style={{ marginLeft: 12, color: "#000" }} title={BARGE_IN_HELP}>
+          <input type="checkbox" checked={bargeIn} onChange={(e) => setBargeIn(e.target.checked)} />{" "}
+          Barge-in
+        </label>
+        <label style={{ marginLeft: 12, color: "#000" }} title="Read the feedback aloud after each answer (and the back when you say 'show back')">
+          <input type="checkbox" checked={speakFeedback} onChange={(e) => setSpeakFeedback(e.target.checked)} />{" "}
+          Speak feedback
+        </label>
       </div>
+      <VadControls settings={vadSettings} onChange={setVadSettings} levelRef={vadLevelRef} />
 
       {/* Free chat */}
       <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 14 }}>
         <button
-          onClick={async () => {
-            setChatMode(true);
-            const frontFieldHTML =
-              extractFieldHTML(current?.fields || {}, current?.modelName || "", "front") || current?.frontHTML || "";
-            const backFieldHTML =
-              extractFieldHTML(current?.fields || {}, current?.modelName || "", "back") || current?.backHTML || "";
-            const frontTxt = toPlainSpeakable(frontFieldHTML);
-            const backTxt  = toPlainSpeakable(backFieldHTML || "");
-            const sid = sessionIdRef.current;
-            await API.convoStart(sid, undefined, `Card front:\n${frontTxt}\n\nCard back:\n${backTxt}`);
-            setMessages(m => [...m, { role: "assistant", text: "Okay, let's discuss this card further." }]);
-          }}
+          onClick={startDiscussion}
           disabled={!current}
         >
           Discuss more
@@ -475,58 +1249,67 @@ export default function App() {
                 const text = chatInput.trim();
                 if (!text) return;
                 setChatInput("");
-                setMessages(m => [...m, { role: "user", text }]);
-                const sid = sessionIdRef.current;
-                const r = await API.convoSend(sid, text);
-                if (r.ok && r.reply) setMessages(m => [...m, { role: "assistant", text: r.reply }]);
-                else setMessages(m => [...m, { role: "assistant", text: r.error || "(conversation failed)" }]);
+                await sendChat(text);
               }}
             >
               Send
             </button>
             <button
-              onClick={async () => {
-                setChatMode(false);
-                const sid = sessionIdRef.current;
-                await API.convoReset(sid);
-              }}
+              onClick={endChatIfOpen}
             >
               End chat
             </button>
+            <a href={API.convoExportUrl(sessionIdRef.current)} download>
+              <small>Export</small>
+            </a>
           </>
         )}
       </div>
 
       {/* Audio */}
       <div style={{ marginTop: 12, display: "flex", alignItems: "center", gap: 8 }}>
-        <audio
-          ref={audioRef}
-          src={ttsUrl || undefined}
-          controls
-          playsInline
-          style={{ width: 360 }}
-          onCanPlay={() => {
-            if (!audioRef.current) return;
-            audioRef.current.play().then(() => setNeedsTap(false)).catch(() => setNeedsTap(true));
-          }}
-        />
+        <button onClick={replayAudio} disabled={!audioReady}>🔁 Replay</button>
+        <button onClick={stopSpeaking}>⏹ Stop</button>
         <button
-          onClick={() => {
-            lastGestureRef.current = Date.now();
-            setAllowAutoplay(true);
-            if (audioRef.current) {
-              audioRef.current.muted = false;
-              audioRef.current.currentTime = 0;
-              audioRef.current.play().then(() => setNeedsTap(false)).catch(() => setNeedsTap(true));
-            }
+          onClick={async () => {
+            if (await player().unlock()) setNeedsTap(false);
+            replayAudio();
           }}
-          disabled={!ttsUrl}
           style={{ display: needsTap ? "inline-block" : "none" }}
         >
           Enable audio
         </button>
-        {ttsUrl ? <small style={{ color: "#000" }}>Audio ready</small> : <small style={{ color: "#000" }}>Audio not generated yet</small>}
+        {audioReady ? <small style={{ color: "#000" }}>Audio ready</small> : <small style={{ color: "#000" }}>Audio not generated yet</small>}
       </div>
+
+      {/* Language / voice profile of the selected deck */}
+      <DeckProfileEditor deckName={deck} onSaved={clearTtsCache} templatesVersion={templatesVersion} />
+
+      {/* Evaluation / tutor prompts, previewed against the current card */}
+      <PromptTemplateEditor
+        deckName={current?.deckName || deck}
+        card={promptPreviewCard}
+        sampleTranscript={attemptRef.current?.transcript || undefined}
+        onChanged={() => setTemplatesVersion((v) => v + 1)}
+      />
+
+      {/* Field mapping for the current note type */}
+      {current?.modelName && fieldMappings[current.modelName] && (
+        <FieldMappingEditor
+          modelName={current.modelName}
+          fieldNames={
+            fieldMappings[current.modelName].fieldNames?.length
+              ? fieldMappings[current.modelName].fieldNames!
+              : Object.entries(current.fields || {}).sort((a, b) => a[1].order - b[1].order).map(([name]) => name)
+          }
+          mapping={fieldMappings[current.modelName]}
+          onSave={(m) => saveFieldMapping(current.modelName!, m)}
+          onReset={() => resetFieldMapping(current.modelName!)}
+        />
+      )}
+
+      {/* Session / deck statistics from the review history */}
+      <StatsDashboard deckName={deck} />
     </div>
   );
 }
@@ -0,0 +1,198 @@
+// client/src/DeckProfileEditor.tsx
+// Language, voice, prompt template, card audio and unspeakable-card policy of the selected deck. Empty inputs inherit from the parent deck
+// (or the built-in defaults); the placeholder shows what would be inherited.
+import React, { useEffect, useState } from "react";
+import * as API from "./api";
+
+const STT_LANGUAGES = ["auto", "german", "english", "french", "spanish", "italian", "dutch", "polish", "turkish"];
+const FEEDBACK_LANGUAGES = ["auto", "German", "English", "French", "Spanish", "Italian"];
+const VOICES = [
+  "Friendly_Person", "Wise_Woman", "Calm_Woman", "Deep_Voice_Man", "Casual_Guy", "Patient_Man",
+  "Lively_Girl", "Young_Knight", "Determined_Man", "Elegant_Man", "Imposing_Manner", "Inspirational_girl",
+];
+const LANGUAGE_BOOSTS = ["auto", "German", "English", "French", "Spanish", "Italian", "Dutch", "Polish", "Turkish"];
+const UNSPEAKABLE_POLICIES: { value: API.UnspeakablePolicy; label: string }[] = [
+  { value: "warn", label: "say so and show it" },
+  { value: "skip", label: "skip to the next card" },
+  { value: "bury", label: "bury until tomorrow" },
+  { value: "tag", label: "tag voice::unspeakable and skip" },
+];
+const EMOTIONS = ["auto", "happy", "neutral", "sad", "angry", "fearful", "disgusted", "surprised"];
+
+type Draft = {
+  sttLanguage: string;
+  feedbackLanguage: string;
+  promptTemplate: string;
+  unspeakablePolicy: string;
+  preferCardAudio: string; // "" inherit, "yes", "no"
+  voice_id: string;
+  speed: string;
+  emotion: string;
+  language_boost: string;
+};
+
+const EMPTY: Draft = { sttLanguage: "", feedbackLanguage: "", promptTemplate: "", unspeakablePolicy: "", preferCardAudio: "", voice_id: "", speed: "", emotion: "", language_boost: "" };
+
+function draftOf(own: API.DeckProfileOverrides = {}): Draft {
+  return {
+    sttLanguage: own.sttLanguage || "",
+    feedbackLanguage: own.feedbackLanguage || "",
+    promptTemplate: own.promptTemplate || "",
+    unspeakablePolicy: own.unspeakablePolicy || "",
+    preferCardAudio: own.preferCardAudio == null ? "" : own.preferCardAudio ? "yes" : "no",
+    voice_id: own.tts?.voice_id || "",
+    speed: own.tts?.speed != null ? String(own.tts.speed) : "",
+    emotion: own.tts?.emotion || "",
+    language_boost: own.tts?.language_boost || "",
+  };
+}
+
+type Props = {
+  deckName: string;
+  onSaved: () => void; // voice settings changed: cached audio is stale
+  templatesVersion?: number; // bumped when prompt templates were added or removed
+};
+
+export default function DeckProfileEditor({ deckName, onSaved, templatesVersion }: Props) {
+  const [resolved, setResolved] = useState<API.ResolvedDeckProfile | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY);
+  const [status, setStatus] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<API.PromptTemplate[]>([]);
+
+  useEffect(() => {
+    API.promptTemplates().then((r) => setTemplates(r.templates || [])).catch(() => {});
+  }, [templatesVersion]);
+
+  async function load() {
+    const r = await API.deckProfile(deckName).catch(() => null);
+    setResolved(r?.ok ? r : null);
+    setDraft(draftOf(r?.own));
+  }
+
+  useEffect(() => {
+    setStatus(null);
+    if (deckName) load();
+  }, [deckName]);
+
+  if (!deckName || !resolved?.profile || !resolved.sources) return null;
+  const { profile, sources } = resolved;
+
+  // Placeholder = the value this deck would inherit, and from where
+  const from = (src: string) => (src && src !== deckName ? ` (from ${src})` : src ? "" : " (default)");
+  const hint = (value: string | number, src: string) => `${value}${from(src)}`;
+
+  async function save() {
+    const own: API.DeckProfileOverrides = {
+      sttLanguage: draft.sttLanguage || undefined,
+      feedbackLanguage: draft.feedbackLanguage || undefined,
+      promptTemplate: draft.promptTemplate || undefined,
+      unspeakablePolicy: (draft.unspeakablePolicy || undefined) as API.UnspeakablePolicy | undefined,
+      preferCardAudio: draft.preferCardAudio ? draft.preferCardAudio === "yes" : undefined,
+      tts: {
+        voice_id: draft.voice_id || undefined,
+        speed: draft.speed ? Number(draft.speed) : undefined,
+        emotion: draft.emotion || undefined,
+        language_boost: draft.language_boost || undefined,
+      },
+    };
+    const r = await API.saveDeckProfile(deckName, own).catch((e) => ({ ok: false, error: String(e) }));
+    if (!r.ok) { setStatus(r.error || "Saving failed"); return; }
+    setStatus("Saved");
+    await load();
+    onSaved();
+  }
+
+  const set = (k: keyof Draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft((d) => ({ ...d, [k]: e.target.value }));
+
+  const inherited = (src: string) => !src || src !== deckName;
+
+  return (
+    <details style={{ marginTop: 14, color: "#000" }}>
+      <summary>
+        Voice, language & prompt · <b>{deckName}</b>{" "}
+        <small>
+          (STT {profile.sttLanguage}, feedback {profile.feedbackLanguage}, prompt {profile.promptTemplate}, voice {profile.tts.voice_id})
+        </small>
+      </summary>
+      <small>Leave a setting empty to inherit it from the parent deck.</small>
+
+      <datalist id="stt-languages">{STT_LANGUAGES.map((l) => <option key={l} value={l} />)}</datalist>
+      <datalist id="feedback-languages">{FEEDBACK_LANGUAGES.map((l) => <option key={l} value={l} />)}</datalist>
+      <datalist id="tts-voices">{VOICES.map((v) => <option key={v} value={v} />)}</datalist>
+      <datalist id="language-boosts">{LANGUAGE_BOOSTS.map((l) => <option key={l} value={l} />)}</datalist>
+
+      <table style={{ marginTop: 6, borderCollapse: "collapse" }}>
+        <tbody>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Speech recognition language</td>
+            <td><input list="stt-languages" value={draft.sttLanguage} onChange={set("sttLanguage")}
+              placeholder={inherited(sources.sttLanguage) ? hint(profile.sttLanguage, sources.sttLanguage) : ""} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Feedback language</td>
+            <td><input list="feedback-languages" value={draft.feedbackLanguage} onChange={set("feedbackLanguage")}
+              placeholder={inherited(sources.feedbackLanguage) ? hint(profile.feedbackLanguage, sources.feedbackLanguage) : ""} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Prompt template</td>
+            <td>
+              <select value={draft.promptTemplate} onChange={set("promptTemplate")}>
+                <option value="">inherit: {hint(profile.promptTemplate, sources.promptTemplate)}</option>
+                {templates.map((t) => <option key={t.id} value={t.id}>{t.name}{t.builtin ? "" : ` (${t.id})`}</option>)}
+              </select>
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Cards that can't be read aloud</td>
+            <td>
+              <select value={draft.unspeakablePolicy} onChange={set("unspeakablePolicy")}>
+                <option value="">inherit: {hint(profile.unspeakablePolicy, sources.unspeakablePolicy)}</option>
+                {UNSPEAKABLE_POLICIES.map((p) => <option key={p.value} value={p.value}>{p.label}</option>)}
+              </select>
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Card's own recordings</td>
+            <td>
+              <select value={draft.preferCardAudio} onChange={set("preferCardAudio")}>
+                <option value="">inherit: {hint(profile.preferCardAudio ? "play them" : "synthesize", sources.preferCardAudio)}</option>
+                <option value="yes">play them instead of synthesizing</option>
+                <option value="no">synthesize the text</option>
+              </select>
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Voice</td>
+            <td><input list="tts-voices" value={draft.voice_id} onChange={set("voice_id")}
+              placeholder={inherited(sources.tts.voice_id) ? hint(profile.tts.voice_id, sources.tts.voice_id) : ""} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Speed (0.5–2)</td>
+            <td><input type="number" min={0.5} max={2} step={0.05} value={draft.speed} onChange={set("speed")}
+              placeholder={inherited(sources.tts.speed) ? hint(profile.tts.speed, sources.tts.speed) : ""} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Emotion</td>
+            <td>
+              <select value={draft.emotion} onChange={set("emotion")}>
+                <option value="">inherit: {hint(profile.tts.emotion, sources.tts.emotion)}</option>
+                {EMOTIONS.map((e) => <option key={e} value={e}>{e}</option>)}
+              </select>
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Language boost</td>
+            <td><input list="language-boosts" value={draft.language_boost} onChange={set("language_boost")}
+              placeholder={inherited(sources.tts.language_boost) ? hint(profile.tts.language_boost, sources.tts.language_boost) : ""} /></td>
+          </tr>
+        </tbody>
+      </table>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 6 }}>
+        <button onClick={save}>Save profile</button>
+        <button onClick={() => setDraft(EMPTY)} title="Inherit everything from the parent deck">Clear overrides</button>
+        {status && <small>{status}</small>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,77 @@
+// client/src/FieldMappingEditor.tsx
+// Per-note-type field roles: prompt (read aloud as the front), answer (expected reply),
+// context (sent to the reviewer only) and hidden (never used). Unassigned fields are ignored.
+import React, { useEffect, useState } from "react";
+import type { FieldMapping, FieldRole } from "./api";
+
+const ROLE_LABELS: Record<FieldRole, string> = {
+  prompt: "Prompt (spoken)",
+  answer: "Expected answer",
+  context: "Context for feedback",
+  hidden: "Hidden",
+};
+const ROLES = Object.keys(ROLE_LABELS) as FieldRole[];
+
+type Props = {
+  modelName: string;
+  fieldNames: string[];
+  mapping: FieldMapping;
+  onSave: (mapping: Record<FieldRole, string[]>) => Promise<string | null>; // resolves an error message or null
+  onReset: () => void;
+};
+
+const roleOf = (mapping: FieldMapping, field: string): FieldRole | "" =>
+  ROLES.find((r) => mapping[r]?.includes(field)) || "";
+
+export default function FieldMappingEditor({ modelName, fieldNames, mapping, onSave, onReset }: Props) {
+  const [roles, setRoles] = useState<Record<string, FieldRole | "">>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fieldKey = fieldNames.join("\u0000"); // fieldNames may be a fresh array on every render
+  useEffect(() => {
+    setRoles(Object.fromEntries(fieldNames.map((f) => [f, roleOf(mapping, f)])));
+    setError(null);
+  }, [modelName, mapping, fieldKey]);
+
+  const dirty = fieldNames.some((f) => (roles[f] ?? "") !== roleOf(mapping, f));
+
+  async function save() {
+    // Field order inside a role follows the note type's field order
+    const next = Object.fromEntries(ROLES.map((r) => [r, fieldNames.filter((f) => roles[f] === r)])) as Record<FieldRole, string[]>;
+    setSaving(true);
+    setError(await onSave(next));
+    setSaving(false);
+  }
+
+  return (
+    <details style={{ marginTop: 14, color: "#000" }}>
+      <summary>
+        Field mapping · <b>{modelName}</b>
+        {mapping.suggested && <small> (suggested — save to confirm)</small>}
+      </summary>
+      <table style={{ marginTop: 6, borderCollapse: "collapse" }}>
+        <tbody>
+          {fieldNames.map((f) => (
+            <tr key={f}>
+              <td style={{ padding: "2px 12px 2px 0" }}>{f}</td>
+              <td>
+                <select value={roles[f] ?? ""} onChange={(e) => setRoles((r) => ({ ...r, [f]: e.target.value as FieldRole | "" }))}>
+                  <option value="">— not used</option>
+                  {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 6 }}>
+        <button onClick={save} disabled={saving || (!dirty && !mapping.suggested)}>Save mapping</button>
+        <button onClick={onReset} disabled={saving} title="Forget this mapping and suggest one from the field names again">
+          Re-suggest
+        </button>
+        {error && <small style={{ color: "#d00" }}>{error}</small>}
+      </div>
+    </details>
+  );
+}
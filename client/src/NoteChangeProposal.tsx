@@ -0,0 +1,76 @@
+// client/src/NoteChangeProposal.tsx
+// A note change the tutor proposed in "Discuss more", shown in the chat for review: a word diff of
+// the edited field, the fields of a new follow-up note, or the tag to add. Nothing is written to
+// Anki until "Apply"; the server then re-checks the note and records the change in its audit log.
+import React, { useState } from "react";
+import * as API from "./api";
+import { diffWords } from "./textDiff";
+
+const BOX = { border: "1px solid #cbd5e1", borderRadius: 4, padding: "6px 10px", background: "#f8fafc" } as const;
+const SOURCE = { whiteSpace: "pre-wrap", fontFamily: "ui-monospace, monospace", fontSize: 12, margin: "4px 0" } as const;
+
+function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <div style={SOURCE}>
+      {diffWords(before, after).map((p, i) =>
+        p.type === "same" ? <span key={i}>{p.text}</span>
+        : p.type === "del" ? <del key={i} style={{ background: "#fee2e2", color: "#991b1b" }}>{p.text}</del>
+        : <ins key={i} style={{ background: "#dcfce7", color: "#166534", textDecoration: "none" }}>{p.text}</ins>
+      )}
+    </div>
+  );
+}
+
+function title(c: API.NoteChange) {
+  if (c.action === "updateField") return <>Edit field <b>{c.field}</b></>;
+  if (c.action === "addNote") return <>New follow-up note <small>({c.modelName} · {c.deckName})</small></>;
+  return <>Add tag <code>{c.tags?.join(" ")}</code></>;
+}
+
+export default function NoteChangeProposal({ change }: { change: API.NoteChange }) {
+  const [c, setC] = useState(change);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: typeof API.applyNoteChange) {
+    setBusy(true);
+    setError(null);
+    const r = await action(c.id).catch((e) => ({ ok: false, error: String(e), change: undefined }));
+    setBusy(false);
+    if (r.ok && r.change) setC(r.change);
+    else setError(r.error || "failed");
+  }
+
+  return (
+    <div style={BOX}>
+      <div>✏️ {title(c)}</div>
+      {c.reason && <small><i>{c.reason}</i></small>}
+
+      {c.action === "updateField" && <Diff before={c.before || ""} after={c.after || ""} />}
+      {c.action === "addNote" && (
+        <table style={{ borderCollapse: "collapse", margin: "4px 0" }}>
+          <tbody>
+            {Object.entries(c.fields || {}).map(([name, value]) => (
+              <tr key={name}>
+                <td style={{ paddingRight: 10, verticalAlign: "top" }}><small>{name}</small></td>
+                <td style={SOURCE}>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
+        {c.status === "proposed" ? (
+          <>
+            <button onClick={() => run(API.applyNoteChange)} disabled={busy}>{busy ? "Applying…" : "Apply in Anki"}</button>
+            <button onClick={() => run(API.dismissNoteChange)} disabled={busy}>Dismiss</button>
+          </>
+        ) : (
+          <small>{c.status === "applied" ? `Applied${c.newNoteId ? ` (note ${c.newNoteId})` : ""} ✓` : c.status === "dismissed" ? "Dismissed" : "Applying…"}</small>
+        )}
+        {error && <small style={{ color: "#b91c1c" }}>{error}</small>}
+      </div>
+    </div>
+  );
+}
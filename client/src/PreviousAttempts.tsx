@@ -0,0 +1,45 @@
+// client/src/PreviousAttempts.tsx
+// Earlier graded attempts of the current card from the review history (/api/history), newest first.
+import React, { useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import * as API from "./api";
+
+const EASE_LABELS = { 1: "Again", 2: "Hard", 3: "Good", 4: "Easy" } as const;
+
+const formatWhen = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const formatLatency = (ms: number | null) => (ms == null ? "" : ` · answered after ${(ms / 1000).toFixed(1)}s`);
+
+export default function PreviousAttempts({ cardId }: { cardId?: number }) {
+  const [attempts, setAttempts] = useState<API.HistoryAttempt[]>([]);
+
+  useEffect(() => {
+    setAttempts([]);
+    if (!cardId) return;
+    let stale = false;
+    API.history({ cardId, limit: 20 })
+      .then((r) => { if (!stale && r.ok) setAttempts(r.attempts || []); })
+      .catch(() => {});
+    return () => { stale = true; };
+  }, [cardId]);
+
+  if (!attempts.length) return null;
+
+  return (
+    <details style={{ marginTop: 12, color: "#000" }}>
+      <summary>Previous attempts ({attempts.length})</summary>
+      {attempts.map((a) => (
+        <div key={a.id} style={{ borderLeft: "3px solid #cbd5e1", padding: "4px 8px", margin: "6px 0" }}>
+          <small>
+            {formatWhen(a.ts)} · <b>{a.ease ? EASE_LABELS[a.ease] : "—"}</b>
+            {a.verdict?.valid ? ` · verdict ${a.verdict.verdict}` : ""}
+            {formatLatency(a.latencyMs)}
+          </small>
+          <div><i>{a.transcript ? `“${a.transcript}”` : "(no spoken answer)"}</i></div>
+          {a.feedback && <ReactMarkdown>{a.feedback}</ReactMarkdown>}
+        </div>
+      ))}
+    </details>
+  );
+}
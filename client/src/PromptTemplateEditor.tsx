@@ -0,0 +1,158 @@
+// client/src/PromptTemplateEditor.tsx
+// Prompt templates for the evaluation and the tutor. The built-in strictness presets are read-only;
+// "Copy as…" starts a custom template from the selected one. The preview renders the draft (saved
+// or not) against the current card exactly as the model would get it, verdict format included.
+import React, { useEffect, useState } from "react";
+import * as API from "./api";
+
+type Draft = Omit<API.PromptTemplate, "builtin">;
+
+type Props = {
+  deckName: string;
+  card: { front: string; back: string; context: string } | null; // current card, for the preview
+  sampleTranscript?: string;
+  onChanged: () => void; // templates added or removed
+};
+
+const AREA = { width: "100%", fontFamily: "ui-monospace, monospace", fontSize: 12 } as const;
+const PRE = { whiteSpace: "pre-wrap", background: "#f8fafc", padding: 6, fontSize: 12, margin: "2px 0 8px" } as const;
+
+export default function PromptTemplateEditor({ deckName, card, sampleTranscript, onChanged }: Props) {
+  const [list, setList] = useState<API.PromptTemplateList | null>(null);
+  const [selected, setSelected] = useState("standard");
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [newId, setNewId] = useState("");
+  const [transcript, setTranscript] = useState("");
+  const [preview, setPreview] = useState<API.PromptPreview | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function load(select = selected) {
+    const r = await API.promptTemplates().catch(() => null);
+    setList(r?.ok ? r : null);
+    const t = r?.templates?.find((x) => x.id === select) || r?.templates?.[0];
+    if (t) {
+      setSelected(t.id);
+      setDraft({ ...t });
+    }
+  }
+
+  useEffect(() => { load(); }, []); // eslint-disable-line
+  useEffect(() => { if (sampleTranscript) setTranscript(sampleTranscript); }, [sampleTranscript]);
+
+  if (!list?.templates || !draft) return null;
+  const builtin = !!list.templates.find((t) => t.id === draft.id)?.builtin;
+
+  const set = (k: keyof Draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+    setDraft((d) => (d ? { ...d, [k]: e.target.value } : d));
+
+  function pick(id: string) {
+    const t = list?.templates?.find((x) => x.id === id);
+    if (!t) return;
+    setSelected(id);
+    setDraft({ ...t });
+    setPreview(null);
+    setStatus(null);
+  }
+
+  async function save(id: string) {
+    if (!draft) return;
+    const { id: _id, ...body } = draft;
+    const r = await API.savePromptTemplate(id, { ...body, name: id === draft.id ? body.name : id })
+      .catch((e) => ({ ok: false, error: String(e), template: undefined }));
+    if (!r.ok) { setStatus(r.error || "Saving failed"); return; }
+    setStatus("Saved");
+    setNewId("");
+    await load(id);
+    onChanged();
+  }
+
+  async function remove() {
+    if (!draft || builtin) return;
+    await API.deletePromptTemplate(draft.id).catch(() => {});
+    setStatus(`Deleted ${draft.id}; decks using it fall back to standard`);
+    await load("standard");
+    onChanged();
+  }
+
+  async function runPreview() {
+    if (!draft) return;
+    const r = await API.previewPrompt({
+      template: draft,
+      deckName,
+      front: card?.front || "(front)",
+      back: card?.back || "(back)",
+      context: card?.context || "",
+      transcript: transcript || "(learner's answer)",
+    }).catch((e) => ({ ok: false, error: String(e) }) as API.PromptPreview);
+    setPreview(r);
+  }
+
+  return (
+    <details style={{ marginTop: 14, color: "#000" }}>
+      <summary>Prompt templates <small>(how answers are judged; assign one per deck above)</small></summary>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 6 }}>
+        <select value={selected} onChange={(e) => pick(e.target.value)}>
+          {list.templates.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}{t.builtin ? " (built-in)" : ` (${t.id})`}</option>
+          ))}
+        </select>
+        <input value={newId} onChange={(e) => setNewId(e.target.value)} placeholder="new-template-id" style={{ width: 160 }} />
+        <button onClick={() => save(newId.trim())} disabled={!/^[\w-]{1,40}$/.test(newId.trim())}>Copy as…</button>
+        {!builtin && <button onClick={() => save(draft.id)}>Save</button>}
+        {!builtin && <button onClick={remove}>Delete</button>}
+        {status && <small>{status}</small>}
+      </div>
+
+      <table style={{ marginTop: 6, borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          <tr>
+            <td style={{ paddingRight: 12, width: 160 }}>Name</td>
+            <td><input value={draft.name} onChange={set("name")} disabled={builtin} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12 }}>Strictness</td>
+            <td>
+              <select value={draft.strictness} onChange={set("strictness")} disabled={builtin}>
+                {Object.keys(list.strictnessLevels || {}).map((k) => <option key={k} value={k}>{k}</option>)}
+              </select>
+              <pre style={PRE}>{list.strictnessLevels?.[draft.strictness]}</pre>
+            </td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12, verticalAlign: "top" }}>Evaluation: system</td>
+            <td><textarea rows={8} style={AREA} value={draft.reviewSystem} onChange={set("reviewSystem")} readOnly={builtin} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12, verticalAlign: "top" }}>Evaluation: message</td>
+            <td><textarea rows={8} style={AREA} value={draft.reviewUser} onChange={set("reviewUser")} readOnly={builtin} /></td>
+          </tr>
+          <tr>
+            <td style={{ paddingRight: 12, verticalAlign: "top" }}>Tutor ("Discuss more")</td>
+            <td><textarea rows={3} style={AREA} value={draft.tutorSystem} onChange={set("tutorSystem")} readOnly={builtin} /></td>
+          </tr>
+        </tbody>
+      </table>
+      <small>
+        Placeholders: {(list.placeholders || []).map((p) => `{{${p}}}`).join(" ")} · {"{{#context}}…{{/context}}"} only
+        when the card has context. The verdict format and the feedback language are always appended.
+      </small>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}>
+        <input value={transcript} onChange={(e) => setTranscript(e.target.value)} placeholder="Sample answer for the preview" style={{ flex: 1 }} />
+        <button onClick={runPreview}>Preview{card ? " with current card" : ""}</button>
+      </div>
+      {preview && !preview.ok && <small style={{ color: "#b91c1c" }}>{preview.error}</small>}
+      {preview?.review && (
+        <div style={{ marginTop: 6 }}>
+          <small>System</small>
+          <pre style={PRE}>{preview.review.system}</pre>
+          <small>Message</small>
+          <pre style={PRE}>{preview.review.user}</pre>
+          <small>Tutor</small>
+          <pre style={PRE}>{preview.tutorSystem}</pre>
+        </div>
+      )}
+    </details>
+  );
+}
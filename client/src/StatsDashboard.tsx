@@ -0,0 +1,159 @@
+// client/src/StatsDashboard.tsx
+// Statistics over the review history (/api/stats): per session and per deck, ease distribution,
+// answer latency, STT/LLM/TTS round trips, discussion time, problem cards and how often the
+// evaluation's suggested grade matched the learner's. Loaded when the panel is opened.
+import React, { useState } from "react";
+import * as API from "./api";
+
+const EASE_LABELS = { 1: "Again", 2: "Hard", 3: "Good", 4: "Easy" } as const;
+
+const secs = (ms: number | null) => (ms == null ? "—" : `${(ms / 1000).toFixed(1)}s`);
+const pct = (rate: number | null) => (rate == null ? "—" : `${Math.round(rate * 100)}%`);
+const when = (ts: number | null) =>
+  ts == null ? "—" : new Date(ts).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+const minutes = (ms: number) => `${Math.round(ms / 60000)} min`;
+
+const cell: React.CSSProperties = { padding: "2px 8px", borderBottom: "1px solid #e5e7eb", textAlign: "left" };
+
+function EaseBar({ dist }: { dist: API.StatsSummary["easeDistribution"] }) {
+  const total = Object.values(dist).reduce((a, b) => a + b, 0);
+  if (!total) return <span>—</span>;
+  const colors = { 1: "#ef4444", 2: "#f59e0b", 3: "#22c55e", 4: "#3b82f6" } as const;
+  return (
+    <span title={([1, 2, 3, 4] as const).map((e) => `${EASE_LABELS[e]} ${dist[e]}`).join(" · ")}
+      style={{ display: "inline-flex", width: 120, height: 10, verticalAlign: "middle" }}>
+      {([1, 2, 3, 4] as const).map((e) => (
+        <span key={e} style={{ width: `${(dist[e] / total) * 100}%`, background: colors[e] }} />
+      ))}
+    </span>
+  );
+}
+
+function SummaryRow({ label, s }: { label: React.ReactNode; s: API.StatsSummary }) {
+  return (
+    <tr>
+      <td style={cell}>{label}</td>
+      <td style={cell}>{s.attempts} / {s.cardsReviewed}</td>
+      <td style={cell}><EaseBar dist={s.easeDistribution} /></td>
+      <td style={cell}>{secs(s.avgLatencyMs)}</td>
+      <td style={cell}>{secs(s.roundTrips.stt.avgMs)} / {secs(s.roundTrips.llm.avgMs)} / {secs(s.roundTrips.tts.avgMs)}</td>
+      <td style={cell}>{s.discuss.count ? `${s.discuss.count}× · ${secs(s.discuss.totalMs)}` : "—"}</td>
+      <td style={cell} title={`${s.agreement.compared} graded with a verdict`}>
+        {pct(s.agreement.exactRate)} / {pct(s.agreement.passFailRate)}
+      </td>
+    </tr>
+  );
+}
+
+function SummaryTable({ rows }: { rows: { key: string; label: React.ReactNode; s: API.StatsSummary }[] }) {
+  return (
+    <table style={{ borderCollapse: "collapse", fontSize: 13, marginTop: 4 }}>
+      <thead>
+        <tr>
+          <th style={cell}></th>
+          <th style={cell} title="graded attempts / distinct cards">Attempts</th>
+          <th style={cell}>Grades</th>
+          <th style={cell} title="front finished playing → answer started">Latency</th>
+          <th style={cell} title="average round trips">STT / LLM / TTS</th>
+          <th style={cell}>Discussed</th>
+          <th style={cell} title="suggested grade = chosen grade / same pass-fail">Agreement</th>
+        </tr>
+      </thead>
+      <tbody>{rows.map((r) => <SummaryRow key={r.key} label={r.label} s={r.s} />)}</tbody>
+    </table>
+  );
+}
+
+export default function StatsDashboard({ deckName }: { deckName: string }) {
+  const [onlyDeck, setOnlyDeck] = useState(false);
+  const [stats, setStats] = useState<API.Stats | null>(null);
+  const [check, setCheck] = useState<API.AnkiCheck | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const filter = (only = onlyDeck): API.HistoryFilter => (only && deckName ? { deckName } : {});
+
+  async function load(only = onlyDeck) {
+    setCheck(null);
+    setStats(await API.stats(filter(only)).catch((e) => ({ ok: false, error: String(e) })));
+  }
+
+  async function checkAnki() {
+    setBusy(true);
+    try {
+      setCheck(await API.statsAnkiCheck(filter()).catch((e) => ({ ok: false, error: String(e) })));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const total = stats?.ok ? stats.total : undefined;
+
+  return (
+    <details style={{ marginTop: 14, color: "#000" }} onToggle={(e) => { if ((e.target as HTMLDetailsElement).open) load(); }}>
+      <summary>Statistics</summary>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", marginTop: 6 }}>
+        <label>
+          <input type="checkbox" checked={onlyDeck} disabled={!deckName}
+            onChange={(e) => { setOnlyDeck(e.target.checked); load(e.target.checked); }} />
+          {" "}Only {deckName || "the selected deck"}
+        </label>
+        <button onClick={() => load()}>Refresh</button>
+        <button onClick={checkAnki} disabled={busy || !total?.attempts}>Check against Anki</button>
+      </div>
+
+      {stats && !stats.ok && <p style={{ color: "#b91c1c" }}>{stats.error || "Loading statistics failed"}</p>}
+      {total && !total.attempts && <p>No graded attempts yet.</p>}
+
+      {check && (
+        <p style={{ fontSize: 13 }}>
+          {check.ok
+            ? <>
+                {check.matched} of {check.checked} recorded grades found in Anki's review log
+                {check.ankiReviewsInDeck != null && ` · Anki logged ${check.ankiReviewsInDeck} reviews in this deck since then`}
+                {!!check.mismatches?.length && (
+                  <ul style={{ margin: "4px 0" }}>
+                    {check.mismatches.slice(0, 20).map((m) => (
+                      <li key={m.historyId}>
+                        {when(m.ts)} · card {m.cardId}: recorded {EASE_LABELS[m.ease as 1 | 2 | 3 | 4] || m.ease}
+                        {m.reason === "ease_differs"
+                          ? `, Anki has ${EASE_LABELS[m.ankiEase as 1 | 2 | 3 | 4] || m.ankiEase}`
+                          : ", not in Anki's review log"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            : <span style={{ color: "#b91c1c" }}>{check.error || "Check failed"}</span>}
+        </p>
+      )}
+
+      {total && total.attempts > 0 && (
+        <>
+          <h4 style={{ margin: "10px 0 0" }}>Overall</h4>
+          <SummaryTable rows={[{ key: "total", label: `${when(total.firstTs)} – ${when(total.lastTs)}`, s: total }]} />
+
+          <h4 style={{ margin: "10px 0 0" }}>Sessions</h4>
+          <SummaryTable rows={(stats!.sessions || []).slice(0, 20).map((s) => ({
+            key: s.sessionId,
+            label: <>{when(s.firstTs)} · {s.deckName || "—"}{s.sessionMode ? ` (${s.sessionMode})` : ""}</>,
+            s,
+          }))} />
+
+          <h4 style={{ margin: "10px 0 0" }}>Decks</h4>
+          <SummaryTable rows={(stats!.decks || []).map((d) => ({ key: d.deckName, label: d.deckName, s: d }))} />
+
+          {total.repeatedlyFailed.length > 0 && (
+            <>
+              <h4 style={{ margin: "10px 0 0" }}>Repeatedly failed</h4>
+              <small>{total.repeatedlyFailed.slice(0, 20).map((c) => `card ${c.cardId} (${c.failCount}× Again)`).join(" · ")}</small>
+            </>
+          )}
+          <p style={{ fontSize: 12, color: "#555" }}>
+            Time spent discussing in total: {minutes(total.discuss.totalMs)}. Agreement compares the grade the
+            evaluation suggested with the one you chose: exact / pass-fail (Again vs. the rest).
+          </p>
+        </>
+      )}
+    </details>
+  );
+}
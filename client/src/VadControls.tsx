@@ -0,0 +1,59 @@
+// client/src/VadControls.tsx
+// Microphone sensitivity and end-of-speech delay, plus a live level meter while the mic is open.
+// The meter reads the latest VAD level from a ref on every animation frame, so the recorder's
+// 20 levels per second do not re-render the whole app.
+import React, { useEffect, useState } from "react";
+import type { VadLevel, VadSettings } from "./vad";
+
+const METER_MIN_DB = -80;
+const pos = (db: number) => `${Math.min(100, Math.max(0, ((db - METER_MIN_DB) / -METER_MIN_DB) * 100))}%`;
+
+type Props = {
+  settings: VadSettings;
+  onChange: (settings: VadSettings) => void;
+  levelRef: React.MutableRefObject<VadLevel | null>; // null while the mic is closed
+};
+
+export default function VadControls({ settings, onChange, levelRef }: Props) {
+  const [level, setLevel] = useState<VadLevel | null>(null);
+
+  useEffect(() => {
+    let raf = 0;
+    const poll = () => {
+      setLevel(levelRef.current);
+      raf = requestAnimationFrame(poll);
+    };
+    raf = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(raf);
+  }, [levelRef]);
+
+  const color = !level ? "#cbd5e1" : level.phase === "speech" ? "#16a34a" : level.speechLike ? "#f59e0b" : "#64748b";
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 6, flexWrap: "wrap", color: "#000" }}>
+      <label title="Higher reacts to quieter speech; lower ignores more background noise">
+        <small>Mic sensitivity</small>{" "}
+        <input type="range" min={0} max={1} step={0.05} value={settings.sensitivity}
+          onChange={(e) => onChange({ ...settings, sensitivity: Number(e.target.value) })} />
+      </label>
+      <label title="How long a pause ends your answer">
+        <small>End after {(settings.endOfSpeechMs / 1000).toFixed(1)}s pause</small>{" "}
+        <input type="range" min={500} max={6000} step={250} value={settings.endOfSpeechMs}
+          onChange={(e) => onChange({ ...settings, endOfSpeechMs: Number(e.target.value) })} />
+      </label>
+      <div
+        title={level ? `level ${level.levelDb.toFixed(0)} dB · noise floor ${level.noiseFloorDb.toFixed(0)} dB` : "mic closed"}
+        style={{ position: "relative", width: 160, height: 10, background: "#e5e7eb", borderRadius: 3 }}
+      >
+        {level && (
+          <>
+            <div style={{ position: "absolute", left: 0, top: 0, bottom: 0, width: pos(level.levelDb), background: color, borderRadius: 3 }} />
+            {/* noise floor and the level speech has to reach */}
+            <div style={{ position: "absolute", left: pos(level.noiseFloorDb), top: -2, bottom: -2, width: 2, background: "#334155" }} />
+            <div style={{ position: "absolute", left: pos(level.onsetDb), top: -2, bottom: -2, width: 2, background: "#dc2626" }} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
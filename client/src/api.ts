@@ -9,9 +9,27 @@ export type CurrentCard = {
   backHTML?: string;
   modelName?: string;
   templateName?: string;
+  ord?: number;          // cardsInfo "ord": template index, or cloze number - 1 (c2 → 1)
+  deckName?: string;
   fields?: Record<string, { value: string; order: number }>;
 };
 
+export type Verdict = {
+  verdict: "correct" | "partial" | "wrong" | "unknown";
+  ease: 1 | 2 | 3 | 4 | null;   // null when the model's verdict was unusable
+  missed: string[];
+  confidence: number;           // 0..1
+  valid: boolean;
+};
+
+export type ReviewChainResult = {
+  ok: boolean;
+  transcript?: string;
+  reply?: string;
+  verdict?: Verdict;
+  error?: string;
+};
+
 export async function health() {
   const r = await fetch("/api/health");
   return r.json();
@@ -22,11 +40,14 @@ export async function decks(): Promise<{ok:boolean; decks?: string[]; error?: st
   return r.json();
 }
 
-export async function start(deckName: string) {
+// "gui" drives the Anki desktop reviewer; "headless" reviews through AnkiConnect's data APIs only
+export type SessionMode = "gui" | "headless";
+
+export async function start(deckName: string, mode?: SessionMode) {
   const r = await fetch("/api/start", {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({ deckName }),
+    body: JSON.stringify({ deckName, mode }),
   });
   return r.json();
 }
@@ -45,20 +66,87 @@ export async function show(side: "front"|"back", deckName?: string) {
   return r.json();
 }
 
-export async function answer(ease: 1|2|3|4) {
+// What was said and answered for a card; stored with the grade in the review history
+export type AttemptInfo = {
+  transcript?: string;
+  feedback?: string;
+  verdict?: Verdict;
+  latencyMs?: number | null;   // front playback end → answer speech start
+  timings?: AttemptTimings;
+};
+
+// Client-measured round trips for one attempt (ms)
+export type AttemptTimings = { sttMs: number[]; llmMs: number[]; ttsMs: number[]; discussMs: number };
+
+// queued: Anki is unreachable; the server keeps the grade and sends it once Anki is back
+export type AnswerResult = { ok: boolean; queued?: boolean; duplicate?: boolean; pending?: number; error?: string };
+
+// gradeId lets the server recognize a grade it has already taken (retries, double presses)
+export async function answer(
+  ease: 1|2|3|4,
+  record?: { cardId: number; attempt?: AttemptInfo; gradeId?: string }
+): Promise<AnswerResult> {
   const r = await fetch("/api/answer", {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({ ease }),
+    body: JSON.stringify({ ease, ...record }),
   });
   return r.json();
 }
 
-export async function tts(text: string): Promise<string | null> {
+export type PendingGrade = { gradeId: string; cardId: number; ease: number; submittedAt: number; attempts: number; lastError: string | null };
+export type ConnectionState = {
+  ok: boolean;
+  connected: boolean;          // AnkiConnect answered the last call
+  pending: number;             // grades waiting to be sent
+  nextAttemptAt: number | null;
+  lastError: string | null;
+  items: PendingGrade[];
+  failed: { gradeId: string; cardId: number; ease: number; submittedAt: number; error: string; failedAt: number }[];
+};
+
+/** Follows the server's connection state; returns a function that stops listening */
+export function connectionEvents(onState: (s: ConnectionState) => void): () => void {
+  const es = new EventSource("/api/connection/stream"); // reconnects by itself if the server restarts
+  es.addEventListener("state", (e) => onState(JSON.parse((e as MessageEvent).data)));
+  return () => es.close();
+}
+
+// cancelled: the grade had not reached Anki yet and was simply dropped
+export type UndoResult = { ok: boolean; cancelled?: boolean; undone?: { cardId: number; ease: 1|2|3|4; mode?: SessionMode }; error?: string };
+
+/** Takes back the latest grade (GUI: Anki's undo; headless: the card's scheduling is restored) */
+export async function undo(): Promise<UndoResult> {
+  const r = await fetch("/api/undo", { method: "POST" });
+  return r.json();
+}
+
+export async function skip(deckName?: string): Promise<{ ok: boolean; skipped?: number; error?: string }> {
+  const r = await fetch("/api/skip", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ deckName }),
+  });
+  return r.json();
+}
+
+// A card the client can't read aloud: the server applies the deck's unspeakablePolicy
+export type UnspeakablePolicy = "warn" | "skip" | "bury" | "tag";
+export async function unspeakable(cardId: number, deckName: string, reasons: string[]): Promise<{ ok: boolean; action?: UnspeakablePolicy; skipped?: number; error?: string }> {
+  const r = await fetch("/api/unspeakable", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ cardId, deckName, reasons }),
+  });
+  return r.json();
+}
+
+// deckName selects the voice from the deck's profile
+export async function tts(text: string, deckName?: string): Promise<string | null> {
   const r = await fetch("/api/tts", {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({ text }),
+    body: JSON.stringify({ text, deckName }),
   });
   const json = await r.json();
   return json.ok ? (json.url as string) : null;
@@ -79,21 +167,244 @@ export async function cardsInfo(ids: number[]): Promise<any[]> {
   return r.json();
 }
 
-export async function stt(audioBase64: string, language?: string): Promise<{ ok: boolean; text?: string; error?: string }> {
+// ---- Review history ----
+export type HistoryAttempt = {
+  id: string;
+  ts: number;
+  cardId: number | null;
+  noteId: number | null;
+  deckName: string | null;
+  modelName: string | null;
+  transcript: string | null;
+  feedback: string | null;
+  verdict: Verdict | null;
+  ease: 1 | 2 | 3 | 4 | null;
+  latencyMs: number | null;
+  sessionId: string | null;
+  sessionDeck: string | null;
+  sessionMode: SessionMode | null;
+  timings: AttemptTimings | null;
+};
+
+export type HistoryFilter = {
+  cardId?: number;
+  noteId?: number;
+  deckName?: string;       // includes subdecks
+  sessionId?: string;
+  from?: string | number;  // epoch ms or YYYY-MM-DD
+  to?: string | number;
+  limit?: number;
+};
+
+const filterQuery = (filter: HistoryFilter) => new URLSearchParams(
+  Object.entries(filter).filter(([, v]) => v != null && v !== "").map(([k, v]) => [k, String(v)])
+);
+
+export async function history(filter: HistoryFilter = {}): Promise<{ ok: boolean; attempts?: HistoryAttempt[]; error?: string }> {
+  const r = await fetch(`/api/history?${filterQuery(filter)}`);
+  return r.json();
+}
+
+// ---- Statistics over the review history ----
+export type RoundTrip = { count: number; avgMs: number | null; maxMs: number | null };
+export type StatsSummary = {
+  attempts: number;
+  cardsReviewed: number;
+  firstTs: number | null;
+  lastTs: number | null;
+  easeDistribution: Record<1 | 2 | 3 | 4, number>;
+  avgLatencyMs: number | null;
+  roundTrips: { stt: RoundTrip; llm: RoundTrip; tts: RoundTrip };
+  discuss: { count: number; totalMs: number };
+  repeatedlyFailed: { cardId: number; failCount: number }[];
+  // learner's ease vs. the evaluation's suggested ease
+  agreement: { compared: number; exact: number; passFail: number; exactRate: number | null; passFailRate: number | null };
+};
+export type SessionStats = StatsSummary & { sessionId: string; deckName: string | null; sessionMode: SessionMode | null };
+export type DeckStats = StatsSummary & { deckName: string };
+export type Stats = { ok: boolean; total?: StatsSummary; sessions?: SessionStats[]; decks?: DeckStats[]; error?: string };
+
+export type RevlogMismatch = {
+  historyId: string;
+  cardId: number;
+  ts: number;
+  ease: number;
+  ankiEase: number | null;
+  reason: "ease_differs" | "not_in_revlog";
+};
+export type AnkiCheck = {
+  ok: boolean;
+  checked?: number;
+  matched?: number;
+  mismatches?: RevlogMismatch[];
+  ankiReviewsInDeck?: number; // only with deckName: all reviews Anki logged there since the first record
+  error?: string;
+};
+
+export async function stats(filter: HistoryFilter = {}): Promise<Stats> {
+  const r = await fetch(`/api/stats?${filterQuery(filter)}`);
+  return r.json();
+}
+
+export async function statsAnkiCheck(filter: HistoryFilter = {}): Promise<AnkiCheck> {
+  const r = await fetch(`/api/stats/anki-check?${filterQuery(filter)}`);
+  return r.json();
+}
+
+// ---- Deck profiles (language + voice, inherited down Parent::Child) ----
+export type TtsVoice = { voice_id: string; speed: number; emotion: string; language_boost: string };
+export type DeckProfile = {
+  sttLanguage: string;
+  feedbackLanguage: string;
+  promptTemplate: string;
+  unspeakablePolicy: UnspeakablePolicy;
+  preferCardAudio: boolean;
+  tts: TtsVoice;
+};
+export type DeckProfileOverrides = Partial<Omit<DeckProfile, "tts">> & { tts?: Partial<TtsVoice> };
+export type ResolvedDeckProfile = {
+  ok: boolean;
+  deckName?: string;
+  profile?: DeckProfile;
+  own?: DeckProfileOverrides;            // what this deck itself overrides
+  sources?: {                            // deck each setting comes from; "" = built-in default
+    sttLanguage: string;
+    feedbackLanguage: string;
+    promptTemplate: string;
+    unspeakablePolicy: string;
+    preferCardAudio: string;
+    tts: Record<keyof TtsVoice, string>;
+  };
+  error?: string;
+};
+
+export async function deckProfile(deckName: string): Promise<ResolvedDeckProfile> {
+  const r = await fetch(`/api/deck-profiles/resolve?deckName=${encodeURIComponent(deckName)}`);
+  return r.json();
+}
+
+export async function saveDeckProfile(deckName: string, own: DeckProfileOverrides): Promise<{ ok: boolean; own?: DeckProfileOverrides; error?: string }> {
+  const r = await fetch(`/api/deck-profiles/${encodeURIComponent(deckName)}`, {
+    method: "PUT",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(own),
+  });
+  return r.json();
+}
+
+// ---- Prompt templates (evaluation / tutor prompts, assigned per deck via the profile) ----
+export type Strictness = "lenient" | "standard" | "exam-strict" | "verbatim";
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  builtin?: boolean;
+  strictness: Strictness;
+  reviewSystem: string;
+  reviewUser: string;
+  tutorSystem: string;
+};
+export type PromptTemplateList = {
+  ok: boolean;
+  templates?: PromptTemplate[];
+  strictnessLevels?: Record<Strictness, string>;
+  placeholders?: string[];
+  error?: string;
+};
+export type PromptPreview = {
+  ok: boolean;
+  templateId?: string;
+  review?: { system: string; user: string };
+  tutorSystem?: string;
+  error?: string;
+};
+
+export async function promptTemplates(): Promise<PromptTemplateList> {
+  const r = await fetch("/api/prompt-templates");
+  return r.json();
+}
+
+export async function savePromptTemplate(
+  id: string,
+  template: Partial<Omit<PromptTemplate, "id" | "builtin">>
+): Promise<{ ok: boolean; template?: PromptTemplate; error?: string }> {
+  const r = await fetch(`/api/prompt-templates/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(template),
+  });
+  return r.json();
+}
+
+export async function deletePromptTemplate(id: string): Promise<{ ok: boolean; removed?: boolean; error?: string }> {
+  const r = await fetch(`/api/prompt-templates/${encodeURIComponent(id)}`, { method: "DELETE" });
+  return r.json();
+}
+
+export async function previewPrompt(body: {
+  template?: Partial<PromptTemplate>;
+  deckName?: string;
+  front?: string;
+  back?: string;
+  context?: string;
+  transcript?: string;
+}): Promise<PromptPreview> {
+  const r = await fetch("/api/prompt-templates/preview", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return r.json();
+}
+
+// ---- Field mappings (per note type) ----
+export type FieldRole = "prompt" | "answer" | "context" | "hidden";
+export type FieldMapping = Record<FieldRole, string[]> & {
+  fieldNames?: string[];
+  suggested?: boolean;   // auto-suggested from modelFieldNames, not saved by the user yet
+  updatedAt?: number;
+};
+
+export async function fieldMapping(modelName: string): Promise<{ ok: boolean; mapping?: FieldMapping; error?: string }> {
+  const r = await fetch(`/api/field-mappings/${encodeURIComponent(modelName)}`);
+  return r.json();
+}
+
+export async function saveFieldMapping(modelName: string, mapping: Record<FieldRole, string[]>): Promise<{ ok: boolean; mapping?: FieldMapping; error?: string }> {
+  const r = await fetch(`/api/field-mappings/${encodeURIComponent(modelName)}`, {
+    method: "PUT",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(mapping),
+  });
+  return r.json();
+}
+
+export async function resetFieldMapping(modelName: string): Promise<{ ok: boolean; removed?: boolean; error?: string }> {
+  const r = await fetch(`/api/field-mappings/${encodeURIComponent(modelName)}`, { method: "DELETE" });
+  return r.json();
+}
+
+// The STT language comes from the deck's profile unless `language` is given
+export async function stt(
+  audioBase64: string,
+  opts: { deckName?: string; language?: string } = {}
+): Promise<{ ok: boolean; text?: string; error?: string }> {
   const r = await fetch("/api/stt", {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({ audioBase64, language }),
+    body: JSON.stringify({ audioBase64, ...opts }),
   });
   return r.json();
 }
 
 export async function reviewChain(payload: {
-  audioBase64: string;
+  audioBase64?: string;
+  transcript?: string;   // already transcribed (voice loop) → server skips STT
   front: string;
   back?: string;
-  language?: string;
-}) {
+  context?: string;      // extra note fields for the reviewer, never read aloud
+  deckName?: string;     // STT + feedback language from the deck's profile
+  language?: string;     // overrides the profile's STT language
+}): Promise<ReviewChainResult> {
   const r = await fetch("/api/review-chain", {
     method: "POST",
     headers: { "content-type": "application/json" },
@@ -103,15 +414,164 @@ export async function reviewChain(payload: {
 }
 
 
-export async function convoStart(sessionId: string, system?: string, seedContext?: string) {
+// ---- Streaming (server-sent events over POST) ----
+export type StreamEnd =
+  | { status: "done"; transcript?: string; reply?: string; verdict?: Verdict; proposals?: NoteChange[] }
+  | { status: "error"; error: string };
+
+export type StreamHandlers = {
+  onTranscript?: (transcript: string) => void;
+  onToken?: (text: string) => void;
+};
+
+// EventSource can't POST, so parse the text/event-stream body ourselves
+async function postSSE(
+  path: string,
+  body: unknown,
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const r = await fetch(path, {
+    method: "POST",
+    headers: { "content-type": "application/json", accept: "text/event-stream" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!r.ok || !r.body) {
+    const j = await r.json().catch(() => null);
+    throw new Error(j?.error || `HTTP ${r.status}`);
+  }
+
+  const reader = r.body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let idx;
+    while ((idx = buf.indexOf("\n\n")) >= 0) {
+      const block = buf.slice(0, idx);
+      buf = buf.slice(idx + 2);
+      let event = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+async function streamUntilEnd(path: string, body: unknown, handlers: StreamHandlers, signal?: AbortSignal): Promise<StreamEnd> {
+  let end: StreamEnd = { status: "error", error: "stream ended early" };
+  await postSSE(path, body, (event, data) => {
+    if (event === "transcript") handlers.onTranscript?.(data.transcript || "");
+    else if (event === "token") handlers.onToken?.(data.text || "");
+    else if (event === "end") end = data;
+  }, signal);
+  return end;
+}
+
+export function reviewChainStream(
+  payload: Parameters<typeof reviewChain>[0],
+  handlers: StreamHandlers,
+  signal?: AbortSignal
+): Promise<StreamEnd> {
+  return streamUntilEnd("/api/review-chain/stream", payload, handlers, signal);
+}
+
+// Chunked TTS (/api/tts/stream): one promise per chunk with its encoded audio (null if that chunk
+// failed), in reading order. Resolves as soon as the server has split the text, so playback can
+// start with the first chunk while later ones are still being synthesized.
+export type AudioParts = Promise<ArrayBuffer | null>[];
+
+export function ttsChunks(text: string, deckName?: string, signal?: AbortSignal): Promise<AudioParts> {
+  return new Promise((resolvePlan, rejectPlan) => {
+    const resolvers: ((url: string | null) => void)[] = [];
+    let planned = false;
+
+    postSSE("/api/tts/stream", { text, deckName }, (event, data) => {
+      if (event === "plan") {
+        const parts: AudioParts = (data.chunks as string[]).map((_, i) =>
+          new Promise<string | null>((r) => { resolvers[i] = r; }).then((url) =>
+            url ? fetch(url, { signal }).then((r) => (r.ok ? r.arrayBuffer() : null)).catch(() => null) : null
+          )
+        );
+        planned = true;
+        resolvePlan(parts);
+      } else if (event === "chunk") {
+        resolvers[data.index]?.(data.error ? null : data.url);
+      } else if (event === "end" && !planned) {
+        rejectPlan(new Error(data.error || "TTS failed"));
+      }
+    }, signal)
+      .catch(rejectPlan)
+      // Chunks the stream never delivered (aborted, server error) resolve as missing
+      .finally(() => resolvers.forEach((r) => r(null)));
+  });
+}
+
+// ---- The card's own recordings ([sound:…] in its front / back fields) ----
+export type CardSoundField = { field: string; files: { filename: string; url: string }[] };
+export type CardSounds = { ok: boolean; cardId?: number; preferCardAudio?: boolean; front?: CardSoundField[]; back?: CardSoundField[]; error?: string };
+
+export async function cardSounds(cardId: number): Promise<CardSounds> {
+  const r = await fetch(`/api/cards/${cardId}/sounds`);
+  return r.json();
+}
+
+/** Recordings as audio parts for the player, fetched from the server's media route */
+export function mediaParts(urls: string[], signal?: AbortSignal): AudioParts {
+  return urls.map((url) => fetch(url, { signal }).then((r) => (r.ok ? r.arrayBuffer() : null)).catch(() => null));
+}
+
+export function convoSendStream(sessionId: string, user: string, handlers: StreamHandlers, signal?: AbortSignal) {
+  return streamUntilEnd("/api/conversation/send/stream", { sessionId, user }, handlers, signal);
+}
+
+// cardId: the tutor may then propose changes to the card's note
+export async function convoStart(sessionId: string, system?: string, seedContext?: string, deckName?: string, cardId?: number) {
   const r = await fetch("/api/conversation/start", {
     method: "POST",
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({ sessionId, system, seedContext }),
+    body: JSON.stringify({ sessionId, system, seedContext, deckName, cardId }),
   });
   return r.json();
 }
 
+// ---------- Note changes proposed by the tutor ----------
+export type NoteChange = {
+  id: string;
+  sessionId: string;
+  noteId: number;
+  cardId: number;
+  action: "updateField" | "addNote" | "addTag";
+  reason: string;
+  status: "proposed" | "applying" | "applied" | "dismissed";
+  field?: string;    // updateField
+  before?: string;
+  after?: string;
+  fields?: Record<string, string>; // addNote
+  modelName?: string;
+  deckName?: string;
+  tags?: string[];   // addTag
+  newNoteId?: number;
+};
+
+type NoteChangeResult = { ok: boolean; change?: NoteChange; error?: string };
+
+export async function applyNoteChange(id: string): Promise<NoteChangeResult> {
+  const r = await fetch(`/api/note-changes/${encodeURIComponent(id)}/apply`, { method: "POST" });
+  return r.json();
+}
+
+export async function dismissNoteChange(id: string): Promise<NoteChangeResult> {
+  const r = await fetch(`/api/note-changes/${encodeURIComponent(id)}/dismiss`, { method: "POST" });
+  return r.json();
+}
+
 export async function convoSend(sessionId: string, user: string) {
   const r = await fetch("/api/conversation/send", {
     method: "POST",
@@ -130,3 +590,8 @@ export async function convoReset(sessionId: string) {
   return r.json();
 }
 
+/** Download link for a conversation's transcript (Markdown, or JSON) */
+export function convoExportUrl(sessionId: string, format: "md" | "json" = "md") {
+  return `/api/conversation/${encodeURIComponent(sessionId)}/export?format=${format}`;
+}
+
@@ -0,0 +1,160 @@
+// client/src/audioQueue.ts
+// Gapless playback of chunked TTS. Each enqueued utterance is a list of audio parts (see
+// API.ttsChunks); every part is decoded as soon as its bytes arrive and scheduled right after the
+// previous one on a single AudioContext, so playback starts with the first part while later parts
+// are still being synthesized. Utterances play one after another; stop() drops everything queued.
+import type { AudioParts } from "./api";
+
+export type AudioQueue = {
+  enqueue(parts: Promise<AudioParts>): void;
+  stop(): void;
+  pause(): void;   // barge-in: hold playback where it is
+  resume(): void;
+  isPlaying(): boolean;
+  isPaused(): boolean;
+  /** Resolves once everything queued so far has been played (or stopped) */
+  whenIdle(): Promise<void>;
+  /** Call from a user gesture: browsers keep the AudioContext suspended until then */
+  unlock(): Promise<boolean>;
+};
+
+type Opts = {
+  onEnded?: () => void;   // the queue drained naturally (not on stop())
+  onBlocked?: () => void; // autoplay refused: playback needs a tap
+};
+
+const LEAD_S = 0.05; // scheduling headroom so the first part does not start clipped
+
+export function createAudioQueue({ onEnded, onBlocked }: Opts = {}): AudioQueue {
+  let ctx: AudioContext | null = null;
+  let generation = 0;
+  let chain: Promise<void> = Promise.resolve();
+  let pending = 0;
+  let paused = false;
+  let nextAt = 0;
+  const sources = new Set<AudioBufferSourceNode>();
+  let idleWaiters: (() => void)[] = [];
+
+  function context(): AudioContext {
+    if (!ctx) {
+      const AC: typeof AudioContext = (window as any).AudioContext || (window as any).webkitAudioContext;
+      ctx = new AC();
+    }
+    return ctx;
+  }
+
+  function settleIdle() {
+    if (pending || sources.size) return;
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach((w) => w());
+  }
+
+  function checkBlocked(ac: AudioContext) {
+    setTimeout(() => {
+      if (ac.state === "suspended" && !paused && (pending || sources.size)) onBlocked?.();
+    }, 300);
+  }
+
+  // Plays one part after the previously scheduled one; resolves when it has finished
+  function schedule(buffer: AudioBuffer): Promise<void> {
+    const ac = context();
+    const src = ac.createBufferSource();
+    src.buffer = buffer;
+    src.connect(ac.destination);
+    nextAt = Math.max(nextAt, ac.currentTime + LEAD_S);
+    src.start(nextAt);
+    nextAt += buffer.duration;
+    sources.add(src);
+    return new Promise((resolve) => {
+      src.onended = () => {
+        sources.delete(src);
+        resolve();
+      };
+    });
+  }
+
+  async function play(parts: Promise<AudioParts>, gen: number) {
+    const ac = context();
+    if (ac.state === "suspended" && !paused) {
+      ac.resume().catch(() => {});
+      checkBlocked(ac);
+    }
+    let list: AudioParts;
+    try {
+      list = await parts;
+    } catch (e) {
+      if (gen === generation) console.warn("[audio] synthesis failed:", e);
+      return;
+    }
+    // Decode every part as it arrives, schedule strictly in order
+    const decoded = list.map((p) =>
+      p.then((bytes) => (bytes ? ac.decodeAudioData(bytes) : null)).catch(() => null)
+    );
+    let last: Promise<void> = Promise.resolve();
+    for (const d of decoded) {
+      const buffer = await d;
+      if (gen !== generation) return;
+      if (buffer) last = schedule(buffer);
+    }
+    await last;
+  }
+
+  return {
+    enqueue(parts) {
+      const gen = generation;
+      pending++;
+      chain = chain
+        .then(() => (gen === generation ? play(parts, gen) : undefined))
+        .finally(() => {
+          if (gen !== generation) return; // stop() already reset the count
+          pending--;
+          if (!pending && !sources.size) onEnded?.();
+          settleIdle();
+        });
+    },
+
+    stop() {
+      generation++;
+      chain = Promise.resolve();
+      pending = 0;
+      for (const src of sources) {
+        try { src.stop(); } catch {} // its onended settles the dropped utterance
+      }
+      sources.clear();
+      nextAt = 0;
+      if (paused) {
+        paused = false;
+        ctx?.resume().catch(() => {});
+      }
+      settleIdle();
+    },
+
+    pause() {
+      if (!ctx || paused) return;
+      paused = true;
+      ctx.suspend().catch(() => {});
+    },
+
+    resume() {
+      if (!ctx || !paused) return;
+      paused = false;
+      ctx.resume().catch(() => {});
+    },
+
+    isPlaying: () => !paused && (pending > 0 || sources.size > 0),
+
+    isPaused: () => paused,
+
+    whenIdle() {
+      if (!pending && !sources.size) return Promise.resolve();
+      return new Promise((resolve) => idleWaiters.push(resolve));
+    },
+
+    async unlock() {
+      const ac = context();
+      if (ac.state === "suspended" && !paused) await ac.resume().catch(() => {});
+      return ac.state === "running";
+    },
+  };
+}
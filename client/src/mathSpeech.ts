@@ -0,0 +1,337 @@
+// client/src/mathSpeech.ts
+// Formulas → words for TTS (pure, no DOM). Handles MathJax \( … \) and \[ … \], Anki's [$] … [/$],
+// [$$] … [/$$] and [latex] … [/latex], mhchem \ce{…}, <sub>/<sup> and Unicode super-/subscripts,
+// units after numbers and the common operator symbols in the card HTML.
+// Wording follows the card's language: "Ca two plus" / "Kalzium zwei plus", "x squared" / "x Quadrat".
+
+export type MathLocale = "en" | "de";
+
+type Words = {
+  numbers: string[]; // 0–12
+  over: string;
+  squared: string;
+  cubed: string;
+  power: string;     // "x <power> n"
+  sqrt: string;
+  root: (n: string) => string;
+  degrees: string;
+  symbols: Record<string, string>; // LaTeX commands and characters
+  elements: Record<string, string>; // ion names; empty = say the symbol
+};
+
+const GREEK = [
+  "alpha", "beta", "gamma", "delta", "epsilon", "zeta", "eta", "theta", "iota", "kappa", "lambda",
+  "xi", "pi", "rho", "sigma", "tau", "phi", "chi", "psi", "omega",
+];
+const GREEK_CHARS: Record<string, string> = {
+  α: "alpha", β: "beta", γ: "gamma", δ: "delta", ε: "epsilon", ζ: "zeta", η: "eta", θ: "theta", ι: "iota",
+  κ: "kappa", λ: "lambda", ξ: "xi", π: "pi", ρ: "rho", σ: "sigma", τ: "tau", φ: "phi", χ: "chi", ψ: "psi",
+  ω: "omega", Γ: "Gamma", Δ: "Delta", Θ: "Theta", Λ: "Lambda", Π: "Pi", Σ: "Sigma", Φ: "Phi", Ψ: "Psi", Ω: "Omega",
+};
+
+const SHARED_SYMBOLS: Record<string, string> = {
+  ...Object.fromEntries(GREEK.flatMap((g) => [[`\\${g}`, g], [`\\${g[0].toUpperCase()}${g.slice(1)}`, g[0].toUpperCase() + g.slice(1)]])),
+  "\\varepsilon": "epsilon", "\\vartheta": "theta", "\\varphi": "phi",
+  "\\sin": "sin", "\\cos": "cos", "\\tan": "tan", "\\exp": "exp",
+};
+
+const WORDS: Record<MathLocale, Words> = {
+  en: {
+    numbers: ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven", "twelve"],
+    over: "over",
+    squared: "squared",
+    cubed: "cubed",
+    power: "to the power of",
+    sqrt: "the square root of",
+    root: (n) => `the ${n}th root of`,
+    degrees: "degrees",
+    symbols: {
+      ...SHARED_SYMBOLS,
+      "\\mu": "mu", "\\nu": "nu", "\\Delta": "Delta",
+      "+": "plus", "-": "minus", "−": "minus", "=": "equals", "<": "less than", ">": "greater than", "/": "over", "*": "times",
+      "!": "factorial", "'": "prime",
+      "\\cdot": "times", "\\times": "times", "\\div": "divided by", "\\pm": "plus or minus", "\\mp": "minus or plus",
+      "\\leq": "less than or equal to", "\\le": "less than or equal to", "\\geq": "greater than or equal to", "\\ge": "greater than or equal to",
+      "\\neq": "is not equal to", "\\ne": "is not equal to", "\\approx": "approximately", "\\sim": "approximately", "\\propto": "proportional to",
+      "\\to": "to", "\\rightarrow": "yields", "\\longrightarrow": "yields", "\\Rightarrow": "implies",
+      "\\rightleftharpoons": "is in equilibrium with", "\\leftrightarrow": "is in equilibrium with",
+      "\\infty": "infinity", "\\sum": "the sum of", "\\prod": "the product of", "\\int": "the integral of", "\\partial": "partial",
+      "\\lim": "the limit", "\\ln": "the natural log of", "\\log": "the log of", "\\%": "percent", "\\circ": "degrees",
+      "\\cdots": "and so on", "\\ldots": "and so on", "\\dots": "and so on",
+    },
+    elements: {},
+  },
+  de: {
+    numbers: ["null", "eins", "zwei", "drei", "vier", "fünf", "sechs", "sieben", "acht", "neun", "zehn", "elf", "zwölf"],
+    over: "durch",
+    squared: "Quadrat",
+    cubed: "hoch drei",
+    power: "hoch",
+    sqrt: "Wurzel aus",
+    root: (n) => `${n}-te Wurzel aus`,
+    degrees: "Grad",
+    symbols: {
+      ...SHARED_SYMBOLS,
+      "\\mu": "my", "\\nu": "ny", "\\Delta": "Delta",
+      "+": "plus", "-": "minus", "−": "minus", "=": "gleich", "<": "kleiner als", ">": "größer als", "/": "durch", "*": "mal",
+      "!": "Fakultät", "'": "Strich",
+      "\\cdot": "mal", "\\times": "mal", "\\div": "geteilt durch", "\\pm": "plus minus", "\\mp": "minus plus",
+      "\\leq": "kleiner gleich", "\\le": "kleiner gleich", "\\geq": "größer gleich", "\\ge": "größer gleich",
+      "\\neq": "ungleich", "\\ne": "ungleich", "\\approx": "ungefähr", "\\sim": "ungefähr", "\\propto": "proportional zu",
+      "\\to": "gegen", "\\rightarrow": "ergibt", "\\longrightarrow": "ergibt", "\\Rightarrow": "daraus folgt",
+      "\\rightleftharpoons": "steht im Gleichgewicht mit", "\\leftrightarrow": "steht im Gleichgewicht mit",
+      "\\infty": "unendlich", "\\sum": "Summe von", "\\prod": "Produkt von", "\\int": "Integral von", "\\partial": "partiell",
+      "\\lim": "Grenzwert", "\\ln": "natürlicher Logarithmus von", "\\log": "Logarithmus von", "\\%": "Prozent", "\\circ": "Grad",
+      "\\cdots": "und so weiter", "\\ldots": "und so weiter", "\\dots": "und so weiter",
+    },
+    // Cations; anions keep the symbol ("Cl minus")
+    elements: {
+      Li: "Lithium", Na: "Natrium", K: "Kalium", Mg: "Magnesium", Ca: "Kalzium", Ba: "Barium", Al: "Aluminium",
+      Fe: "Eisen", Cu: "Kupfer", Zn: "Zink", Mn: "Mangan", Co: "Kobalt", Ni: "Nickel", Ag: "Silber", Hg: "Quecksilber", Pb: "Blei",
+    },
+  },
+};
+
+// Units after a number: [singular, plural] per language
+const UNITS: Record<string, Record<MathLocale, [string, string]>> = {
+  mg: { en: ["milligram", "milligrams"], de: ["Milligramm", "Milligramm"] },
+  "µg": { en: ["microgram", "micrograms"], de: ["Mikrogramm", "Mikrogramm"] },
+  ng: { en: ["nanogram", "nanograms"], de: ["Nanogramm", "Nanogramm"] },
+  g: { en: ["gram", "grams"], de: ["Gramm", "Gramm"] },
+  kg: { en: ["kilogram", "kilograms"], de: ["Kilogramm", "Kilogramm"] },
+  ml: { en: ["millilitre", "millilitres"], de: ["Milliliter", "Milliliter"] },
+  dl: { en: ["decilitre", "decilitres"], de: ["Deziliter", "Deziliter"] },
+  l: { en: ["litre", "litres"], de: ["Liter", "Liter"] },
+  mmol: { en: ["millimole", "millimoles"], de: ["Millimol", "Millimol"] },
+  "µmol": { en: ["micromole", "micromoles"], de: ["Mikromol", "Mikromol"] },
+  mol: { en: ["mole", "moles"], de: ["Mol", "Mol"] },
+  meq: { en: ["milliequivalent", "milliequivalents"], de: ["Milliäquivalent", "Milliäquivalent"] },
+  ie: { en: ["international unit", "international units"], de: ["internationale Einheit", "internationale Einheiten"] },
+  iu: { en: ["international unit", "international units"], de: ["internationale Einheit", "internationale Einheiten"] },
+  mmhg: { en: ["millimetre of mercury", "millimetres of mercury"], de: ["Millimeter Quecksilbersäule", "Millimeter Quecksilbersäule"] },
+  kpa: { en: ["kilopascal", "kilopascals"], de: ["Kilopascal", "Kilopascal"] },
+  hz: { en: ["hertz", "hertz"], de: ["Hertz", "Hertz"] },
+  ms: { en: ["millisecond", "milliseconds"], de: ["Millisekunde", "Millisekunden"] },
+  s: { en: ["second", "seconds"], de: ["Sekunde", "Sekunden"] },
+  min: { en: ["minute", "minutes"], de: ["Minute", "Minuten"] },
+  h: { en: ["hour", "hours"], de: ["Stunde", "Stunden"] },
+  d: { en: ["day", "days"], de: ["Tag", "Tage"] },
+  "°c": { en: ["degree Celsius", "degrees Celsius"], de: ["Grad Celsius", "Grad Celsius"] },
+  "%": { en: ["percent", "percent"], de: ["Prozent", "Prozent"] },
+};
+const PER: Record<MathLocale, string> = { en: "per", de: "pro" };
+
+const UNIT_PATTERN = "mg|[µμ]g|mcg|ng|kg|g|ml|dl|l|mmol|[µμ]mol|mol|meq|ie|iu|mmhg|kpa|hz|ms|s|min|h|d|°c|%";
+const UNIT_RE = new RegExp(`(\\d)\\s?(${UNIT_PATTERN})(?:\\s?/\\s?(${UNIT_PATTERN}))?(?![\\p{L}\\p{N}])`, "giu");
+// Also ordinary letters ("3 d" in a list, "2 h" in prose): units only in a formula, in a compound
+// (mg/d, g/l) or right after an operator (t = 5 s)
+const LETTER_UNITS = ["s", "h", "d", "l", "g"];
+
+const SUPERSCRIPTS: Record<string, string> = { "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4", "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9", "⁺": "+", "⁻": "-" };
+const SUBSCRIPTS: Record<string, string> = { "₀": "0", "₁": "1", "₂": "2", "₃": "3", "₄": "4", "₅": "5", "₆": "6", "₇": "7", "₈": "8", "₉": "9", "₊": "+", "₋": "-" };
+
+const number = (n: string, w: Words) => (/^\d+$/.test(n) && Number(n) < w.numbers.length ? w.numbers[Number(n)] : n);
+
+// "2+", "+", "3-", "++" → "two plus" …; null when it is not a charge ("-3" is an exponent)
+function chargeWords(raw: string, w: Words): string | null {
+  const s = raw.replace(/\s+/g, "").replace(/−/g, "-");
+  const m = s.match(/^(\d*)([+-])$/);
+  if (m) return [m[1] ? number(m[1], w) : "", w.symbols[m[2]]].filter(Boolean).join(" ");
+  if (/^(\+{2,}|-{2,})$/.test(s)) return `${number(String(s.length), w)} ${w.symbols[s[0]]}`;
+  return null;
+}
+
+function powerWords(exponent: string, words: string, w: Words): string {
+  if (exponent === "2") return w.squared;
+  if (exponent === "3") return w.cubed;
+  return `${w.power} ${words}`;
+}
+
+/* -------------------- LaTeX -------------------- */
+
+const TEXT_COMMANDS = ["\\text", "\\mathrm", "\\textrm", "\\mathbf", "\\mathit", "\\textit", "\\textbf", "\\operatorname", "\\mbox"];
+const SKIPPED = ["\\left", "\\right", "\\big", "\\Big", "\\bigg", "\\Bigg", "\\displaystyle", "\\limits"];
+
+function latexToWords(tex: string, w: Words): string {
+  const toks = tex.match(/\\[a-zA-Z]+|\\.|[{}^_[\]]|\d+(?:[.,]\d+)?|[a-zA-Z]+|\s+|./g) || [];
+  let i = 0;
+
+  // Source text of the tokens from `start` to the current position, without braces
+  const raw = (start: number) => toks.slice(start, i).join("").replace(/[{}]/g, "").trim();
+
+  function group(): string {
+    if (toks[i] === "{") {
+      i++;
+      const out = sequence("}");
+      i++; // "}"
+      return out;
+    }
+    while (i < toks.length && /^\s+$/.test(toks[i])) i++;
+    return i < toks.length ? item() : "";
+  }
+
+  function rawGroup(): string {
+    const start = i;
+    if (toks[i] === "{") {
+      let depth = 0;
+      do {
+        if (toks[i] === "{") depth++;
+        else if (toks[i] === "}") depth--;
+        i++;
+      } while (i < toks.length && depth > 0);
+    } else i++;
+    return raw(start);
+  }
+
+  function item(): string {
+    const t = toks[i++];
+    if (/^\s+$/.test(t)) return "";
+    if (t === "{") {
+      const out = sequence("}");
+      i++;
+      return out;
+    }
+    if (t === "^") {
+      const start = i;
+      const words = group();
+      const exp = raw(start);
+      if (exp === "\\circ") return w.degrees;
+      return chargeWords(exp, w) ?? powerWords(exp, words, w);
+    }
+    if (t === "_") {
+      const start = i;
+      const words = group();
+      const sub = raw(start);
+      return /^\d+$/.test(sub) ? number(sub, w) : words;
+    }
+    if (t === "\\frac" || t === "\\dfrac" || t === "\\tfrac") {
+      const a = group();
+      const b = group();
+      return `${a} ${w.over} ${b}`;
+    }
+    if (t === "\\sqrt") {
+      let n = "";
+      if (toks[i] === "[") {
+        const start = ++i;
+        while (i < toks.length && toks[i] !== "]") i++;
+        n = raw(start);
+        i++;
+      }
+      const x = group();
+      return `${n ? w.root(n) : w.sqrt} ${x}`;
+    }
+    if (t === "\\ce") return chemToWords(rawGroup(), w);
+    if (TEXT_COMMANDS.includes(t)) return rawGroup();
+    if (SKIPPED.includes(t)) {
+      if (toks[i] === ".") i++;
+      return "";
+    }
+    if (/^\\[,;:! ]$|^\\quad$|^\\qquad$/.test(t)) return "";
+    if (t === "\\\\") return ",";
+    if (t in w.symbols) return w.symbols[t];
+    if (t.startsWith("\\")) return t.slice(1).replace(/^[{}]$/, "");
+    if (t === "(" || t === ")" || t === "|" || t === "}" || t === "[" || t === "]") return "";
+    if (/^\d/.test(t)) return w === WORDS.de ? t.replace(".", ",") : t;
+    return t;
+  }
+
+  function sequence(stop?: string): string {
+    const parts: string[] = [];
+    while (i < toks.length && toks[i] !== stop) parts.push(item());
+    return parts.filter(Boolean).join(" ");
+  }
+
+  return sequence().replace(/\s{2,}/g, " ").trim();
+}
+
+// mhchem-style formulas: H2O, Ca^2+, SO4^2-, A + B -> C
+function chemToWords(formula: string, w: Words): string {
+  return formula
+    .replace(/<=>|<->/g, ` ${w.symbols["\\rightleftharpoons"]} `)
+    .replace(/->/g, ` ${w.symbols["\\rightarrow"]} `)
+    .replace(/\^\{?([0-9]*[+-])\}?|\^\{?([+-][0-9]*)\}?/g, (_m, a, b) => ` ${chargeWords(a || b, w) || a || b}`)
+    .replace(/([A-Za-z)\]])(\d*[+-])(?=\s|$)/g, (_m, el, charge) => `${el} ${chargeWords(charge, w)}`) // Ca2+, Cl-
+    .replace(/(^|\s)(\d+)(?=[A-Z(])/g, "$1$2 ") // coefficients: 2Cl → 2 Cl
+    .replace(/([A-Za-z)\]])(\d+)/g, (_m, el, n) => `${el} ${number(n, w)} `)
+    .replace(/(^|\s)\+(\s|$)/g, ` ${w.symbols["+"]} `)
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/* -------------------- HTML and plain text -------------------- */
+
+const decodeBasic = (s: string) =>
+  s.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&nbsp;/g, " ").replace(/&amp;/g, "&");
+
+function unicodeScripts(s: string): string {
+  return s
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻]+/g, (m) => `<sup>${[...m].map((c) => SUPERSCRIPTS[c]).join("")}</sup>`)
+    .replace(/[₀₁₂₃₄₅₆₇₈₉₊₋]+/g, (m) => `<sub>${[...m].map((c) => SUBSCRIPTS[c]).join("")}</sub>`);
+}
+
+function scriptsToWords(s: string, w: Words): string {
+  // Ions and powers: Ca<sup>2+</sup>, SO<sub>4</sub><sup>2-</sup>, x<sup>2</sup>, 10<sup>-3</sup>
+  s = s.replace(/(\b[A-Z][a-z]?)?(<sub>\s*(\d+)\s*<\/sub>)?<sup>\s*([^<]*?)\s*<\/sup>/g, (m, symbol = "", sub, digits, sup) => {
+    const subWords = sub ? ` ${number(digits, w)}` : "";
+    const charge = chargeWords(sup, w);
+    if (charge) {
+      const name = symbol && !sub ? w.elements[symbol] || symbol : symbol;
+      return `${name}${subWords} ${charge}`;
+    }
+    if (/^(st|nd|rd|th|e|er|te|ten)$/i.test(sup)) return `${symbol}${subWords}${sup}`; // 1<sup>st</sup>
+    const exp = sup.replace(/−/g, "-");
+    if (!/^-?[\d.,]+$|^[a-z]$/i.test(exp)) return m;
+    const words = exp.startsWith("-") ? `${w.symbols["-"]} ${exp.slice(1)}` : exp;
+    return `${symbol}${subWords} ${powerWords(exp, words, w)}`;
+  });
+  // Indices: H<sub>2</sub>O → "H two O"; V<sub>max</sub> → "V max"
+  return s.replace(/<sub>\s*([^<]*?)\s*<\/sub>(?=(.?))/g, (_m, sub, next) => ` ${number(sub, w)}${/[\p{L}\p{N}]/u.test(next) ? " " : ""}`);
+}
+
+function unitsToWords(s: string, locale: MathLocale, inFormula = false): string {
+  return s.replace(UNIT_RE, (m, digit: string, unit: string, per: string | undefined, offset: number) => {
+    const name = (u: string) => UNITS[u.toLowerCase().replace("μ", "µ").replace(/^mcg$/, "µg")];
+    const u = name(unit);
+    const p = per ? name(per) : null;
+    if (!u || (per && !p)) return m;
+    const before = s.slice(0, offset + 1);
+    const value = before.match(/[\d.,]+$/)?.[0] || digit;
+    const afterOperator = /[=≈±×·<>≤≥]\s*[\d.,]+$/.test(before);
+    if (LETTER_UNITS.includes(unit.toLowerCase()) && !inFormula && !per && !afterOperator) return m;
+    const one = /^1([.,]0+)?$/.test(value);
+    return `${digit} ${u[locale][one ? 0 : 1]}${p ? ` ${PER[locale]} ${p[locale][0]}` : ""}`;
+  });
+}
+
+function operatorsToWords(s: string, w: Words): string {
+  return s
+    .replace(/\s*±\s*/g, ` ${w.symbols["\\pm"]} `)
+    .replace(/(\d)\s*[×·]\s*(?=\d)/g, `$1 ${w.symbols["\\times"]} `)
+    .replace(/\s*≤\s*/g, ` ${w.symbols["\\leq"]} `)
+    .replace(/\s*≥\s*/g, ` ${w.symbols["\\geq"]} `)
+    .replace(/\s*≠\s*/g, ` ${w.symbols["\\neq"]} `)
+    .replace(/\s*≈\s*/g, ` ${w.symbols["\\approx"]} `)
+    .replace(/∞/g, w.symbols["\\infty"])
+    .replace(/−(?=\d)/g, `${w.symbols["-"]} `)
+    .replace(/([αβγδεζηθικλξπρστφχψωΓΔΘΛΠΣΦΨΩμµ])(?=(.?))/g, (_m, c, next) =>
+      (GREEK_CHARS[c] || w.symbols["\\mu"]) + (/\p{L}/u.test(next) ? " " : "")); // ΔG → "Delta G", α-Rezeptor
+}
+
+/**
+ * Formulas in card HTML → words. Runs before the tags are stripped (it needs <sub>/<sup>);
+ * everything else in the HTML is left as it is.
+ */
+export function speakMath(html: string, locale: MathLocale): string {
+  const w = WORDS[locale];
+  const tex = (_m: string, inner: string) =>
+    ` ${unitsToWords(latexToWords(decodeBasic(inner.replace(/<[^>]+>/g, " ")), w), locale, true)} `;
+  let s = String(html)
+    .replace(/\\\(([\s\S]*?)\\\)/g, tex)
+    .replace(/\\\[([\s\S]*?)\\\]/g, tex)
+    .replace(/\[\$\$\]([\s\S]*?)\[\/\$\$\]/g, tex)
+    .replace(/\[\$\]([\s\S]*?)\[\/\$\]/g, tex)
+    .replace(/\[latex\]([\s\S]*?)\[\/latex\]/gi, tex);
+  s = scriptsToWords(unicodeScripts(s), w);
+  s = unitsToWords(s, locale);
+  return operatorsToWords(s, w);
+}
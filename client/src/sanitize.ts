@@ -2,19 +2,26 @@
 
 /**
  * Hardcoded sanitizer (strict):
- * - Remove CSS/JS, comments, boilerplate/meta blocks, invisible spans, images (keep alt if present)
+ * - Remove CSS/JS, comments, boilerplate/meta blocks, invisible spans, images (keep alt if present),
+ *   [sound:…] references and audio/video players
+ * - Tables are read row by row, cells named after their column header when there is one
  * - Convert <br> and block endings to newlines; <li> to bullets
- * - Preserve cloze hints:
- *    - {{c1::text::HINT}}  -> "HINT"
- *    - {{c1::(Es-)Citalopram}} -> "(Es-)"
- *    - {{c1::prefix-Root}}  -> "prefix-" (if it clearly looks like a hint/prefix)
- *    - otherwise -> "…"
+ * - Clozes, given the card's ord (c{ord + 1} is the active deletion):
+ *    - active {{c1::text::HINT}}  -> "HINT"
+ *    - active {{c1::(Es-)Citalopram}} -> "(Es-)"
+ *    - active {{c1::prefix-Root}}  -> "prefix-" (if it clearly looks like a hint/prefix)
+ *    - active otherwise -> "blank"
+ *    - inactive -> full text
+ * - Formulas (MathJax, [$]…[/$] LaTeX, <sub>/<sup>, chemistry, units) → words, see mathSpeech.ts
  * - Strip all remaining tags
  * - Decode HTML entities
  * - Remove zero-width & control characters; collapse whitespace
  * - Keep original language/terms; no paraphrasing
  */
 
+import type { FieldMapping } from "./api";
+import { speakMath } from "./mathSpeech";
+
 type Fields = Record<string, any> | undefined;
 
 /* -------------------- helpers: html entity decode (browser) -------------------- */
@@ -50,6 +57,14 @@ function stripBoilerplate(html = ""): string {
   // Remove invisible spans commonly used for card IDs
   s = s.replace(/<span[^>]*style=['"][^'"]*display\s*:\s*none[^'"]*['"][^>]*>[\s\S]*?<\/span>/gi, "");
 
+  // Sound references are played as recordings (prefer card audio), never read out; see assessSpeakability
+  s = s.replace(/\[sound:[^\]]*\]/gi, "");
+  s = s.replace(/<(audio|video)\b[\s\S]*?<\/\1>/gi, "");
+  s = s.replace(/<(?:audio|video|source|iframe|embed)\b[^>]*>/gi, "");
+
+  // Tables: one line per row instead of all cells run together
+  s = s.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_m, inner) => speakTable(inner));
+
   // <img alt="..."> -> alt text; otherwise drop
   s = s.replace(/<img[^>]*alt="([^"]+)"[^>]*>/gi, "$1");
   s = s.replace(/<img[^>]*>/gi, "");
@@ -66,40 +81,141 @@ function stripBoilerplate(html = ""): string {
   return s;
 }
 
+// Each row becomes "Header: cell, Header: cell." (or "cell, cell." without a header row) on its own line
+function speakTable(inner: string): string {
+  const rows = inner.match(/<tr\b[\s\S]*?<\/tr>/gi) || [];
+  const headEnd = inner.search(/<\/thead>/i);
+  const plain = (html: string) => stripTags(html).replace(/\s+/g, " ").trim();
+  let header: string[] | null = null;
+  const lines: string[] = [];
+  rows.forEach((row, r) => {
+    const cells = [...row.matchAll(/<(t[hd])\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((m) => ({
+      head: m[1].toLowerCase() === "th",
+      html: m[2].replace(/<br\s*\/?>|<\/(?:p|div|li)>/gi, " ").replace(/<li[^>]*>/gi, " ").trim(),
+    }));
+    if (!cells.length) return;
+    const isHeader = r === 0 && rows.length > 1 && (cells.every((c) => c.head) || (headEnd >= 0 && inner.indexOf(row) < headEnd));
+    if (isHeader) { header = cells.map((c) => plain(c.html)); return; }
+    const h: string[] = header || [];
+    const spoken = cells
+      .filter((c) => plain(c.html))
+      .map((c) => { const label = h[cells.indexOf(c)]; return label ? `${label}: ${c.html}` : c.html; })
+      .join(", ");
+    if (spoken) lines.push(/[.!?…:;]$/.test(plain(spoken)) ? spoken : `${spoken}.`);
+  });
+  return `\n${lines.join("\n")}\n`;
+}
+
 /* -------------------- 2) Cloze softening (preserve hints/partials) -------------------- */
 /**
- * Cloze rules:
- * - {{cX::TEXT::HINT}} -> "HINT"
- * - If TEXT contains parentheses/brackets at the beginning, keep that part:
- *      "(Es-)Citalopram" -> "(Es-)"
- * - If TEXT looks like "prefix-" (letters + dash) at the start, keep "prefix-"
- * - Else -> "…"
+ * Cloze rules (the active deletion is c{ord + 1}; without an ord every deletion counts as active):
+ * - Front, active cloze:
+ *    - {{cX::TEXT::HINT}} -> "HINT"
+ *    - If TEXT contains parentheses/brackets at the beginning, keep that part:
+ *         "(Es-)Citalopram" -> "(Es-)"
+ *    - If TEXT looks like "prefix-" (letters + dash) at the start, keep "prefix-"
+ *    - Else -> the blank word ("blank")
+ * - Front, inactive cloze: read TEXT in full (nested active clozes inside it are still hidden)
+ * - Back: every cloze reads as TEXT
+ * - {{c1,2::TEXT}} belongs to several cards; nested clozes are parsed properly
  */
-function softenCloze(html = ""): string {
-  return String(html).replace(/\{\{c\d+::(.*?)(?:::([^}]*))?\}\}/gi, (_m, textRaw: string, hint?: string) => {
-    const text = (textRaw || "").trim();
-    const hintClean = (hint || "").trim();
-
-    // 1) explicit author hint wins
-    if (hintClean) return hintClean;
-
-    // 2) preserve leading bracketed groups e.g. (Es-) or [Es-] or {Es-}
-    const mParen = text.match(/^\s*(\([^)]*\)|\[[^\]]*\]|\{[^}]*\})/);
-    if (mParen && mParen[1]) {
-      const keep = mParen[1].trim();
-      // If it's empty, fallback to ellipsis
-      return keep.length ? keep : "…";
+type ClozeNode = { ords: number[]; body: ClozePart[]; hint: string };
+type ClozePart = string | ClozeNode;
+
+const CLOZE_OPEN = /^\{\{c(\d+(?:,\d+)*)::/i;
+
+// Parses from s[pos] until a closing "}}" (inside a cloze) or the end; unterminated clozes stay literal
+function parseClozes(s: string, pos: number, inCloze: boolean): { parts: ClozePart[]; hint: string; end: number; closed: boolean } {
+  const parts: ClozePart[] = [];
+  let text = "";
+  let hint: string | null = null;
+  let i = pos;
+
+  const flush = () => { if (text) { parts.push(text); text = ""; } };
+
+  while (i < s.length) {
+    const open = s.startsWith("{{", i) ? s.slice(i, i + 16).match(CLOZE_OPEN) : null;
+    if (open) {
+      const inner = parseClozes(s, i + open[0].length, true);
+      if (inner.closed) {
+        const node: ClozeNode = { ords: open[1].split(",").map(Number), body: inner.parts, hint: inner.hint };
+        if (hint !== null) hint += clozePlain(node); // a cloze inside a hint: just keep its text
+        else { flush(); parts.push(node); }
+        i = inner.end;
+        continue;
+      }
     }
-
-    // 3) preserve clear prefix hint like "pre-" or "anti-" (letters + dash at start)
-    const mPrefix = text.match(/^\s*([A-Za-zÄÖÜäöüß\-]+-)\S+/);
-    if (mPrefix && mPrefix[1]) {
-      return mPrefix[1];
+    if (inCloze && s.startsWith("}}", i)) {
+      flush();
+      return { parts, hint: (hint || "").trim(), end: i + 2, closed: true };
+    }
+    if (inCloze && hint === null && s.startsWith("::", i)) {
+      hint = "";
+      i += 2;
+      continue;
     }
+    if (hint !== null) hint += s[i];
+    else text += s[i];
+    i++;
+  }
+  if (inCloze) return { parts: [], hint: "", end: pos, closed: false };
+  flush();
+  return { parts, hint: "", end: i, closed: false };
+}
 
-    // 4) default elide
-    return "…";
-  });
+function clozePlain(node: ClozeNode): string {
+  return node.body.map((p) => (typeof p === "string" ? p : clozePlain(p))).join("");
+}
+
+const isActiveCloze = (node: ClozeNode, active: number | null) => active === null || node.ords.includes(active);
+
+function hideCloze(node: ClozeNode, blankWord: string): string {
+  // 1) explicit author hint wins
+  if (node.hint) return node.hint;
+
+  const text = clozePlain(node).replace(/<[^>]+>/g, "").trim();
+
+  // 2) preserve leading bracketed groups e.g. (Es-) or [Es-] or {Es-}
+  const mParen = text.match(/^\s*(\([^)]*\)|\[[^\]]*\]|\{[^}]*\})/);
+  if (mParen && mParen[1]) {
+    const keep = mParen[1].trim();
+    // If it's empty, fallback to the blank word
+    return keep.length ? keep : blankWord;
+  }
+
+  // 3) preserve clear prefix hint like "pre-" or "anti-" (letters + dash at start)
+  const mPrefix = text.match(/^\s*([A-Za-zÄÖÜäöüß\-]+-)\S+/);
+  if (mPrefix && mPrefix[1]) {
+    return mPrefix[1];
+  }
+
+  // 4) default: say the gap out loud
+  return blankWord;
+}
+
+function renderClozeParts(parts: ClozePart[], active: number | null, side: "front" | "back", blankWord: string): string {
+  return parts.map((p) => {
+    if (typeof p === "string") return p;
+    if (side === "front" && isActiveCloze(p, active)) return hideCloze(p, blankWord);
+    return renderClozeParts(p.body, active, side, blankWord);
+  }).join("");
+}
+
+function softenCloze(html = "", ord?: number, side: "front" | "back" = "front", blankWord = "blank"): string {
+  const s = String(html);
+  if (!/\{\{c\d/i.test(s)) return s;
+  const active = typeof ord === "number" && ord >= 0 ? ord + 1 : null;
+  return renderClozeParts(parseClozes(s, 0, false).parts, active, side, blankWord);
+}
+
+function collectActiveClozes(parts: ClozePart[], active: number, out: ClozeNode[]) {
+  for (const p of parts) {
+    if (typeof p === "string") continue;
+    // Deletions nested in an active cloze are part of its answer; inactive ones may contain active ones
+    if (p.ords.includes(active)) out.push(p);
+    else collectActiveClozes(p.body, active, out);
+  }
+  return out;
 }
 
 /* -------------------- 3) Strip remaining tags, but keep link text -------------------- */
@@ -154,50 +270,71 @@ function tidyWhitespace(s = ""): string {
 
 /* -------------------- public API -------------------- */
 
+const fieldValue = (v: any): string =>
+  typeof v === "string" ? v : v && typeof v.value === "string" ? v.value : "";
+
 /**
- * Try to pick the best HTML field for front/back.
+ * HTML of the fields that make up the front (prompt), back (answer) or LLM-only context of a note.
+ * - With a mapping (per note type, see /api/field-mappings) its fields are joined in order
+ * - Without one we guess from common field names and then fall back to the first non-empty field
  * - Fields sometimes appear as { key: "string" } or { key: { value: "string" } }
- * - We try common candidates and then fall back to the first non-empty string
  */
-export function extractFieldHTML(fields: Fields, _modelName: string, which: "front" | "back"): string {
+export function extractFieldHTML(fields: Fields, mapping: FieldMapping | undefined, which: "front" | "back" | "context"): string {
   if (!fields) return "";
 
+  if (mapping) {
+    const role = which === "front" ? "prompt" : which === "back" ? "answer" : "context";
+    return (mapping[role] || [])
+      .map((k) => fieldValue((fields as any)[k]))
+      .filter((v) => v.trim())
+      .join("<br>");
+  }
+  if (which === "context") return "";
+
   const candidatesFront = ["Front", "front", "Question", "Text", "Prompt", "Cloze", "Cloze-Deletion"];
   const candidatesBack  = ["Back", "back", "Answer", "Extra", "Add. Info", "Addition", "Notes"];
 
   const keys = which === "front" ? candidatesFront : candidatesBack;
 
   for (const k of keys) {
-    const v = (fields as any)[k];
-    if (v && typeof v === "object" && typeof v.value === "string" && v.value.trim()) {
-      return String(v.value);
-    }
-    if (typeof v === "string" && v.trim()) {
-      return String(v);
-    }
+    const v = fieldValue((fields as any)[k]);
+    if (v.trim()) return v;
   }
 
   // Fallback: first string-like field with content
-  for (const [_k, v] of Object.entries(fields)) {
-    if (typeof v === "string" && v.trim()) return v as string;
-    if (v && typeof (v as any).value === "string" && (v as any).value.trim()) return (v as any).value;
+  for (const v of Object.values(fields)) {
+    if (fieldValue(v).trim()) return fieldValue(v);
   }
 
   return "";
 }
 
+export type SpeakableOptions = {
+  /** cardsInfo "ord" of the card (0-based); on cloze notes c{ord + 1} is the deletion being asked */
+  ord?: number;
+  /** "front" hides the active cloze; "back" reads every cloze in full */
+  side?: "front" | "back";
+  /** Spoken in place of an active cloze that has no hint or prefix */
+  blankWord?: string;
+  /** Wording of formulas: a language name ("German", "english"…); "auto"/absent guesses from the text */
+  language?: string;
+};
+
 /**
  * Main export: sanitize HTML to speakable plain text
  */
-export function toPlainSpeakable(html: string): string {
+export function toPlainSpeakable(html: string, opts: SpeakableOptions = {}): string {
   if (!html) return "";
   let s = html;
 
   // 1) Remove boilerplate clutter
   s = stripBoilerplate(s);
 
-  // 2) Handle clozes (keep explicit hints, partials, prefixes)
-  s = softenCloze(s);
+  // 2) Handle clozes (active one → hint/prefix/blank, inactive ones read in full)
+  s = softenCloze(s, opts.ord, opts.side, opts.blankWord);
+
+  // 2b) Formulas → words, while <sub>/<sup> are still there
+  s = speakMath(s, speechLocale(opts.language, s.replace(/<[^>]+>/g, " ")));
 
   // 3) Remove leftover tags (keep link text)
   s = stripTags(s);
@@ -210,3 +347,250 @@ export function toPlainSpeakable(html: string): string {
 
   return s;
 }
+
+/* -------------------- Markdown (LLM feedback) → speakable -------------------- */
+
+export type MarkdownSpeakOptions = {
+  /** Feedback language ("German", "English", "auto"…); "auto"/absent guesses from the text */
+  language?: string;
+  /** Stop after about this many characters, at a sentence end (0 = no limit) */
+  maxChars?: number;
+};
+
+const ORDINALS = {
+  en: ["First", "Second", "Third", "Fourth", "Fifth", "Sixth", "Seventh", "Eighth", "Ninth", "Tenth"],
+  de: ["Erstens", "Zweitens", "Drittens", "Viertens", "Fünftens", "Sechstens", "Siebtens", "Achtens", "Neuntens", "Zehntens"],
+};
+const PHRASES = {
+  en: { next: "Next", code: "There is a code example on screen.", more: "The rest is on screen." },
+  de: { next: "Außerdem", code: "Ein Codebeispiel steht auf dem Bildschirm.", more: "Der Rest steht auf dem Bildschirm." },
+};
+
+type SpeechLocale = keyof typeof ORDINALS;
+
+function speechLocale(language: string | undefined, sample: string): SpeechLocale {
+  const l = String(language || "").toLowerCase();
+  if (l.startsWith("german") || l === "de" || l === "deutsch") return "de";
+  if (l && l !== "auto") return "en";
+  const german = (sample.match(/\b(und|der|die|das|nicht|ist|ein|eine|du|richtig|auch|bei|mit|von|für|wird|welche[rs]?)\b|[äöüß]/gi) || []).length;
+  const english = (sample.match(/\b(and|the|is|not|you|a|an|correct|also|of|with|for|which|what)\b/gi) || []).length;
+  return german > english ? "de" : "en";
+}
+
+// Inline Markdown → plain words; formulas in the feedback's language
+function speakInline(s: string, locale: SpeechLocale): string {
+  const text = s
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")            // images → alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")             // links → link text
+    .replace(/<https?:[^>]+>|https?:\/\/\S+/g, "");      // bare URLs
+  return speakMath(text, locale)
+    .replace(/`([^`]+)`/g, "$1")                         // inline code
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")                  // bold
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, "$1$2") // italics
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/<\/?[a-z][^>]*>/gi, "")                    // stray HTML
+    .replace(/\s*->\s*|\s*→\s*/g, ", ")
+    .replace(/[*_#>|`]+/g, " ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+const endSentence = (s: string) => (!s || /[.!?…:;]$/.test(s) ? s : `${s}.`);
+
+const tableCells = (line: string, locale: SpeechLocale) =>
+  line.trim().replace(/^\||\|$/g, "").split("|").map((c) => speakInline(c, locale));
+
+/**
+ * Feedback Markdown → text for TTS, fed incrementally while the reply streams in.
+ * push() returns the blocks (paragraphs, lists, tables) completed by the new text;
+ * end() flushes the rest. Lists become "First, … Second, …", tables are read row by row
+ * ("Header: value, …"), code blocks are announced instead of read.
+ */
+export function createMarkdownSpeaker(opts: MarkdownSpeakOptions = {}) {
+  const maxChars = opts.maxChars ?? 0;
+  let buffer = "";
+  let spoken = 0;
+  let done = false;
+  let locale: SpeechLocale | null = null;
+  let listIndex = 0;                // running item number while consecutive blocks are lists
+
+  function speakBlock(block: string): string {
+    const loc = (locale ??= speechLocale(opts.language, block));
+    const lines = block.split("\n").map((l) => l.trimEnd()).filter((l) => l.trim());
+    if (!lines.length) return "";
+
+    if (/^\s*(```|~~~)/.test(lines[0])) { listIndex = 0; return PHRASES[loc].code; }
+
+    const isTable = lines.every((l) => /^\s*\|.*\|\s*$/.test(l));
+    if (isTable) {
+      listIndex = 0;
+      const out: string[] = [];
+      let header: string[] | null = null;
+      for (const line of lines) {
+        if (/^\s*\|[\s:|-]+\|\s*$/.test(line)) continue; // | --- | :-: |
+        const cells = tableCells(line, loc);
+        if (!header) { header = cells; continue; }
+        const h = header;
+        out.push(endSentence(cells.map((c, i) => (h[i] && c ? `${h[i]}: ${c}` : c)).filter(Boolean).join(", ")));
+      }
+      return out.join(" ");
+    }
+
+    const out: string[] = [];
+    let inList = false;
+    for (const line of lines) {
+      const item = line.match(/^\s*(?:[-*+•]|\d+[.)])\s+(.*)$/);
+      if (item) {
+        const ordinals = ORDINALS[loc];
+        const label = listIndex < ordinals.length ? ordinals[listIndex] : PHRASES[loc].next;
+        listIndex++;
+        inList = true;
+        out.push(endSentence(`${label}, ${speakInline(item[1], loc)}`));
+        continue;
+      }
+      if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) continue; // horizontal rule
+      const text = speakInline(line.replace(/^\s*#{1,6}\s+/, "").replace(/^\s*>\s?/, ""), loc);
+      if (!text) continue;
+      if (inList && /^\s{2,}/.test(line)) { out.push(endSentence(text)); continue; } // continuation of an item
+      inList = false;
+      out.push(endSentence(text));
+    }
+    if (!inList) listIndex = 0;
+    return out.join(" ");
+  }
+
+  // Applies the length budget: stops at a sentence end once maxChars would be exceeded
+  function budget(text: string): string {
+    if (done || !text) return "";
+    if (!maxChars || spoken + text.length <= maxChars) { spoken += text.length + 1; return text; }
+    done = true;
+    const room = Math.max(0, maxChars - spoken);
+    const cut = text.slice(0, room).match(/^[\s\S]*[.!?…](?=\s|$)/)?.[0] || "";
+    return [cut, PHRASES[locale || "en"].more].filter(Boolean).join(" ");
+  }
+
+  function take(final: boolean): string[] {
+    const out: string[] = [];
+    for (;;) {
+      // Blocks end at a blank line or where a code fence opens; a fence runs to its closing fence
+      const fence = buffer.match(/^\s*(```|~~~)/);
+      let end = -1, next = -1;
+      if (fence) {
+        const close = buffer.indexOf(fence[1], fence[0].length);
+        if (close >= 0) { end = close + 3; next = end; }
+      } else {
+        const gap = buffer.search(/\n\s*\n/);
+        const fenceAt = buffer.search(/\n[ \t]*(```|~~~)/);
+        if (fenceAt >= 0 && (gap < 0 || fenceAt < gap)) { end = fenceAt; next = fenceAt + 1; }
+        else if (gap >= 0) { end = gap; next = gap + buffer.slice(gap).match(/^\n\s*\n/)![0].length; }
+      }
+      if (end < 0) {
+        if (!final || !buffer.trim()) break;
+        end = next = buffer.length;
+      }
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(next);
+      const spokenBlock = budget(speakBlock(block));
+      if (spokenBlock) out.push(spokenBlock);
+    }
+    return out;
+  }
+
+  return {
+    push(chunk: string): string[] {
+      buffer += chunk;
+      return take(false);
+    },
+    end(): string[] {
+      return take(true);
+    },
+  };
+}
+
+/** Whole feedback at once (see createMarkdownSpeaker) */
+export function markdownToSpeakable(md: string, opts: MarkdownSpeakOptions = {}): string {
+  const speaker = createMarkdownSpeaker(opts);
+  return [...speaker.push(String(md || "")), ...speaker.end()].join(" ");
+}
+
+const plainText = (html: string) => {
+  const s = stripBoilerplate(html);
+  return tidyWhitespace(stripSpecials(stripTags(speakMath(s, speechLocale(undefined, s.replace(/<[^>]+>/g, " "))))));
+};
+
+/**
+ * Names the deletion a cloze card asks for, e.g. `Tested cloze c2: "Na/K-ATPase"`.
+ * Empty when the HTML has no cloze with this card's number.
+ */
+export function describeTestedCloze(html: string, ord: number | undefined): string {
+  if (!html || typeof ord !== "number" || ord < 0) return "";
+  const active = ord + 1;
+  const found = collectActiveClozes(parseClozes(String(html), 0, false).parts, active, []);
+  const answers = found.map((node) => plainText(renderClozeParts(node.body, active, "back", ""))).filter(Boolean);
+  if (!answers.length) return "";
+  return `Tested cloze c${active}: ${answers.map((a) => `"${a}"`).join(", ")}`;
+}
+
+/** True when the HTML contains cloze deletions ({{c1::…}}) */
+export const hasCloze = (html: string) => /\{\{c\d+(?:,\d+)*::/i.test(String(html || ""));
+
+/* -------------------- Speakability: can the front be read aloud at all? -------------------- */
+
+export type SpeakabilityReason = "images" | "occlusion" | "media" | "empty";
+
+export type Speakability = {
+  /** What toPlainSpeakable reads */
+  text: string;
+  /** Share of the content that is not heard (images without alt text, video), 0–1; audio is not counted */
+  lostFraction: number;
+  images: number;
+  tables: number;
+  /** Audio and video: [sound:…], <audio>, <video> */
+  media: number;
+  occlusion: boolean;
+  speakable: boolean;
+  reasons: SpeakabilityReason[];
+};
+
+// Rough weight of visual content that is dropped, in characters of text it stands in for
+const IMAGE_CHARS = 200;
+const VIDEO_CHARS = 200;
+
+/**
+ * How much of a card survives toPlainSpeakable. Unspeakable: image occlusion, hardly any words left
+ * (e.g. an image-only front), or more than half of the content lost to images or to video.
+ * A recording is something to hear, not lost text: "media" only when it is all the front has.
+ */
+export function assessSpeakability(html: string, opts: SpeakableOptions = {}): Speakability {
+  const s = String(html || "");
+  const text = toPlainSpeakable(s, opts);
+  const imgs = s.match(/<img\b[^>]*>/gi) || [];
+  const images = imgs.length;
+  const silentImages = imgs.filter((tag) => !/\balt="[^"]*\S[^"]*"/i.test(tag)).length;
+  const tables = (s.match(/<table\b/gi) || []).length;
+  const audio = (s.match(/\[sound:[^\]]*\]|<audio\b/gi) || []).length;
+  const videos = (s.match(/<video\b/gi) || []).length;
+  const occlusion = /image-occlusion|\bio-overlay\b|id=["']io-/i.test(s);
+
+  const share = (lost: number) => (lost ? lost / (lost + text.length) : 0);
+  const lostFraction = share(silentImages * IMAGE_CHARS + videos * VIDEO_CHARS);
+  const heard = /[\p{L}\p{N}]/u.test(text.replace(new RegExp(`\\b${opts.blankWord || "blank"}\\b`, "gi"), ""));
+
+  const reasons: SpeakabilityReason[] = [];
+  if (occlusion) reasons.push("occlusion");
+  if (silentImages && share(silentImages * IMAGE_CHARS) >= 0.5) reasons.push("images");
+  if ((videos && share(videos * VIDEO_CHARS) >= 0.5) || (audio && !heard)) reasons.push("media");
+  if (!heard) reasons.push("empty");
+  return { text, lostFraction, images, tables, media: audio + videos, occlusion, speakable: !reasons.length, reasons };
+}
+
+const UNSPEAKABLE_NOTICE = {
+  en: "This card is mostly visual. Please look at the screen.",
+  de: "Diese Karte ist vor allem visuell. Bitte schau auf den Bildschirm.",
+};
+
+/** Read instead of (or before) an unspeakable front; language as for feedback ("auto" guesses from the text) */
+export function unspeakableNotice(a: Speakability, language?: string): string {
+  const notice = UNSPEAKABLE_NOTICE[speechLocale(language, a.text)];
+  return a.text && !a.occlusion ? `${notice} ${a.text}` : notice;
+}
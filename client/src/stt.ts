@@ -1,22 +1,56 @@
 // client/src/stt.ts
+// One-utterance recorder. The mic's PCM is tapped by an AudioWorklet in frames of frameMs and run
+// through the voice activity detection in vad.ts; the utterance includes the VAD's pre-roll, so no
+// leading syllables are lost. The result is a 16 kHz mono WAV.
+//
+// Barge-in: with isPlaybackActive, the mic listens while our own audio plays; the VAD then asks
+// for louder, longer speech so the echo-cancelled remainder of the playback does not trigger it.
+import { initialVadState, vadConfig, vadStep, type VadConfig, type VadLevel } from "./vad";
+
 export type SpeechOnceOpts = {
-  rmsThreshold?: number;
-  startFrames?: number;
-  endFrames?: number;        // now defaulted so ~3s silence needed to stop
   frameMs?: number;
-  maxUtteranceMs?: number;
-  mimeType?: string;
-  onStartRecording?: () => void;
+  vad?: Partial<Omit<VadConfig, "sampleRate">>; // sensitivity, endOfSpeechMs, preRollMs, maxUtteranceMs, …
+  isPlaybackActive?: () => boolean;
+  onLevel?: (level: VadLevel) => void;          // every frame, for a level meter
+  onStartRecording?: (info: { duringPlayback: boolean }) => void;
   onStopRecording?: () => void;
 };
 
+const TARGET_RATE = 16000;
+
+// Posts channel 0 in frames of `frameSamples` (the render quantum is only 128 samples)
+const TAP_WORKLET = `
+class PcmTap extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.frameSamples;
+    this.buf = new Float32Array(this.size);
+    this.n = 0;
+  }
+  process(inputs) {
+    const ch = inputs[0] && inputs[0][0];
+    if (ch) {
+      for (let i = 0; i < ch.length; i++) {
+        this.buf[this.n++] = ch[i];
+        if (this.n === this.size) {
+          this.port.postMessage(this.buf);
+          this.buf = new Float32Array(this.size);
+          this.n = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor("pcm-tap", PcmTap);
+`;
+
 export class SpeechOnce {
   _ac: AudioContext | null = null;
   _stream: MediaStream | null = null;
-  _analyser: AnalyserNode | null = null;
-  _timeData!: Uint8Array<ArrayBuffer>;
-  _rec: MediaRecorder | null = null;
-  _chunks: BlobPart[] = [];
+  _tap: AudioWorkletNode | null = null;
+  _onFrame: ((frame: Float32Array) => void) | null = null;
+  _stopWait: (() => void) | null = null; // resolves a pending recordOneUtterance() on stop()
   _running = false;
 
   constructor(public opts: SpeechOnceOpts = {}) {}
@@ -41,129 +75,105 @@ export class SpeechOnce {
     });
     this._stream = stream;
 
-    const src = ac.createMediaStreamSource(stream);
-    const analyser = ac.createAnalyser();
-    analyser.fftSize = 2048;
-    src.connect(analyser);
-    this._analyser = analyser;
-    this._timeData = new Uint8Array(new ArrayBuffer(analyser.fftSize));
-
-    const preferred = [
-      this.opts.mimeType || "",
-      "audio/webm;codecs=opus",
-      "audio/webm",
-      "audio/ogg;codecs=opus",
-      "audio/mp4",
-    ].filter(Boolean);
-
-    let rec: MediaRecorder;
+    const url = URL.createObjectURL(new Blob([TAP_WORKLET], { type: "application/javascript" }));
     try {
-      const isSup = (t: string) =>
-        (window as any).MediaRecorder?.isTypeSupported
-          ? (window as any).MediaRecorder.isTypeSupported(t)
-          : true;
-      const supported = preferred.find((t) => isSup(t));
-      rec = supported ? new MediaRecorder(stream, { mimeType: supported }) : new MediaRecorder(stream);
-    } catch {
-      rec = new MediaRecorder(stream);
+      await ac.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
     }
-    this._rec = rec;
 
-    this._rec.ondataavailable = (ev: any) => {
-      if (ev && ev.data && ev.data.size > 0) this._chunks.push(ev.data);
-    };
+    const frameSamples = Math.round((ac.sampleRate * (this.opts.frameMs ?? 50)) / 1000);
+    const tap = new AudioWorkletNode(ac, "pcm-tap", { numberOfOutputs: 0, processorOptions: { frameSamples } });
+    tap.port.onmessage = (ev) => this._onFrame?.(ev.data as Float32Array);
+    ac.createMediaStreamSource(stream).connect(tap);
+    this._tap = tap;
+    if (ac.state === "suspended") await ac.resume().catch(() => {});
 
     this._running = true;
   }
 
-  _rms(buf: Uint8Array<ArrayBuffer>): number {
-    let sum = 0;
-    for (let i = 0; i < buf.length; i++) {
-      const v = (buf[i] - 128) / 128;
-      sum += v * v;
-    }
-    return Math.sqrt(sum / buf.length);
-  }
-
   async recordOneUtterance(): Promise<Blob | null> {
-    if (!this._running || !this._analyser || !this._rec) return null;
-
-    const frameMsDefault = 50;
-    const {
-      rmsThreshold = 0.02,
-      startFrames = 4,
-      frameMs = frameMsDefault,
-      // 3s silence → endFrames ≈ 3000ms / frameMs
-      endFrames = Math.max(1, Math.round(3000 / Math.max(1, frameMs))),
-      maxUtteranceMs = 60000,
-      onStartRecording,
-      onStopRecording,
-    } = this.opts;
-
-    let speakingFrames = 0;
-    let silenceFrames = 0;
-    let recording = false;
-    this._chunks = [];
-    const startedAt = performance.now();
-
-    const done = await new Promise<Blob | null>((resolve) => {
-      const tick = () => {
-        if (!this._running || !this._analyser) {
-          resolve(null);
-          return;
-        }
-        this._analyser.getByteTimeDomainData(this._timeData);
-        const energy = this._rms(this._timeData);
-
-        if (!recording) {
-          speakingFrames = energy > rmsThreshold ? speakingFrames + 1 : 0;
-          if (speakingFrames >= startFrames) {
-            try { this._rec!.start(250); } catch {}
-            recording = true;
-            silenceFrames = 0;
-            onStartRecording?.();
-          }
-        } else {
-          silenceFrames = energy <= rmsThreshold ? silenceFrames + 1 : 0;
-          if (silenceFrames >= endFrames) {
-            try { this._rec!.requestData(); } catch {}
-            try { this._rec!.stop(); } catch {}
-            setTimeout(() => {
-              const mime = (this._rec!.mimeType || "audio/webm").split(";")[0];
-              const blob = this._chunks.length ? new Blob(this._chunks, { type: mime }) : null;
-              onStopRecording?.();
-              resolve(blob);
-            }, 150);
-            return;
+    if (!this._running || !this._ac) return null;
+
+    const { vad = {}, isPlaybackActive, onLevel, onStartRecording, onStopRecording } = this.opts;
+    const sampleRate = this._ac.sampleRate;
+    const config = vadConfig(vad, sampleRate, vad);
+    let state = initialVadState(config);
+    let frames: Float32Array[] | null = null; // null until speech starts
+
+    return new Promise<Blob | null>((resolve) => {
+      const finish = (blob: Blob | null) => {
+        this._onFrame = null;
+        this._stopWait = null;
+        if (frames) onStopRecording?.();
+        resolve(blob);
+      };
+      this._stopWait = () => finish(null);
+
+      this._onFrame = (frame) => {
+        const step = vadStep(state, frame, config, { playbackActive: !!isPlaybackActive?.() });
+        state = step.state;
+        onLevel?.(step.level);
+        if (frames && state.phase === "speech") frames.push(frame);
+
+        for (const ev of step.events) {
+          if (ev.type === "speechStart") {
+            frames = [...ev.preRoll];
+            onStartRecording?.({ duringPlayback: ev.duringPlayback });
+          } else if (ev.type === "speechEnd" && frames) {
+            return finish(encodeWav(frames, sampleRate));
           }
         }
-
-        if (performance.now() - startedAt > maxUtteranceMs) {
-          try { this._rec!.requestData(); } catch {}
-          try { this._rec!.stop(); } catch {}
-          setTimeout(() => {
-            const mime = (this._rec!.mimeType || "audio/webm").split(";")[0];
-            const blob = this._chunks.length ? new Blob(this._chunks, { type: mime }) : null;
-            onStopRecording?.();
-            resolve(blob);
-          }, 150);
-          return;
-        }
-
-        requestAnimationFrame(tick);
       };
-      requestAnimationFrame(tick);
     });
-
-    return done;
   }
 
   async stop(): Promise<void> {
     this._running = false;
+    this._stopWait?.();
+    try { this._tap?.disconnect(); } catch {}
     try { this._stream?.getTracks().forEach((t) => t.stop()); } catch {}
     try { await this._ac?.close(); } catch {}
     this._stream = null;
-    this._analyser = null;
-    this._rec = null;
+    this._tap = null;
+    this._ac = null;
+  }
+}
+
+// Box-filter downsampling to 16 kHz, then 16-bit PCM WAV
+function encodeWav(frames: Float32Array[], sampleRate: number): Blob {
+  const total = frames.reduce((n, f) => n + f.length, 0);
+  const input = new Float32Array(total);
+  let offset = 0;
+  for (const f of frames) { input.set(f, offset); offset += f.length; }
+
+  const ratio = Math.max(1, sampleRate / TARGET_RATE);
+  const rate = Math.round(sampleRate / ratio);
+  const length = Math.floor(total / ratio);
+  const view = new DataView(new ArrayBuffer(44 + length * 2));
+
+  const str = (at: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(at + i, s.charCodeAt(i)); };
+  str(0, "RIFF");
+  view.setUint32(4, 36 + length * 2, true);
+  str(8, "WAVE");
+  str(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);        // PCM
+  view.setUint16(22, 1, true);        // mono
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  str(36, "data");
+  view.setUint32(40, length * 2, true);
+
+  for (let i = 0; i < length; i++) {
+    const from = Math.floor(i * ratio);
+    const to = Math.min(total, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += input[j];
+    const s = Math.max(-1, Math.min(1, sum / Math.max(1, to - from)));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
   }
+  return new Blob([view], { type: "audio/wav" });
 }
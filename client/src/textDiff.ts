@@ -0,0 +1,46 @@
+// client/src/textDiff.ts
+// Word-level diff for reviewing proposed field edits (pure, no DOM).
+// Longest common subsequence over words and the whitespace between them; very long inputs fall
+// back to "all removed, all added" to keep the table small.
+
+export type DiffPart = { type: "same" | "del" | "add"; text: string };
+
+const MAX_TOKENS = 1500;
+
+const tokens = (s: string) => s.split(/(\s+)/).filter(Boolean);
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokens(before);
+  const b = tokens(after);
+  if (a.length > MAX_TOKENS || b.length > MAX_TOKENS) {
+    return [
+      ...(before ? [{ type: "del" as const, text: before }] : []),
+      ...(after ? [{ type: "add" as const, text: after }] : []),
+    ];
+  }
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push("same", a[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push("del", a[i++]);
+    else push("add", b[j++]);
+  }
+  while (i < a.length) push("del", a[i++]);
+  while (j < b.length) push("add", b[j++]);
+  return parts;
+}
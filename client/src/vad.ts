@@ -0,0 +1,290 @@
+// client/src/vad.ts
+// Voice activity detection as a pure step function: PCM frame in, new state + events out.
+// No Web Audio in here, so recorded PCM can be replayed through vadStep() frame by frame.
+//
+// - The noise floor (dBFS) is calibrated from the first calibrationMs after the mic opens
+//   (a low percentile, so speaking right away does not inflate it) and keeps adapting while
+//   nobody speaks: quickly downwards, slowly upwards.
+// - A frame counts as speech only when it is loud enough above the floor AND looks like voice:
+//   periodic at a pitch between 70 and 400 Hz, with most energy in the voice band (FFT).
+//   Fans and hiss are neither, so they keep feeding the floor instead of holding the utterance open.
+// - Hysteresis: speech starts above floor + onset margin for minSpeechMs and ends only after
+//   endOfSpeechMs below floor + offset margin (a lower margin).
+// - While our own audio plays (barge-in), the onset margin and duration are raised.
+
+export type VadSettings = {
+  sensitivity: number;     // 0 (needs loud speech) … 1 (reacts to whispers)
+  endOfSpeechMs: number;   // pause that ends the answer
+};
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = { sensitivity: 0.5, endOfSpeechMs: 3000 };
+
+export type VadConfig = VadSettings & {
+  sampleRate: number;
+  calibrationMs: number;
+  preRollMs: number;
+  minSpeechMs: number;
+  maxUtteranceMs: number;
+  initialNoiseFloorDb?: number; // floor learned by an earlier session: shortens calibration
+};
+
+export type VadPhase = "calibrating" | "silence" | "speech";
+
+export type VadState = {
+  phase: VadPhase;
+  calibration: number[];     // frame levels (dB) while calibrating
+  noiseFloorDb: number;
+  onsetMs: number;           // how long the current run of speech-like frames has lasted
+  quietMs: number;           // how long the speech has been below the offset level
+  speechMs: number;          // length of the current utterance
+  preRoll: Float32Array[];   // the most recent frames, up to preRollMs + minSpeechMs
+  preRollMs: number;
+};
+
+export type VadLevel = {
+  levelDb: number;
+  noiseFloorDb: number;
+  onsetDb: number;           // level speech has to reach
+  speechLike: boolean;
+  phase: VadPhase;
+};
+
+export type VadEvent =
+  | { type: "calibrated"; noiseFloorDb: number }
+  | { type: "speechStart"; preRoll: Float32Array[]; duringPlayback: boolean } // preRoll includes the current frame
+  | { type: "speechEnd"; reason: "silence" | "maxLength" };
+
+const MIN_FLOOR_DB = -80;        // digital silence would otherwise make any click "speech"
+const MIN_ONSET_DB = -65;
+const PLAYBACK_EXTRA_DB = 10;
+const CALIBRATION_PERCENTILE = 0.2;
+
+export function vadConfig(settings: Partial<VadSettings>, sampleRate: number, extra: Partial<VadConfig> = {}): VadConfig {
+  return {
+    ...normalizeVadSettings(settings),
+    sampleRate,
+    calibrationMs: extra.initialNoiseFloorDb != null ? 100 : 300,
+    preRollMs: 400,
+    minSpeechMs: 150,
+    maxUtteranceMs: 60000,
+    ...extra,
+  };
+}
+
+export function normalizeVadSettings(raw: Partial<VadSettings> | null | undefined): VadSettings {
+  const sensitivity = Number(raw?.sensitivity);
+  const endOfSpeechMs = Number(raw?.endOfSpeechMs);
+  return {
+    sensitivity: Number.isFinite(sensitivity) ? Math.min(1, Math.max(0, sensitivity)) : DEFAULT_VAD_SETTINGS.sensitivity,
+    endOfSpeechMs: Number.isFinite(endOfSpeechMs)
+      ? Math.min(6000, Math.max(300, Math.round(endOfSpeechMs)))
+      : DEFAULT_VAD_SETTINGS.endOfSpeechMs,
+  };
+}
+
+export function initialVadState(config: VadConfig): VadState {
+  return {
+    phase: "calibrating",
+    calibration: [],
+    noiseFloorDb: config.initialNoiseFloorDb ?? -60,
+    onsetMs: 0,
+    quietMs: 0,
+    speechMs: 0,
+    preRoll: [],
+    preRollMs: 0,
+  };
+}
+
+// Margins above the noise floor: sensitivity 0 → 20 dB, 1 → 6 dB; offset 5 dB lower
+const onsetMarginDb = (sensitivity: number) => 20 - 14 * sensitivity;
+const offsetMarginDb = (sensitivity: number) => Math.max(3, onsetMarginDb(sensitivity) - 5);
+
+export function vadStep(
+  state: VadState,
+  frame: Float32Array,
+  config: VadConfig,
+  ctx: { playbackActive?: boolean } = {}
+): { state: VadState; events: VadEvent[]; level: VadLevel } {
+  const frameMs = (frame.length / config.sampleRate) * 1000;
+  const { levelDb, speechLike } = analyzeFrame(frame, config.sampleRate);
+  const events: VadEvent[] = [];
+  const next: VadState = { ...state };
+
+  // Pre-roll ring (kept in every phase so an utterance starting during calibration is complete)
+  if (state.phase !== "speech") {
+    next.preRoll = [...state.preRoll, frame];
+    next.preRollMs = state.preRollMs + frameMs;
+    const keepMs = config.preRollMs + config.minSpeechMs * 2;
+    const msOf = (f: Float32Array) => (f.length / config.sampleRate) * 1000;
+    while (next.preRoll.length > 1 && next.preRollMs - msOf(next.preRoll[0]) >= keepMs) {
+      next.preRollMs -= msOf(next.preRoll[0]);
+      next.preRoll = next.preRoll.slice(1);
+    }
+  }
+
+  if (state.phase === "calibrating") {
+    next.calibration = [...state.calibration, levelDb];
+    if (next.calibration.length * frameMs >= config.calibrationMs) {
+      const sorted = [...next.calibration].sort((a, b) => a - b);
+      const measured = sorted[Math.floor((sorted.length - 1) * CALIBRATION_PERCENTILE)];
+      next.noiseFloorDb = Math.max(MIN_FLOOR_DB,
+        config.initialNoiseFloorDb != null ? Math.min(measured, config.initialNoiseFloorDb + 6) : measured);
+      next.calibration = [];
+      next.phase = "silence";
+      events.push({ type: "calibrated", noiseFloorDb: next.noiseFloorDb });
+    }
+    return { state: next, events, level: levelOf(next, levelDb, speechLike, config, ctx) };
+  }
+
+  const playing = !!ctx.playbackActive;
+  const onsetDb = onsetLevel(next.noiseFloorDb, config, playing);
+
+  if (state.phase === "silence") {
+    const loud = levelDb >= onsetDb && speechLike;
+    next.onsetMs = loud ? state.onsetMs + frameMs : 0;
+    const neededMs = playing ? config.minSpeechMs * 2 : config.minSpeechMs;
+
+    if (next.onsetMs >= neededMs) {
+      const keep = Math.ceil((config.preRollMs + next.onsetMs) / frameMs);
+      events.push({ type: "speechStart", preRoll: next.preRoll.slice(-keep), duringPlayback: playing });
+      Object.assign(next, { phase: "speech", onsetMs: 0, quietMs: 0, speechMs: next.onsetMs, preRoll: [], preRollMs: 0 });
+    } else if (!loud) {
+      next.noiseFloorDb = adaptFloor(next.noiseFloorDb, levelDb);
+    }
+  } else {
+    // speech: stays open while loud speech-like frames keep coming (lower offset level)
+    const offsetDb = next.noiseFloorDb + offsetMarginDb(config.sensitivity);
+    next.speechMs = state.speechMs + frameMs;
+    next.quietMs = levelDb >= offsetDb && speechLike ? 0 : state.quietMs + frameMs;
+    if (!speechLike && levelDb < offsetDb) next.noiseFloorDb = adaptFloor(next.noiseFloorDb, levelDb);
+
+    if (next.quietMs >= config.endOfSpeechMs || next.speechMs >= config.maxUtteranceMs) {
+      events.push({ type: "speechEnd", reason: next.quietMs >= config.endOfSpeechMs ? "silence" : "maxLength" });
+      Object.assign(next, { phase: "silence", quietMs: 0, speechMs: 0, onsetMs: 0 });
+    }
+  }
+
+  return { state: next, events, level: levelOf(next, levelDb, speechLike, config, ctx) };
+}
+
+function onsetLevel(noiseFloorDb: number, config: VadConfig, playing: boolean) {
+  return Math.max(MIN_ONSET_DB, noiseFloorDb + onsetMarginDb(config.sensitivity) + (playing ? PLAYBACK_EXTRA_DB : 0));
+}
+
+function levelOf(state: VadState, levelDb: number, speechLike: boolean, config: VadConfig, ctx: { playbackActive?: boolean }): VadLevel {
+  return {
+    levelDb,
+    noiseFloorDb: state.noiseFloorDb,
+    onsetDb: onsetLevel(state.noiseFloorDb, config, !!ctx.playbackActive),
+    speechLike,
+    phase: state.phase,
+  };
+}
+
+// Down fast (the room got quieter), up slowly (so a single loud frame does not raise it)
+function adaptFloor(floorDb: number, levelDb: number) {
+  const rate = levelDb < floorDb ? 0.3 : 0.02;
+  return Math.max(MIN_FLOOR_DB, floorDb + (levelDb - floorDb) * rate);
+}
+
+// ---------- Frame features ----------
+
+const toDb = (rms: number) => 20 * Math.log10(rms + 1e-10);
+
+export type FrameFeatures = {
+  levelDb: number;     // RMS in dBFS
+  bandRatio: number;   // share of the spectrum's energy between 80 and 4000 Hz
+  voicing: number;     // strongest normalized autocorrelation at a pitch lag (70–400 Hz)
+  speechLike: boolean;
+};
+
+/** Voiced speech is periodic and sits in the voice band; fans, hiss and clicks are not both */
+export function analyzeFrame(frame: Float32Array, sampleRate: number): FrameFeatures {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  const levelDb = toDb(Math.sqrt(sum / Math.max(1, frame.length)));
+
+  const bandRatio = voiceBandRatio(frame, sampleRate);
+  const voicing = voicingStrength(frame, sampleRate);
+  return { levelDb, bandRatio, voicing, speechLike: voicing >= 0.5 && bandRatio >= 0.6 };
+}
+
+/** Share of the frame's spectral energy between 80 and 4000 Hz (Hann window, FFT) */
+export function voiceBandRatio(frame: Float32Array, sampleRate: number): number {
+  let n = 1;
+  while (n * 2 <= Math.min(frame.length, 2048)) n *= 2;
+  if (n < 64) return 0;
+
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  const offset = Math.floor((frame.length - n) / 2);
+  for (let i = 0; i < n; i++) re[i] = frame[offset + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  fft(re, im);
+
+  const binHz = sampleRate / n;
+  let total = 0, band = 0;
+  for (let k = 1; k < n / 2; k++) {
+    const p = re[k] * re[k] + im[k] * im[k];
+    total += p;
+    const hz = k * binHz;
+    if (hz >= 80 && hz <= 4000) band += p;
+  }
+  return total ? band / total : 0;
+}
+
+/** Max normalized autocorrelation over pitch lags, on an ~8 kHz copy of the frame */
+export function voicingStrength(frame: Float32Array, sampleRate: number): number {
+  const step = Math.max(1, Math.round(sampleRate / 8000));
+  const rate = sampleRate / step;
+  const x = new Float64Array(Math.floor(frame.length / step));
+  for (let i = 0; i < x.length; i++) {
+    let s = 0;
+    for (let j = 0; j < step; j++) s += frame[i * step + j];
+    x[i] = s / step;
+  }
+
+  const minLag = Math.floor(rate / 400);
+  const maxLag = Math.min(Math.ceil(rate / 70), Math.floor(x.length / 2));
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let xy = 0, xx = 0, yy = 0;
+    for (let i = 0; i + lag < x.length; i++) {
+      xy += x[i] * x[i + lag];
+      xx += x[i] * x[i];
+      yy += x[i + lag] * x[i + lag];
+    }
+    if (xx > 0 && yy > 0) best = Math.max(best, xy / Math.sqrt(xx * yy));
+  }
+  return best;
+}
+
+// In-place iterative radix-2 FFT (n must be a power of two)
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    const wr = Math.cos(ang), wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let j = 0; j < len / 2; j++) {
+        const a = i + j, b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+        const ncr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = ncr;
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+// client/src/voiceCommands.ts
+
+/**
+ * Spoken command parser (pure, no DOM):
+ * - Maps a whole transcript to a command, e.g. "Good." -> grade 3, "Zeig die Rückseite" -> showBack
+ * - Only short utterances that consist of a command phrase count; anything else is an answer
+ * - Grade words ("gut", "richtig", "falsch"…) are grades only once the back is shown or the answer
+ *   evaluated; before that they are the learner's answer (true/false and short-answer cards)
+ * - German + English phrases; punctuation, casing and polite filler words are ignored
+ */
+
+export type VoiceCommand =
+  | { type: "grade"; ease: 1 | 2 | 3 | 4 }
+  | { type: "showBack" }
+  | { type: "repeat" }
+  | { type: "skip" }
+  | { type: "undo" }
+  | { type: "discuss" };
+
+/** "front": nothing revealed yet; "answered": the back was shown or the answer evaluated */
+export type ReviewPhase = "front" | "answered";
+
+// Longest phrases first is not required: matching is on the whole normalized utterance.
+const PHRASES: Array<[VoiceCommand, string[]]> = [
+  [{ type: "grade", ease: 1 }, ["again", "fail", "nochmal", "noch mal", "nochmals", "wieder", "falsch"]],
+  [{ type: "grade", ease: 2 }, ["hard", "difficult", "schwer", "schwierig"]],
+  [{ type: "grade", ease: 3 }, ["good", "gut", "richtig", "correct"]],
+  [{ type: "grade", ease: 4 }, ["easy", "einfach", "leicht"]],
+  [{ type: "showBack" }, [
+    "show back", "show the back", "show answer", "show the answer", "reveal", "flip", "back side",
+    "rückseite", "zeig rückseite", "zeig die rückseite", "zeige die rückseite", "rückseite zeigen",
+    "antwort zeigen", "zeig die antwort", "zeige die antwort", "auflösung", "lösung",
+  ]],
+  [{ type: "repeat" }, [
+    "repeat", "say again", "say that again", "read again", "read it again", "once more",
+    "wiederholen", "wiederhole", "wiederholung", "nochmal vorlesen", "noch mal vorlesen", "bitte wiederholen",
+  ]],
+  [{ type: "skip" }, ["skip", "skip card", "skip this", "next card", "überspringen", "überspring", "nächste karte"]],
+  [{ type: "undo" }, [
+    "undo", "undo that", "undo last", "take that back", "take it back",
+    "rückgängig", "rückgängig machen", "mach das rückgängig", "zurücknehmen", "nimm das zurück",
+  ]],
+  [{ type: "discuss" }, [
+    "discuss", "discuss more", "let's discuss", "lets discuss", "explain", "explain more",
+    "diskutieren", "besprechen", "erklären", "erklär mal", "lass uns das besprechen",
+  ]],
+];
+
+// Filler around a command ("okay, good please") that shouldn't prevent a match
+const FILLERS = new Set([
+  "ok", "okay", "please", "bitte", "uh", "um", "uhm", "äh", "ähm", "hm", "hmm", "so", "also", "ja", "yes", "the", "card",
+]);
+
+export const MAX_COMMAND_WORDS = 5;
+
+export function normalizeUtterance(text: string): string {
+  return String(text || "")
+    .toLowerCase()
+    .normalize("NFC")
+    .replace(/[’']/g, "'")
+    .replace(/[^\p{L}\p{N}' ]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const LOOKUP: Map<string, VoiceCommand> = (() => {
+  const m = new Map<string, VoiceCommand>();
+  for (const [cmd, phrases] of PHRASES) {
+    for (const p of phrases) m.set(normalizeUtterance(p), cmd);
+  }
+  return m;
+})();
+
+/**
+ * Returns the command the learner spoke, or null if the utterance should be treated as an answer.
+ */
+export function parseVoiceCommand(transcript: string, phase: ReviewPhase = "front"): VoiceCommand | null {
+  const cmd = lookup(transcript);
+  return cmd?.type === "grade" && phase !== "answered" ? null : cmd;
+}
+
+function lookup(transcript: string): VoiceCommand | null {
+  const norm = normalizeUtterance(transcript);
+  if (!norm) return null;
+
+  const words = norm.split(" ");
+  if (words.length > MAX_COMMAND_WORDS + 2) return null;
+
+  const exact = LOOKUP.get(norm);
+  if (exact) return exact;
+
+  // Retry without filler words ("okay good", "good please", "ähm rückseite")
+  const core = words.filter((w) => !FILLERS.has(w));
+  if (!core.length || core.length > MAX_COMMAND_WORDS) return null;
+  return LOOKUP.get(core.join(" ")) || null;
+}
@@ -0,0 +1,79 @@
+// client/test/fixtures/pcm.ts
+// Deterministic PCM for the VAD tests, in the shape the mic delivers it (mono Float32, fixed-size
+// frames). Signals are synthesized from a seeded generator, so every run sees the same samples:
+// room noise (white), mains hum, and a voiced vowel (harmonics of a pitch, falling off like a voice).
+
+export const SAMPLE_RATE = 48000;
+export const FRAME_MS = 50; // stt.ts default
+
+// mulberry32
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const samples = (ms: number) => Math.round((SAMPLE_RATE * ms) / 1000);
+
+function atLevel(x: Float32Array, db: number): Float32Array {
+  let sum = 0;
+  for (const v of x) sum += v * v;
+  const rms = Math.sqrt(sum / Math.max(1, x.length));
+  const gain = rms ? 10 ** (db / 20) / rms : 0;
+  return x.map((v) => v * gain);
+}
+
+/** White noise at an RMS level in dBFS (fans, hiss) */
+export function noise(ms: number, db: number, seed = 1): Float32Array {
+  const next = random(seed);
+  return atLevel(Float32Array.from({ length: samples(ms) }, () => next() * 2 - 1), db);
+}
+
+/** A 50 Hz hum with its first overtones */
+export function hum(ms: number, db: number): Float32Array {
+  const x = Float32Array.from({ length: samples(ms) }, (_, i) => {
+    const t = i / SAMPLE_RATE;
+    return Math.sin(2 * Math.PI * 50 * t) + 0.3 * Math.sin(2 * Math.PI * 100 * t);
+  });
+  return atLevel(x, db);
+}
+
+/** A sustained vowel: harmonics of f0 up to 3.5 kHz with a slow pitch wobble */
+export function voice(ms: number, db: number, f0 = 140): Float32Array {
+  let phase = 0;
+  const x = Float32Array.from({ length: samples(ms) }, (_, i) => {
+    const t = i / SAMPLE_RATE;
+    phase += (2 * Math.PI * f0 * (1 + 0.02 * Math.sin(2 * Math.PI * 4 * t))) / SAMPLE_RATE;
+    let s = 0;
+    for (let k = 1; k * f0 <= 3500; k++) s += Math.sin(k * phase) / k;
+    return s;
+  });
+  return atLevel(x, db);
+}
+
+/** Signals mixed sample by sample (the longest sets the length) */
+export function mix(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(Math.max(...parts.map((p) => p.length)));
+  for (const p of parts) p.forEach((v, i) => { out[i] += v; });
+  return out;
+}
+
+export function concat(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) { out.set(p, at); at += p.length; }
+  return out;
+}
+
+/** Cut into mic frames (a trailing partial frame is dropped) */
+export function frames(pcm: Float32Array, frameMs = FRAME_MS): Float32Array[] {
+  const n = samples(frameMs);
+  const out: Float32Array[] = [];
+  for (let at = 0; at + n <= pcm.length; at += n) out.push(pcm.slice(at, at + n));
+  return out;
+}
@@ -0,0 +1,37 @@
+// client/test/mathSpeech.test.ts
+import { describe, expect, test } from "vitest";
+import { speakMath } from "../src/mathSpeech";
+
+const say = (html: string, locale: "en" | "de" = "en") => speakMath(html, locale).replace(/\s+/g, " ").trim();
+
+describe("formulas", () => {
+  test("LaTeX, ions and chemistry in the card's language", () => {
+    expect(say("\\(\\frac{a}{b}\\)")).toBe("a over b");
+    expect(say("\\(E = mc^2\\)", "de")).toBe("E gleich mc Quadrat");
+    expect(say("Ca<sup>2+</sup>-Antagonisten", "de")).toBe("Kalzium zwei plus-Antagonisten");
+    expect(say("Ca²⁺ channel blockers")).toBe("Ca two plus channel blockers");
+    expect(say("\\(\\ce{H2O}\\)")).toBe("H two O");
+  });
+});
+
+describe("units", () => {
+  test("after numbers, with per and singular", () => {
+    expect(say("5 mg/kg over 1 min")).toBe("5 milligrams per kilogram over 1 minute");
+    expect(say("Dosis 2,5 µg/ml bei 37 °C", "de")).toBe("Dosis 2,5 Mikrogramm pro Milliliter bei 37 Grad Celsius");
+  });
+
+  test("single letters are units in a formula, a compound or after an operator", () => {
+    expect(say("\\(t = 30\\,\\text{s}\\)")).toBe("t equals 30 seconds");
+    expect(say("\\(v = 2 l\\)", "de")).toBe("v gleich 2 Liter");
+    expect(say("10 g/l")).toBe("10 grams per litre");
+    expect(say("1 Tablette, max. 3 mg/d", "de")).toBe("1 Tablette, max. 3 Milligramm pro Tag");
+    expect(say("t ≈ 2 h")).toBe("t approximately 2 hours");
+  });
+
+  test("single letters in ordinary text stay letters", () => {
+    expect(say("Options: 1 a, 2 b, 3 d")).toBe("Options: 1 a, 2 b, 3 d");
+    expect(say("Gruppe 2 h und Gruppe 4 s", "de")).toBe("Gruppe 2 h und Gruppe 4 s");
+    expect(say("Vitamin B 1 g")).toBe("Vitamin B 1 g");
+    expect(say("Typ 1 l-Form", "de")).toBe("Typ 1 l-Form");
+  });
+});
@@ -0,0 +1,118 @@
+// client/test/sanitize.test.ts
+import { beforeAll, describe, expect, test } from "vitest";
+import { createMarkdownSpeaker, describeTestedCloze, markdownToSpeakable, toPlainSpeakable } from "../src/sanitize";
+
+// decodeHTML uses a <textarea>; enough of one for these cards
+beforeAll(() => {
+  const entities: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', nbsp: " " };
+  const textarea = () => ({
+    value: "",
+    set innerHTML(html: string) {
+      this.value = html.replace(/&(#\d+|[a-z]+);/gi, (m, e: string) =>
+        e[0] === "#" ? String.fromCodePoint(Number(e.slice(1))) : entities[e.toLowerCase()] ?? m);
+    },
+  });
+  Object.assign(globalThis, { document: { createElement: textarea } });
+});
+
+const front = (html: string, ord?: number, blankWord?: string) => toPlainSpeakable(html, { ord, side: "front", blankWord });
+const back = (html: string, ord?: number) => toPlainSpeakable(html, { ord, side: "back" });
+
+const CARD = "{{c1::Digoxin}} hemmt die {{c2::Na/K-ATPase}} und erhöht {{c3::Calcium}}";
+
+describe("cloze on the front", () => {
+  test("only the card's own deletion is hidden; the others are read in full", () => {
+    expect(front(CARD, 1)).toBe("Digoxin hemmt die blank und erhöht Calcium");
+    expect(front(CARD, 0)).toBe("blank hemmt die Na/K-ATPase und erhöht Calcium");
+    expect(back(CARD, 1)).toBe("Digoxin hemmt die Na/K-ATPase und erhöht Calcium");
+  });
+
+  test("the active deletion becomes its hint, a kept prefix or the blank word", () => {
+    expect(front("{{c1::Digoxin::Herzglykosid}} wirkt positiv inotrop", 0)).toBe("Herzglykosid wirkt positiv inotrop");
+    expect(front("{{c1::(Es-)Citalopram}} ist ein SSRI", 0)).toBe("(Es-) ist ein SSRI");
+    expect(front("{{c1::anti-cholinerg}} wirkt Atropin", 0)).toBe("anti- wirkt Atropin");
+    expect(front("Atropin ist {{c1::parasympatholytisch}}", 0, "Lücke")).toBe("Atropin ist Lücke");
+  });
+
+  test("a deletion numbered for several cards (c1,2) is hidden on each of them", () => {
+    const html = "{{c1,2::Digoxin}} und {{c3::Digitoxin}}";
+    expect(front(html, 0)).toBe("blank und Digitoxin");
+    expect(front(html, 1)).toBe("blank und Digitoxin");
+    expect(front(html, 2)).toBe("Digoxin und blank");
+  });
+
+  test("nested deletions: the outer one hides all of it, the inner one only itself", () => {
+    const html = "{{c1::a {{c2::b}}}} c";
+    expect(front(html, 0)).toBe("blank c");
+    expect(front(html, 1)).toBe("a blank c");
+    expect(back(html, 0)).toBe("a b c");
+    expect(back(html, 1)).toBe("a b c");
+  });
+
+  test("without an ord every deletion is hidden, as before", () => {
+    expect(front(CARD)).toBe("blank hemmt die blank und erhöht blank");
+    expect(back(CARD)).toBe("Digoxin hemmt die Na/K-ATPase und erhöht Calcium");
+  });
+
+  test("an unterminated deletion stays as written", () => {
+    expect(front("{{c1::Digoxin hemmt", 0)).toBe("{{c1::Digoxin hemmt");
+  });
+});
+
+describe("describeTestedCloze", () => {
+  test("names the deletion this card asks for", () => {
+    expect(describeTestedCloze(CARD, 1)).toBe('Tested cloze c2: "Na/K-ATPase"');
+    expect(describeTestedCloze("{{c1::Digoxin}} und {{c1::Digitoxin}}, {{c2::Herz}}", 0)).toBe('Tested cloze c1: "Digoxin", "Digitoxin"');
+    expect(describeTestedCloze("{{c1,2::Digoxin}}", 1)).toBe('Tested cloze c2: "Digoxin"');
+  });
+
+  test("nested: the outer deletion includes the inner one", () => {
+    expect(describeTestedCloze("{{c1::a {{c2::b}}}} c", 0)).toBe('Tested cloze c1: "a b"');
+    expect(describeTestedCloze("{{c1::a {{c2::b}}}} c", 1)).toBe('Tested cloze c2: "b"');
+  });
+
+  test("nothing without a matching deletion or an ord", () => {
+    expect(describeTestedCloze(CARD, 5)).toBe("");
+    expect(describeTestedCloze(CARD, undefined)).toBe("");
+    expect(describeTestedCloze("no cloze", 0)).toBe("");
+  });
+});
+
+describe("createMarkdownSpeaker", () => {
+  const FEEDBACK = "Fast richtig. Es fehlt:\n\n- Natrium\n- Kalium\n\n```js\nx\n\ny\n```\n| Ion | Formel |\n|---|---|\n| Ca | \\(x^2\\) |\n\nGut.";
+
+  test("blocks are released once complete: at a blank line, a fence or the end", () => {
+    const speaker = createMarkdownSpeaker({ language: "German" });
+    expect(speaker.push("Fast rich")).toEqual([]);
+    expect(speaker.push("tig. Es fehlt:\n")).toEqual([]);
+    expect(speaker.push("\n- Natrium\n- Kal")).toEqual(["Fast richtig. Es fehlt:"]);
+    expect(speaker.push("ium\n\n```js\nx\n\ny")).toEqual(["Erstens, Natrium. Zweitens, Kalium."]);
+    expect(speaker.push("\n```\n| Ion | Formel |\n")).toEqual(["Ein Codebeispiel steht auf dem Bildschirm."]);
+    expect(speaker.push("|---|---|\n| Ca | \\(x^2\\) |")).toEqual([]);
+    expect(speaker.end()).toEqual(["Ion: Ca, Formel: x Quadrat."]);
+  });
+
+  test("where the stream is cut does not change what is said", () => {
+    const whole = markdownToSpeakable(FEEDBACK, { language: "German" });
+    for (const size of [1, 3, 7, 40]) {
+      const speaker = createMarkdownSpeaker({ language: "German" });
+      const out: string[] = [];
+      for (let i = 0; i < FEEDBACK.length; i += size) out.push(...speaker.push(FEEDBACK.slice(i, i + size)));
+      out.push(...speaker.end());
+      expect(out.join(" "), `chunks of ${size}`).toBe(whole);
+    }
+  });
+
+  test("list and math wording follow the deck's language, not the text's", () => {
+    expect(markdownToSpeakable("Gut. \\(x^2\\) passt.\n\n- a", { language: "English" })).toBe("Gut. x squared passt. First, a.");
+    expect(markdownToSpeakable("Good. \\(x^2\\) fits.\n\n- a", { language: "German" })).toBe("Good. x Quadrat fits. Erstens, a.");
+    expect(markdownToSpeakable("- one\n- two\n\nAnd Ca²⁺.")).toBe("First, one. Second, two. And Ca two plus.");
+  });
+
+  test("maxChars stops at a sentence end and says the rest is on screen, once", () => {
+    const speaker = createMarkdownSpeaker({ maxChars: 40 });
+    expect(speaker.push("First sentence here. Second sentence is longer than that.\n\n")).toEqual(["First sentence here. The rest is on screen."]);
+    expect(speaker.push("More.\n\n")).toEqual([]);
+    expect(speaker.end()).toEqual([]);
+  });
+});
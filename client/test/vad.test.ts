@@ -0,0 +1,134 @@
+// client/test/vad.test.ts
+// vadStep replayed over PCM fixtures, frame by frame, as stt.ts feeds it from the mic.
+import { describe, expect, test } from "vitest";
+import { analyzeFrame, initialVadState, vadConfig, vadStep, type VadConfig, type VadEvent, type VadState } from "../src/vad";
+import { FRAME_MS, SAMPLE_RATE, concat, frames, hum, mix, noise, voice } from "./fixtures/pcm";
+
+const config = (extra: Partial<VadConfig> = {}) =>
+  vadConfig({ sensitivity: 0.5, endOfSpeechMs: 1000 }, SAMPLE_RATE, extra);
+
+/** Every event with the time (ms from the start) of the frame that raised it */
+function replay(pcm: Float32Array, cfg: VadConfig, { state = initialVadState(cfg), playbackActive = false } = {}) {
+  const events: (VadEvent & { atMs: number })[] = [];
+  const floors: number[] = [];
+  frames(pcm).forEach((frame, i) => {
+    const step = vadStep(state, frame, cfg, { playbackActive });
+    state = step.state;
+    floors.push(state.noiseFloorDb);
+    for (const e of step.events) events.push({ ...e, atMs: (i + 1) * FRAME_MS });
+  });
+  return { events, state, floors, types: events.map((e) => e.type) };
+}
+
+const room = (ms: number, seed = 1) => noise(ms, -60, seed);
+const speaking = (ms: number, seed = 2) => mix(voice(ms, -25), room(ms, seed));
+
+describe("frame features", () => {
+  test("a voiced vowel is speech-like; hiss and mains hum are not", () => {
+    const [vowel] = frames(speaking(FRAME_MS));
+    const [hiss] = frames(noise(FRAME_MS, -25));
+    const [mains] = frames(hum(FRAME_MS, -25));
+    expect(analyzeFrame(vowel, SAMPLE_RATE).speechLike).toBe(true);
+    expect(analyzeFrame(hiss, SAMPLE_RATE).speechLike).toBe(false);
+    expect(analyzeFrame(mains, SAMPLE_RATE).speechLike).toBe(false);
+    expect(analyzeFrame(vowel, SAMPLE_RATE).levelDb).toBeCloseTo(-25, 0);
+  });
+});
+
+describe("calibration", () => {
+  test("the floor is measured over calibrationMs, from the quiet frames", () => {
+    const cfg = config();
+    const { events } = replay(room(cfg.calibrationMs), cfg);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "calibrated", atMs: cfg.calibrationMs });
+    expect((events[0] as { noiseFloorDb: number }).noiseFloorDb).toBeCloseTo(-60, 0);
+  });
+
+  test("speaking right away does not inflate the floor", () => {
+    const cfg = config();
+    const { events } = replay(concat(room(100), speaking(200)), cfg);
+    expect((events[0] as { noiseFloorDb: number }).noiseFloorDb).toBeLessThan(-55);
+  });
+
+  test("a floor from an earlier session shortens calibration and caps the measurement", () => {
+    const cfg = config({ initialNoiseFloorDb: -60 });
+    const { events } = replay(noise(cfg.calibrationMs, -40), cfg);
+    expect(cfg.calibrationMs).toBe(100);
+    expect(events[0]).toMatchObject({ type: "calibrated", noiseFloorDb: -54 });
+  });
+});
+
+describe("speech", () => {
+  test("silence and loud hiss never start speech", () => {
+    const cfg = config();
+    expect(replay(concat(room(300), room(3000, 3)), cfg).types).toEqual(["calibrated"]);
+    expect(replay(concat(room(300), noise(3000, -30, 3)), cfg).types).toEqual(["calibrated"]);
+  });
+
+  test("speech starts after minSpeechMs of voice, with the pre-roll before it", () => {
+    const cfg = config();
+    const { events } = replay(concat(room(1000), speaking(1000)), cfg);
+    const start = events.find((e) => e.type === "speechStart");
+    expect(start).toMatchObject({ atMs: 1000 + cfg.minSpeechMs, duringPlayback: false });
+
+    // preRollMs of room before the onset, then the onset frames (the current one last)
+    const preRoll = (start as { preRoll: Float32Array[] }).preRoll;
+    expect(preRoll.length * FRAME_MS).toBe(cfg.preRollMs + cfg.minSpeechMs);
+    const levels = preRoll.map((f) => analyzeFrame(f, SAMPLE_RATE).levelDb);
+    expect(levels.slice(0, cfg.preRollMs / FRAME_MS).every((db) => db < -55)).toBe(true);
+    expect(levels.slice(-cfg.minSpeechMs / FRAME_MS).every((db) => db > -30)).toBe(true);
+  });
+
+  test("a short burst of voice is not an utterance", () => {
+    const cfg = config();
+    expect(replay(concat(room(1000), speaking(100), room(1000)), cfg).types).toEqual(["calibrated"]);
+  });
+
+  test("speech ends endOfSpeechMs after the voice stops; shorter pauses keep it open", () => {
+    const cfg = config();
+    const pcm = concat(room(1000), speaking(1000), room(500, 4), speaking(500), room(2000, 5));
+    const { events } = replay(pcm, cfg);
+    expect(events.map((e) => e.type)).toEqual(["calibrated", "speechStart", "speechEnd"]);
+    expect(events[2]).toMatchObject({ reason: "silence", atMs: 3000 + cfg.endOfSpeechMs });
+  });
+
+  test("maxUtteranceMs cuts an utterance that never pauses", () => {
+    const cfg = config({ maxUtteranceMs: 2000 });
+    const { events } = replay(concat(room(1000), speaking(3000)), cfg);
+    // counted from the onset, so the cut comes maxUtteranceMs after the voice began; it goes on as a new one
+    expect(events.slice(1).map(({ type, atMs }) => [type, atMs])).toEqual([
+      ["speechStart", 1000 + cfg.minSpeechMs], ["speechEnd", 1000 + 2000], ["speechStart", 3000 + cfg.minSpeechMs],
+    ]);
+    expect(events[2]).toMatchObject({ reason: "maxLength" });
+  });
+
+  test("while our audio plays, speech has to be louder and last twice as long", () => {
+    const cfg = config();
+    const quiet = replay(concat(room(1000), mix(voice(1000, -48), room(1000, 2))), cfg, { playbackActive: true });
+    expect(quiet.types).toEqual(["calibrated"]);
+    const loud = replay(concat(room(1000), speaking(1000)), cfg, { playbackActive: true });
+    expect(loud.events.find((e) => e.type === "speechStart")).toMatchObject({ atMs: 1000 + 2 * cfg.minSpeechMs, duringPlayback: true });
+  });
+});
+
+describe("noise floor adaptation", () => {
+  const calibrated = (cfg: VadConfig): VadState => replay(room(cfg.calibrationMs), cfg).state;
+
+  test("follows a quieter room quickly and a louder one slowly", () => {
+    const cfg = config();
+    const quieter = replay(noise(500, -75, 6), cfg, { state: calibrated(cfg) });
+    expect(quieter.state.noiseFloorDb).toBeLessThan(-73);
+
+    const louder = replay(noise(500, -45, 7), cfg, { state: calibrated(cfg) });
+    expect(louder.state.noiseFloorDb).toBeGreaterThan(-60);
+    expect(louder.state.noiseFloorDb).toBeLessThan(-57);
+    const settled = replay(noise(10000, -45, 8), cfg, { state: louder.state });
+    expect(settled.state.noiseFloorDb).toBeCloseTo(-45, 0);
+  });
+
+  test("voice does not raise the floor", () => {
+    const cfg = config();
+    const { floors } = replay(speaking(2000), cfg, { state: calibrated(cfg) });
+    expect(Math.max(...floors)).toBeLessThan(-58);
+  });
+});
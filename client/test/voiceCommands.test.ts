@@ -0,0 +1,63 @@
+// client/test/voiceCommands.test.ts
+import { describe, expect, test } from "vitest";
+import { MAX_COMMAND_WORDS, normalizeUtterance, parseVoiceCommand, type VoiceCommand } from "../src/voiceCommands";
+
+const after = (text: string) => parseVoiceCommand(text, "answered");
+
+describe("commands", () => {
+  const cases: Array<[VoiceCommand, string[]]> = [
+    [{ type: "grade", ease: 1 }, ["Again", "nochmal", "noch mal", "falsch"]],
+    [{ type: "grade", ease: 2 }, ["hard", "schwer", "schwierig"]],
+    [{ type: "grade", ease: 3 }, ["good", "gut", "richtig", "correct"]],
+    [{ type: "grade", ease: 4 }, ["easy", "einfach", "leicht"]],
+    [{ type: "showBack" }, ["show the answer", "flip", "Zeig die Rückseite", "Lösung"]],
+    [{ type: "repeat" }, ["repeat", "say that again", "wiederholen", "noch mal vorlesen"]],
+    [{ type: "skip" }, ["skip", "next card", "überspringen", "nächste Karte"]],
+    [{ type: "undo" }, ["undo", "take that back", "rückgängig", "nimm das zurück"]],
+    [{ type: "discuss" }, ["discuss more", "let's discuss", "besprechen", "lass uns das besprechen"]],
+  ];
+  test.each(cases)("%o in English and German", (cmd, phrases) => {
+    for (const p of phrases) expect(after(p), p).toEqual(cmd);
+  });
+
+  test("grade words are an answer while only the front is known", () => {
+    for (const p of ["richtig", "falsch", "correct", "gut", "again", "easy"]) expect(parseVoiceCommand(p, "front"), p).toBeNull();
+    expect(parseVoiceCommand("richtig")).toBeNull(); // the front is the default
+    expect(parseVoiceCommand("Rückseite", "front")).toEqual({ type: "showBack" });
+    expect(parseVoiceCommand("skip", "front")).toEqual({ type: "skip" });
+  });
+});
+
+describe("normalization", () => {
+  test("punctuation and casing are ignored", () => {
+    expect(normalizeUtterance("  Zeig   die RÜCKSEITE!! ")).toBe("zeig die rückseite");
+    expect(after("Good.")).toEqual({ type: "grade", ease: 3 });
+    expect(after("LET’S DISCUSS?")).toEqual({ type: "discuss" });
+    expect(after("…Nächste Karte…")).toEqual({ type: "skip" });
+  });
+
+  test("filler words around a command are dropped", () => {
+    expect(after("okay, gut bitte")).toEqual({ type: "grade", ease: 3 });
+    expect(after("Ähm, Rückseite")).toEqual({ type: "showBack" });
+    expect(after("ok so skip the card please")).toEqual({ type: "skip" });
+    expect(after("okay bitte")).toBeNull();
+  });
+});
+
+describe("answers", () => {
+  test("ordinary sentences fall through to the answer", () => {
+    expect(after("Natrium-Kanal-Blockade")).toBeNull();
+    expect(after("It is good for the heart")).toBeNull();
+    expect(after("Das ist leicht zu merken, weil es schwer ist")).toBeNull();
+    expect(parseVoiceCommand("", "answered")).toBeNull();
+    expect(parseVoiceCommand("?!", "answered")).toBeNull();
+  });
+
+  test(`more than ${MAX_COMMAND_WORDS} words besides fillers are never a command`, () => {
+    const fillers = (n: number) => Array(n).fill("bitte").join(" ");
+    expect(after(`${fillers(2)} zeig die rückseite`)).toEqual({ type: "showBack" });
+    // the raw utterance may carry two words more than a command; after that it is an answer
+    expect(after(`${fillers(MAX_COMMAND_WORDS + 2 - 1)} gut`)).toEqual({ type: "grade", ease: 3 });
+    expect(after(`${fillers(MAX_COMMAND_WORDS + 2)} gut`)).toBeNull();
+  });
+});
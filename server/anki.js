@@ -0,0 +1,89 @@
+// server/anki.js
+// Thin AnkiConnect client (https://foosoft.net/projects/anki-connect/), API version 6.
+
+import http from "node:http";
+import { traced } from "./telemetry.js";
+
+// Disable keep-alive to reduce ECONNRESET / "socket hang up" on localhost
+const agent = new http.Agent({ keepAlive: false });
+
+// Read per call so tests (and a late dotenv) can point us at another AnkiConnect
+const ankiUrl = () => process.env.ANKI_URL || "http://127.0.0.1:8765";
+
+// Socket hiccups worth another try; AnkiConnect's own errors are not
+function isTransient(err) {
+  // Built-in fetch reports socket errors as "fetch failed" with the reason in err.cause
+  const msg = `${err?.message || err} ${err?.cause?.code || ""} ${err?.cause?.message || ""}`;
+  return msg.includes("socket hang up") ||
+    msg.includes("ECONNRESET") ||
+    msg.includes("UND_ERR_SOCKET") ||
+    msg.includes("timeout");
+}
+
+/** Anki (or AnkiConnect) could not be reached, as opposed to AnkiConnect answering with an error */
+export function isConnectionError(err) {
+  const msg = `${err?.message || err} ${err?.cause?.code || ""}`;
+  return isTransient(err) || msg.includes("fetch failed") || msg.includes("ECONNREFUSED") || msg.includes("AnkiConnect HTTP 5");
+}
+
+// Reachability as seen by the last call: null until the first one, then true / false
+let connected = null;
+const connectionListeners = new Set();
+
+function setConnected(value) {
+  if (connected === value) return;
+  connected = value;
+  for (const fn of connectionListeners) fn(value);
+}
+
+export const ankiConnected = () => connected;
+
+/** fn(connected) on every change; returns an unsubscribe function */
+export function onAnkiConnectionChange(fn) {
+  connectionListeners.add(fn);
+  return () => connectionListeners.delete(fn);
+}
+
+// Actions that may run twice without harm, so a dropped reply is simply asked again. Anything else
+// (guiAnswerCard, answerCards, guiUndo, addNote, updateNoteFields…) is sent once: Anki may have
+// carried it out before the socket dropped. Lost grades are replayed by the outbox against the revlog.
+const RETRY_SAFE = new Set([
+  "version", "deckNames", "deckNamesAndIds", "getDeckConfig", "findCards", "cardsInfo", "notesInfo",
+  "cardReviews", "getReviewsOfCards", "modelNames", "modelFieldNames", "modelStyling", "modelTemplates",
+  "retrieveMediaFile", "guiCurrentCard", "guiShowQuestion", "guiShowAnswer", "guiDeckReview",
+  "buryCards", "addTags", "setSpecificValueOfCard",
+]);
+
+export async function ankiInvoke(action, params = {}, { retries = RETRY_SAFE.has(action) ? 2 : 0 } = {}) {
+  const body = JSON.stringify({ action, version: 6, params });
+  return traced("anki", action, async (span) => {
+    span.set({ bytesOut: Buffer.byteLength(body), retries: 0 });
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const res = await fetch(ankiUrl(), {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body,
+          signal: AbortSignal.timeout(15000),
+          agent
+        });
+        if (!res.ok) throw new Error(`AnkiConnect HTTP ${res.status}`);
+        const text = await res.text();
+        setConnected(true);
+        span.set({ bytesIn: Buffer.byteLength(text) });
+        const json = JSON.parse(text);
+        if (json.error) throw new Error(`AnkiConnect: ${json.error}`);
+        return json.result;
+      } catch (err) {
+        if (attempt >= retries || !isTransient(err)) {
+          if (isConnectionError(err)) setConnected(false);
+          throw err;
+        }
+        span.set({ retries: attempt + 1 });
+        await new Promise(r => setTimeout(r, 200));
+      }
+    }
+  });
+}
+
+export const isReviewerInactive = (e) => String(e?.message || e).includes("Gui review is not currently active");
@@ -0,0 +1,80 @@
+// server/cardMedia.js
+// Recordings a card already has: [sound:file.mp3] references in the fields that make up its front
+// (prompt role) and back (answer role), fetched from Anki's media folder with retrieveMediaFile and
+// served locally from /api/media/:filename. Files are kept in memory (size-bounded, least recently
+// used dropped first), so a recording is read from Anki once rather than on every replay.
+
+const SOUND_REF = /\[sound:([^\]]+)\]/gi;
+
+const TYPE_FOR_EXT = {
+  mp3: "audio/mpeg", ogg: "audio/ogg", oga: "audio/ogg", opus: "audio/ogg", wav: "audio/wav",
+  m4a: "audio/mp4", aac: "audio/aac", flac: "audio/flac", webm: "audio/webm", spx: "audio/ogg",
+};
+
+/** Filenames of the [sound:…] references in a field, in order */
+export function soundRefs(html) {
+  return [...String(html || "").matchAll(SOUND_REF)].map((m) => m[1].trim()).filter(Boolean);
+}
+
+/** A bare file name in the media folder; no paths */
+export const isMediaName = (name) =>
+  typeof name === "string" && name.length > 0 && name.length <= 255 && !/[/\\\0]/.test(name) && name !== "." && name !== "..";
+
+export const mediaContentType = (name) => TYPE_FOR_EXT[String(name).split(".").pop().toLowerCase()] || null;
+
+/**
+ * Fields with recordings on each side of a card, in mapping order.
+ * card: cardsInfo entry; mapping: field roles of its note type (see fieldMappings.js)
+ * → { front: [{ field, files }], back: [{ field, files }] }
+ */
+export function cardSounds(card, mapping) {
+  const side = (role) => (mapping?.[role] || []).flatMap((field) => {
+    const files = soundRefs(card?.fields?.[field]?.value).filter((f) => isMediaName(f) && mediaContentType(f));
+    return files.length ? [{ field, files }] : [];
+  });
+  return { front: side("prompt"), back: side("answer") };
+}
+
+export function createMediaCache({ anki, maxBytes = 64 * 1024 * 1024 }) {
+  const files = new Map();   // filename -> Buffer, least recently used first
+  const loading = new Map(); // filename -> Promise<Buffer | null>
+  let bytes = 0;
+
+  function keep(name, buf) {
+    files.set(name, buf);
+    bytes += buf.length;
+    while (bytes > maxBytes && files.size > 1) {
+      const [oldest, old] = files.entries().next().value;
+      files.delete(oldest);
+      bytes -= old.length;
+    }
+  }
+
+  return {
+    /** The file's bytes, or null when Anki's media folder has no such file */
+    async get(name) {
+      const hit = files.get(name);
+      if (hit) {
+        files.delete(name);
+        files.set(name, hit);
+        return hit;
+      }
+      if (!loading.has(name)) {
+        loading.set(name, (async () => {
+          try {
+            const b64 = await anki("retrieveMediaFile", { filename: name });
+            if (!b64) return null;
+            const buf = Buffer.from(b64, "base64");
+            keep(name, buf);
+            return buf;
+          } finally {
+            loading.delete(name);
+          }
+        })());
+      }
+      return loading.get(name);
+    },
+
+    stats: () => ({ files: files.size, bytes, maxBytes }),
+  };
+}
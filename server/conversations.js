@@ -0,0 +1,94 @@
+// server/conversations.js
+// "Discuss more" conversations, kept in $DATA_DIR/conversations.json so a restart does not break
+// an open thread. Bounded: sessions idle for longer than ttlMs are dropped, and beyond maxSessions
+// the least recently used ones go first.
+// Session: { sessionId, deckName, system, messages: [{ role, content, ts }], pinned, summary,
+//            summarizedCount, createdAt, updatedAt }
+// - pinned: leading messages (the card context) that always stay in the model's window
+// - summary: condensed version of messages[pinned, pinned + summarizedCount) that fell out of it
+
+import { readJson, writeJsonAtomic } from "./storage.js";
+
+// Rough token estimate (≈ 4 characters per token); good enough for budgeting a window
+export function estimateTokens(text) {
+  return Math.ceil(String(text || "").length / 4) + 4;
+}
+
+/**
+ * Splits a history into what is dropped and what still fits the budget, newest first.
+ * The last message is always kept, and the window starts with a user message.
+ * @returns {number} index of the first kept message
+ */
+export function windowStart(messages, budget) {
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (start < messages.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  while (start < messages.length - 1 && messages[start].role !== "user") start++;
+  return start;
+}
+
+export function createConversationStore({ file, ttlMs = 24 * 60 * 60 * 1000, maxSessions = 50, now = Date.now }) {
+  let loading = null; // Promise<{ sessionId -> session }>
+  let saving = Promise.resolve();
+
+  const load = () => (loading ??= readJson(file, {}).then((all) => (prune(all), all)));
+
+  // Drops expired sessions, then the least recently used beyond maxSessions; true if any went
+  function prune(all) {
+    const cutoff = now() - ttlMs;
+    let changed = false;
+    for (const [id, s] of Object.entries(all)) {
+      if (!(s.updatedAt >= cutoff)) { delete all[id]; changed = true; }
+    }
+    const ids = Object.keys(all).sort((a, b) => all[b].updatedAt - all[a].updatedAt);
+    for (const id of ids.slice(maxSessions)) { delete all[id]; changed = true; }
+    return changed;
+  }
+
+  async function save() {
+    const snapshot = structuredClone(await load());
+    saving = saving.then(() => writeJsonAtomic(file, snapshot)).catch((e) => console.warn("[conversations] save failed:", e.message));
+    return saving;
+  }
+
+  return {
+    async get(sessionId) {
+      const all = await load();
+      if (prune(all)) await save();
+      return all[sessionId] || null;
+    },
+
+    /** Stores (or replaces) a session and marks it as used */
+    async put(session) {
+      const all = await load();
+      all[session.sessionId] = { ...session, updatedAt: now() };
+      prune(all);
+      await save();
+      return all[session.sessionId] || null;
+    },
+
+    async remove(sessionId) {
+      const all = await load();
+      const existed = !!all[sessionId];
+      delete all[sessionId];
+      if (existed) await save();
+      return existed;
+    },
+
+    /** Most recently used first, without the messages */
+    async list() {
+      const all = await load();
+      if (prune(all)) await save();
+      return Object.values(all)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(({ sessionId, deckName, messages, summary, createdAt, updatedAt }) => ({
+          sessionId, deckName: deckName || null, messages: messages.length, summarized: !!summary, createdAt, updatedAt,
+        }));
+    },
+  };
+}
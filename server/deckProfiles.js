@@ -0,0 +1,146 @@
+// server/deckProfiles.js
+// Per-deck language, voice, prompt template, card audio and unspeakable-card profiles, inherited down the deck tree:
+// "Medizin::Pharma::Kardio" starts from the defaults, then applies "Medizin", "Medizin::Pharma"
+// and finally its own overrides. Each deck stores only what it overrides.
+// Stored in $DATA_DIR/deck-profiles.json.
+
+import { readJsonRecord, writeJsonAtomic } from "./storage.js";
+
+export const DEFAULT_PROFILE = {
+  sttLanguage: "german",        // whisper language name, or "auto" to detect
+  feedbackLanguage: "auto",     // language the feedback is written in; "auto" = the card's language
+  promptTemplate: "standard",   // evaluation / tutor prompts, see promptTemplates.js
+  unspeakablePolicy: "warn",    // cards that can't be read aloud, see UNSPEAKABLE_POLICIES
+  preferCardAudio: true,        // play the card's own [sound:…] recordings instead of synthesizing their fields
+  tts: { voice_id: "Friendly_Person", speed: 1, emotion: "happy", language_boost: "German" },
+};
+
+// warn: say so and show the card; skip: move on; bury: buryCards, then move on; tag: tag the note, then move on
+export const UNSPEAKABLE_POLICIES = ["warn", "skip", "bury", "tag"];
+
+export const TTS_EMOTIONS = ["auto", "happy", "sad", "angry", "fearful", "disgusted", "surprised", "neutral"];
+
+const badRequest = (msg) => Object.assign(new Error(msg), { status: 400 });
+
+const isName = (v) => typeof v === "string" && v.trim().length > 0 && v.length <= 60;
+
+/** Validates a deck's overrides; unknown keys are dropped, empty strings mean "inherit" */
+export function normalizeProfile(raw = {}) {
+  const out = {};
+  if (raw.sttLanguage != null && raw.sttLanguage !== "") {
+    if (!isName(raw.sttLanguage)) throw badRequest("sttLanguage must be a language name or 'auto'");
+    out.sttLanguage = raw.sttLanguage.trim().toLowerCase();
+  }
+  if (raw.feedbackLanguage != null && raw.feedbackLanguage !== "") {
+    if (!isName(raw.feedbackLanguage)) throw badRequest("feedbackLanguage must be a language name or 'auto'");
+    out.feedbackLanguage = raw.feedbackLanguage.trim();
+  }
+  if (raw.promptTemplate != null && raw.promptTemplate !== "") {
+    if (!/^[\w-]{1,40}$/.test(String(raw.promptTemplate))) throw badRequest("promptTemplate must be a template id");
+    out.promptTemplate = raw.promptTemplate;
+  }
+  if (raw.unspeakablePolicy != null && raw.unspeakablePolicy !== "") {
+    if (!UNSPEAKABLE_POLICIES.includes(raw.unspeakablePolicy)) throw badRequest(`unspeakablePolicy must be one of ${UNSPEAKABLE_POLICIES.join(", ")}`);
+    out.unspeakablePolicy = raw.unspeakablePolicy;
+  }
+  if (raw.preferCardAudio != null && raw.preferCardAudio !== "") {
+    if (typeof raw.preferCardAudio !== "boolean") throw badRequest("preferCardAudio must be true or false");
+    out.preferCardAudio = raw.preferCardAudio;
+  }
+
+  const tts = {};
+  const t = raw.tts || {};
+  if (t.voice_id != null && t.voice_id !== "") {
+    if (!isName(t.voice_id)) throw badRequest("tts.voice_id must be a voice name");
+    tts.voice_id = t.voice_id.trim();
+  }
+  if (t.speed != null && t.speed !== "") {
+    const speed = Number(t.speed);
+    if (!(speed >= 0.5 && speed <= 2)) throw badRequest("tts.speed must be between 0.5 and 2");
+    tts.speed = speed;
+  }
+  if (t.emotion != null && t.emotion !== "") {
+    if (!TTS_EMOTIONS.includes(t.emotion)) throw badRequest(`tts.emotion must be one of ${TTS_EMOTIONS.join(", ")}`);
+    tts.emotion = t.emotion;
+  }
+  if (t.language_boost != null && t.language_boost !== "") {
+    if (!isName(t.language_boost)) throw badRequest("tts.language_boost must be a language name");
+    tts.language_boost = t.language_boost.trim();
+  }
+  if (Object.keys(tts).length) out.tts = tts;
+  return out;
+}
+
+/** "A::B::C" → ["A", "A::B", "A::B::C"] */
+export function deckAncestry(deckName) {
+  const parts = String(deckName || "").split("::").filter(Boolean);
+  return parts.map((_, i) => parts.slice(0, i + 1).join("::"));
+}
+
+/**
+ * Effective profile of a deck plus, per setting, the deck it came from ("" = defaults).
+ * @param {string} deckName
+ * @param {Record<string, object>} profiles  deck name -> stored overrides
+ */
+export function resolveProfile(deckName, profiles) {
+  const profile = { ...DEFAULT_PROFILE, tts: { ...DEFAULT_PROFILE.tts } };
+  const sources = { sttLanguage: "", feedbackLanguage: "", promptTemplate: "", unspeakablePolicy: "", preferCardAudio: "", tts: Object.fromEntries(Object.keys(profile.tts).map(k => [k, ""])) };
+
+  for (const deck of deckAncestry(deckName)) {
+    const own = Object.hasOwn(profiles, deck) ? profiles[deck] : null;
+    if (!own) continue;
+    for (const k of ["sttLanguage", "feedbackLanguage", "promptTemplate", "unspeakablePolicy", "preferCardAudio"]) {
+      if (own[k] != null) { profile[k] = own[k]; sources[k] = deck; }
+    }
+    for (const [k, v] of Object.entries(own.tts || {})) {
+      profile.tts[k] = v;
+      sources.tts[k] = deck;
+    }
+  }
+  return { profile, sources };
+}
+
+/** STT language for a provider: undefined means auto-detect */
+export const sttLanguageOf = (profile) =>
+  profile.sttLanguage && profile.sttLanguage !== "auto" ? profile.sttLanguage : undefined;
+
+export function createDeckProfileStore({ file }) {
+  let loading = null; // Promise<{ deckName -> overrides }>, null prototype
+  let saving = Promise.resolve();
+
+  const load = () => (loading ??= readJsonRecord(file));
+
+  async function save() {
+    const snapshot = { ...(await load()) };
+    saving = saving.then(() => writeJsonAtomic(file, snapshot)).catch((e) => console.warn("[deck-profiles] save failed:", e.message));
+    return saving;
+  }
+
+  return {
+    async list() {
+      return { ...(await load()) };
+    },
+
+    async resolve(deckName) {
+      return resolveProfile(deckName, await load());
+    },
+
+    async set(deckName, raw) {
+      if (!deckName) throw badRequest("deckName required");
+      const all = await load();
+      const overrides = normalizeProfile(raw);
+      if (Object.keys(overrides).length) all[deckName] = overrides;
+      else delete all[deckName]; // nothing overridden: inherit everything
+      await save();
+      return (Object.hasOwn(all, deckName) && all[deckName]) || {};
+    },
+
+    async remove(deckName) {
+      const all = await load();
+      const existed = Object.hasOwn(all, deckName);
+      delete all[deckName];
+      if (existed) await save();
+      return existed;
+    },
+  };
+}
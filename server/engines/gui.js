@@ -0,0 +1,161 @@
+// server/engines/gui.js
+// Session engine that drives the Anki desktop reviewer through AnkiConnect's gui* actions.
+// Mirrors what the user sees in Anki; needs the main window in review mode.
+
+import { isReviewerInactive } from "../anki.js";
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+export function createGuiEngine({ anki }) {
+  // Poll briefly until the reviewer is active (Anki may show the overview first)
+  async function waitForReviewer(ms) {
+    const deadline = Date.now() + ms;
+    while (Date.now() < deadline) {
+      try {
+        const cur = await anki("guiCurrentCard");
+        if (cur && (cur.cardId || cur.question)) return true;
+      } catch (_) {
+        // not active yet; wait a tick
+      }
+      await sleep(120);
+    }
+    return false;
+  }
+
+  return {
+    mode: "gui",
+
+    async start(deckName) {
+      // Open the reviewer for the deck (works even with only 'New' cards)
+      await anki("guiDeckReview", { name: deckName });
+
+      if (!(await waitForReviewer(1200))) {
+        return { ok: true, started: false, reason: "reviewer_inactive_or_overview" };
+      }
+      return { ok: true, started: true };
+    },
+
+    async current() {
+      let cur;
+      try {
+        cur = await anki("guiCurrentCard");
+      } catch (e) {
+        if (isReviewerInactive(e)) return { ok: true, empty: true, reason: "reviewer_inactive" };
+        throw e;
+      }
+
+      if (!cur) return { ok: true, empty: true };
+
+      const cardId = cur.cardId;
+      const frontHTML = cur.question || "";
+      const backHTML  = cur.answer || "";
+
+      const info = await anki("cardsInfo", { cards: [cardId] });
+      const fields = info?.[0]?.fields || {};
+      const modelName = info?.[0]?.modelName || "";
+      const ord = info?.[0]?.ord ?? 0; // template index; cloze number - 1 on cloze notes
+      const deckName = info?.[0]?.deckName || cur.deckName || "";
+      const templateName = cur.template || cur.templateName || "";
+
+      return { ok: true, cardId, modelName, templateName, ord, deckName, frontHTML, backHTML, fields };
+    },
+
+    /** Force reviewer for deck, then flip front/back (full mirror) */
+    async show(side, deckName) {
+      if (deckName) {
+        // Re-open the reviewer for this deck to ensure main window is in review mode
+        await anki("guiDeckReview", { name: deckName });
+      }
+
+      const active = await waitForReviewer(1000);
+
+      // Flip side if we’re active (if not, still attempt; Anki may ignore)
+      if (side === "front") await anki("guiShowQuestion");
+      else await anki("guiShowAnswer");
+
+      return { ok: true, reviewerActive: active };
+    },
+
+    /** With cardId (a replayed grade): answers that card by id if the reviewer has moved on */
+    async answer(ease, { cardId } = {}) {
+      if (cardId) {
+        let cur = null;
+        try {
+          cur = await anki("guiCurrentCard");
+        } catch (e) {
+          if (!isReviewerInactive(e)) throw e;
+        }
+        if (cur?.cardId !== cardId) {
+          const [answered] = (await anki("answerCards", { answers: [{ cardId, ease }] })) || [];
+          if (answered === false) throw new Error(`Anki refused to answer card ${cardId}`);
+          return { ok: true, reconciled: true };
+        }
+      }
+
+      // Ensure we're on the back (Anki requires this to register an answer)
+      try {
+        await anki("guiShowAnswer");
+        await sleep(120); // give Anki a beat to switch UI state
+      } catch (_) {
+        // ignore; if already on back, or Anki ignores, we'll still try to answer
+      }
+
+      await anki("guiAnswerCard", { ease });
+
+      // Optional: nudge reviewer to show the NEXT front right away
+      try {
+        await sleep(80);
+        await anki("guiShowQuestion");
+      } catch (_) {}
+
+      return { ok: true };
+    },
+
+    /**
+     * Takes back an answer with Anki's own undo, but only while it is still Anki's latest review;
+     * otherwise guiUndo would take back something else.
+     */
+    async undo({ cardId, answeredAt }) {
+      const reviewed = (await anki("findCards", { query: "rated:1" })) || [];
+      const reviews = (await anki("getReviewsOfCards", { cards: [...new Set([cardId, ...reviewed])] })) || {};
+      const ours = (reviews[cardId] || []).filter((r) => r.id >= answeredAt).at(-1);
+      if (!ours) return { ok: false, error: `Anki has no review of card ${cardId} to undo` };
+      const later = Object.values(reviews).flat().some((r) => r.id > ours.id);
+      if (later) return { ok: false, error: "Anki has newer reviews; undo them in Anki first" };
+
+      if (!(await anki("guiUndo"))) return { ok: false, error: "Anki refused to undo" };
+      return { ok: true };
+    },
+
+    /**
+     * Skip: bury the card for today and re-open the reviewer on the next one. With bury: false the
+     * reviewer is only re-opened, so Anki picks the next card itself (possibly the same one).
+     * cardId: only skip while that card is still the one shown
+     */
+    async skip(deckName, { cardId, bury = true } = {}) {
+      let cur;
+      try {
+        cur = await anki("guiCurrentCard");
+      } catch (e) {
+        if (isReviewerInactive(e)) return { ok: false, error: "reviewer_inactive" };
+        throw e;
+      }
+      if (!cur?.cardId) return { ok: false, error: "no_current_card" };
+      if (cardId && cur.cardId !== Number(cardId)) return { ok: false, error: "card_changed", current: cur.cardId };
+
+      if (bury) await anki("buryCards", { cards: [cur.cardId] });
+      if (deckName) await anki("guiDeckReview", { name: deckName });
+
+      return { ok: true, skipped: cur.cardId };
+    },
+
+    // Return candidate upcoming card IDs for a deck (speculative prefetch)
+    async candidates(deckName, limit) {
+      const query = `deck:"${deckName}" (is:due OR is:new OR is:learn)`;
+      const ids = await anki("findCards", { query });
+
+      // Simple heuristic: return first N (you can randomize if your deck is “random order”)
+      return (ids || []).slice(0, limit);
+    },
+  };
+}
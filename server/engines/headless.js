@@ -0,0 +1,181 @@
+// server/engines/headless.js
+// Session engine that never touches the Anki GUI. It builds its own queue with findCards/cardsInfo
+// (learning → due reviews → new, within the deck's daily limits), renders fronts/backs itself
+// and grades with answerCards. Works with Anki minimized, on the overview screen, or unfocused.
+
+import { renderCard } from "./render.js";
+
+// Anki card queue for intraday learning (cardsInfo "queue"); day-learn cards (3) are due tomorrow
+const QUEUE_LEARN = 1;
+
+const DEFAULT_LIMITS = { newPerDay: 20, reviewsPerDay: 200 };
+
+export function createHeadlessEngine({ anki }) {
+  const state = {
+    deckName: null,
+    queue: [],        // card ids still to show; queue[0] is the current card
+    side: "front",
+  };
+  const modelCache = new Map(); // modelName -> { templates, styling, isCloze }
+
+  const q = (deckName, rest) => `deck:"${deckName}" ${rest}`;
+  const findCards = async (query) => (await anki("findCards", { query })) || [];
+
+  async function dailyLimits(deckName) {
+    try {
+      const conf = await anki("getDeckConfig", { deck: deckName });
+      const [newToday, reviewedToday] = await Promise.all([
+        findCards(q(deckName, "introduced:1")),
+        findCards(q(deckName, "rated:1 -introduced:1")),
+      ]);
+      return {
+        newPerDay: Math.max(0, (conf?.new?.perDay ?? DEFAULT_LIMITS.newPerDay) - newToday.length),
+        reviewsPerDay: Math.max(0, (conf?.rev?.perDay ?? DEFAULT_LIMITS.reviewsPerDay) - reviewedToday.length),
+      };
+    } catch (e) {
+      console.warn("[headless] deck config unavailable, using defaults:", e.message);
+      return { ...DEFAULT_LIMITS };
+    }
+  }
+
+  // Sort ids by cardsInfo "due" (timestamp for learning, day number for reviews, position for new)
+  async function byDue(ids) {
+    if (!ids.length) return [];
+    const info = await anki("cardsInfo", { cards: ids });
+    return (info || []).sort((a, b) => (a.due ?? 0) - (b.due ?? 0)).map(c => c.cardId);
+  }
+
+  async function buildQueue(deckName) {
+    const limits = await dailyLimits(deckName);
+    const [learn, review, fresh] = await Promise.all([
+      findCards(q(deckName, "is:learn is:due")),
+      findCards(q(deckName, "is:due -is:learn")),
+      findCards(q(deckName, "is:new -is:suspended -is:buried")),
+    ]);
+    return [
+      ...(await byDue(learn)),
+      ...(await byDue(review)).slice(0, limits.reviewsPerDay),
+      ...(await byDue(fresh)).slice(0, limits.newPerDay),
+    ];
+  }
+
+  async function modelInfo(modelName) {
+    if (!modelCache.has(modelName)) {
+      const [templates, styling] = await Promise.all([
+        anki("modelTemplates", { modelName }),
+        anki("modelStyling", { modelName }).catch(() => null),
+      ]);
+      const isCloze = Object.values(templates || {}).some(t => /\{\{[^}]*cloze:/i.test(`${t.Front}${t.Back}`));
+      modelCache.set(modelName, { templates: templates || {}, styling: styling?.css || "", isCloze });
+    }
+    return modelCache.get(modelName);
+  }
+
+  return {
+    mode: "headless",
+
+    async start(deckName) {
+      state.deckName = deckName;
+      state.queue = await buildQueue(deckName);
+      state.side = "front";
+      if (!state.queue.length) return { ok: true, started: false, empty: true, reason: "no_cards_due" };
+      return { ok: true, started: true, queued: state.queue.length };
+    },
+
+    async current() {
+      if (!state.deckName) return { ok: true, empty: true, reason: "session_not_started" };
+
+      // Drop cards that vanished (deleted, suspended or buried in Anki meanwhile)
+      while (state.queue.length) {
+        const cardId = state.queue[0];
+        const [card] = (await anki("cardsInfo", { cards: [cardId] })) || [];
+        if (!card?.cardId || card.queue < 0) { state.queue.shift(); continue; }
+
+        let frontHTML = card.question || "";
+        let backHTML = card.answer || "";
+        const model = await modelInfo(card.modelName);
+        const templateNames = Object.keys(model.templates);
+        let templateName = model.isCloze ? templateNames[0] : templateNames[card.ord] ?? "";
+        if (!frontHTML) {
+          ({ frontHTML, backHTML, templateName } = renderCard(card, model.templates, model.isCloze, model.styling));
+        }
+
+        return {
+          ok: true,
+          cardId,
+          modelName: card.modelName || "",
+          templateName: templateName || "",
+          ord: card.ord ?? 0,
+          deckName: card.deckName || state.deckName,
+          frontHTML,
+          backHTML,
+          fields: card.fields || {},
+          side: state.side,
+        };
+      }
+      return { ok: true, empty: true, reason: "queue_empty" };
+    },
+
+    async show(side) {
+      // Nothing to flip on screen; remembered so /api/current can report it
+      state.side = side;
+      return { ok: true, reviewerActive: true };
+    },
+
+    /** With cardId (a replayed grade): that card, wherever it is in the queue */
+    async answer(ease, { cardId: replayed } = {}) {
+      const cardId = replayed || state.queue[0];
+      if (!cardId) throw new Error("No current card to answer");
+
+      const [answered] = (await anki("answerCards", { answers: [{ cardId, ease }] })) || [];
+      if (answered === false) throw new Error(`Anki refused to answer card ${cardId}`);
+
+      if (state.queue[0] === cardId) state.side = "front";
+      state.queue = state.queue.filter((id) => id !== cardId);
+
+      // Failed / still-learning cards come back later in this session
+      const [card] = (await anki("cardsInfo", { cards: [cardId] })) || [];
+      if (card?.queue === QUEUE_LEARN) {
+        state.queue.push(cardId);
+      }
+      return { ok: true };
+    },
+
+    /**
+     * Takes back an answer by restoring the card's scheduling from before it (cardsInfo snapshot)
+     * and putting the card back at the front of the queue. Anki's review log keeps the entry.
+     */
+    async undo({ cardId, before }) {
+      if (!before?.cardId) return { ok: false, error: `No scheduling state of card ${cardId} to restore` };
+      const values = {
+        queue: before.queue, type: before.type, due: before.due, ivl: before.interval,
+        factor: before.factor, reps: before.reps, lapses: before.lapses, left: before.left,
+      };
+      const results = (await anki("setSpecificValueOfCard", {
+        card: cardId, keys: Object.keys(values), newValues: Object.values(values), warning_check: true,
+      })) || [];
+      if (!results.length || results.some((r) => r === false)) {
+        return { ok: false, error: `Anki refused to restore card ${cardId}` };
+      }
+      state.queue = [cardId, ...state.queue.filter((id) => id !== cardId)];
+      state.side = "front";
+      return { ok: true };
+    },
+
+    /**
+     * Skip: drop the card from this session's queue; Anki's scheduling is untouched.
+     * cardId: only skip while that card is still at the front of the queue
+     */
+    async skip(_deckName, { cardId } = {}) {
+      if (!state.queue.length) return { ok: false, error: "no_current_card" };
+      if (cardId && state.queue[0] !== Number(cardId)) return { ok: false, error: "card_changed", current: state.queue[0] };
+      const skipped = state.queue.shift();
+      state.side = "front";
+      return { ok: true, skipped };
+    },
+
+    async candidates(_deckName, limit) {
+      return state.queue.slice(1, 1 + limit);
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// server/engines/render.js
+// Minimal Anki card template renderer for the headless engine.
+// Only used when cardsInfo doesn't already carry rendered question/answer HTML.
+// Supports {{Field}}, {{FrontSide}}, {{#Field}}…{{/Field}}, {{^Field}}…{{/Field}},
+// {{text:Field}}, {{cloze:Field}}, {{hint:Field}}, {{type:Field}} and the special fields.
+
+const stripHtml = (s) => String(s || "").replace(/<[^>]*>/g, "");
+
+function fieldValue(fields, name) {
+  const v = fields?.[name];
+  if (v && typeof v === "object") return String(v.value ?? "");
+  return typeof v === "string" ? v : "";
+}
+
+// {{cN::text::hint}} for the active ordinal → [hint] / [...] on the front, highlighted text on the back
+export function renderCloze(text, clozeNumber, side) {
+  return String(text || "").replace(/\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g, (_m, n, inner, hint) => {
+    if (Number(n) !== clozeNumber) return inner;
+    if (side === "back") return `<span class="cloze">${inner}</span>`;
+    return `<span class="cloze">[${hint || "..."}]</span>`;
+  });
+}
+
+function renderSections(tpl, fields) {
+  // Innermost-first until stable, so nested sections work
+  let prev;
+  let out = tpl;
+  do {
+    prev = out;
+    out = out.replace(/\{\{([#^])\s*([^}]+?)\s*\}\}((?:(?!\{\{[#^])[\s\S])*?)\{\{\/\s*\2\s*\}\}/g, (_m, kind, name, body) => {
+      const filled = stripHtml(fieldValue(fields, name)).trim() !== "";
+      return (kind === "#") === filled ? body : "";
+    });
+  } while (out !== prev);
+  return out;
+}
+
+export function renderTemplate(tpl, { fields, side, clozeNumber, frontSide = "", extra = {} }) {
+  let out = renderSections(String(tpl || ""), fields);
+
+  out = out.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_m, expr) => {
+    const parts = expr.split(":").map(p => p.trim());
+    const name = parts.pop();
+    const filters = parts;
+
+    if (name === "FrontSide") return frontSide;
+    if (name in extra) return String(extra[name] ?? "");
+
+    let value = fieldValue(fields, name);
+    for (const f of filters.reverse()) {
+      if (f === "text") value = stripHtml(value);
+      else if (f === "cloze") value = renderCloze(value, clozeNumber, side);
+      else if (f === "type") value = "";
+      // hint, furigana, kana, kanji, tts… → plain value is good enough for speech
+    }
+    return value;
+  });
+
+  return out;
+}
+
+/**
+ * @param {object} card       cardsInfo entry (fields, ord, deckName, …)
+ * @param {object} templates  modelTemplates result: { [name]: { Front, Back } }
+ * @param {boolean} isCloze   cloze note types have one template; ord selects the cloze number
+ */
+export function renderCard(card, templates, isCloze, styling = "") {
+  const names = Object.keys(templates || {});
+  const tplName = isCloze ? names[0] : names[card.ord] ?? names[0];
+  const tpl = templates?.[tplName] || { Front: "", Back: "" };
+  const extra = {
+    Tags: (card.tags || []).join(" "),
+    Deck: card.deckName || "",
+    Subdeck: String(card.deckName || "").split("::").pop(),
+    Card: tplName || "",
+    Type: card.modelName || "",
+  };
+  const clozeNumber = (card.ord ?? 0) + 1;
+  const style = styling ? `<style>${styling}</style>` : "";
+
+  const front = renderTemplate(tpl.Front, { fields: card.fields, side: "front", clozeNumber, extra });
+  const back = renderTemplate(tpl.Back, { fields: card.fields, side: "back", clozeNumber, frontSide: front, extra });
+  return { templateName: tplName || "", frontHTML: style + front, backHTML: style + back };
+}
@@ -0,0 +1,322 @@
+// server/fakes/ankiConnect.js
+// In-process stand-in for AnkiConnect: a real HTTP server with a scriptable collection and reviewer.
+// Used by the integration tests; also handy for running the app without Anki (npm run dev:fake).
+//
+//   const anki = createFakeAnkiConnect({ decks, models, cards });
+//   process.env.ANKI_URL = await anki.listen();
+//   anki.failNext("guiCurrentCard", { reset: true });   // drop the socket once → ECONNRESET
+//   anki.calls                                         // [{ action, params }, …]
+
+import http from "node:http";
+import { renderCard } from "../engines/render.js";
+
+const BASIC = {
+  fields: ["Front", "Back"],
+  templates: { "Card 1": { Front: "{{Front}}", Back: "{{FrontSide}}<hr id=answer>{{Back}}" } },
+  css: ".card { font-family: arial; }",
+};
+const CLOZE = {
+  fields: ["Text", "Back Extra"],
+  templates: { Cloze: { Front: "{{cloze:Text}}", Back: "{{cloze:Text}}<br>{{Back Extra}}" } },
+  css: ".cloze { font-weight: bold; }",
+};
+
+// Card queues as in Anki: 0 new, 1 learning, 2 review, 3 day-learning, -1 suspended, -2/-3 buried
+export function defaultCollection() {
+  return {
+    decks: ["Default", "Pharma", "Pharma::Kardio"],
+    models: { Basic: BASIC, Cloze: CLOZE },
+    cards: [
+      { cardId: 1001, noteId: 501, deckName: "Pharma", modelName: "Basic", ord: 0, queue: 2, due: 0,
+        fields: { Front: "Was bewirkt Calciumgluconat bei Hyperkaliämie?", Back: "Membranstabilisierung am Myokard" } },
+      { cardId: 1002, noteId: 502, deckName: "Pharma::Kardio", modelName: "Cloze", ord: 1, queue: 0, due: 1,
+        fields: { Text: "{{c1::Digoxin}} hemmt die {{c2::Na/K-ATPase}}", "Back Extra": "" } },
+      { cardId: 1003, noteId: 503, deckName: "Pharma", modelName: "Basic", ord: 0, queue: 0, due: 2,
+        fields: { Front: "Antidot bei Heparin?", Back: "Protamin" } },
+      { cardId: 2001, noteId: 601, deckName: "Default", modelName: "Basic", ord: 0, queue: 2, due: 30,
+        fields: { Front: "Not due yet", Back: "—" } },
+    ],
+  };
+}
+
+// --- findCards: the subset of Anki's search syntax the server uses ---
+function tokenize(query) {
+  return String(query).match(/\(|\)|-?[a-z]+:"[^"]*"|-?[^\s()]+/gi) || [];
+}
+
+function termMatches(card, term, ctx) {
+  const neg = term.startsWith("-");
+  const t = neg ? term.slice(1) : term;
+  const [key, rawVal = ""] = t.split(/:(.*)/s);
+  const val = rawVal.replace(/^"|"$/g, "");
+  let hit;
+  switch (key.toLowerCase()) {
+    case "deck": hit = card.deckName === val || card.deckName.startsWith(`${val}::`) || val === "*"; break;
+    case "is":
+      if (val === "new") hit = card.queue === 0;
+      else if (val === "learn") hit = card.queue === 1 || card.queue === 3;
+      else if (val === "review") hit = card.queue === 2;
+      else if (val === "due") hit = (card.queue === 1 || card.queue === 2 || card.queue === 3) && card.due <= 0;
+      else if (val === "suspended") hit = card.queue === -1;
+      else if (val === "buried") hit = card.queue === -2 || card.queue === -3;
+      else hit = false;
+      break;
+    case "rated": hit = ctx.revlog.some(r => r.cardId === card.cardId); break;
+    case "introduced": hit = ctx.revlog.some(r => r.cardId === card.cardId && r.wasNew); break;
+    case "cid": hit = val.split(",").map(Number).includes(card.cardId); break;
+    case "nid": hit = val.split(",").map(Number).includes(card.noteId); break;
+    case "tag": hit = (card.tags || []).includes(val); break;
+    default: hit = true; // unknown terms don't filter
+  }
+  return neg ? !hit : hit;
+}
+
+function matchQuery(card, query, ctx) {
+  const tokens = tokenize(query);
+  let i = 0;
+  function group() {
+    // AND of terms; "OR" splits alternatives
+    const alternatives = [[]];
+    while (i < tokens.length && tokens[i] !== ")") {
+      const tok = tokens[i++];
+      if (tok === "(") { alternatives.at(-1).push(group()); i++; continue; }
+      if (tok.toUpperCase() === "OR") { alternatives.push([]); continue; }
+      alternatives.at(-1).push(termMatches(card, tok, ctx));
+    }
+    return alternatives.some(all => all.every(Boolean));
+  }
+  return group();
+}
+
+export function createFakeAnkiConnect(collection = defaultCollection(), { version = 6 } = {}) {
+  const state = {
+    ...collection,
+    cards: collection.cards.map(c => ({ tags: [], interval: 0, reps: 0, lapses: 0, ...c })),
+    media: { ...collection.media }, // filename -> base64, for retrieveMediaFile
+    revlog: [],
+    undo: [],  // what guiUndo restores: [{ revlogId, card (as before), reviewerCardId }]
+    reviewer: { active: false, deckName: null, cardId: null, side: "question" },
+    // When false, guiDeckReview leaves Anki on the deck overview (reviewer never becomes active)
+    reviewerOpensOnDeckReview: true,
+  };
+  const calls = [];
+  const failures = new Map(); // action -> [{ error } | { reset: true } | { status }]
+
+  const card = (id) => state.cards.find(c => c.cardId === Number(id));
+  const model = (name) => state.models[name] || BASIC;
+
+  function rendered(c) {
+    const m = model(c.modelName);
+    const fields = Object.fromEntries(m.fields.map((f, order) => [f, { value: c.fields[f] ?? "", order }]));
+    const isCloze = Object.values(m.templates).some(t => /cloze:/.test(t.Front));
+    const { frontHTML, backHTML, templateName } = renderCard({ ...c, fields }, m.templates, isCloze, m.css);
+    return { fields, question: frontHTML, answer: backHTML, template: templateName };
+  }
+
+  function cardInfo(c) {
+    const r = rendered(c);
+    return {
+      cardId: c.cardId, note: c.noteId, deckName: c.deckName, modelName: c.modelName, ord: c.ord,
+      fields: r.fields, question: r.question, answer: r.answer, css: model(c.modelName).css,
+      queue: c.queue, type: Math.max(0, c.queue), due: c.due, interval: c.interval,
+      reps: c.reps, lapses: c.lapses, factor: 2500, left: 0, mod: 0, tags: c.tags,
+      fieldOrder: 0,
+    };
+  }
+
+  const dueInDeck = (deckName) =>
+    state.cards
+      .filter(c => matchQuery(c, `deck:"${deckName}" (is:due OR is:new)`, state))
+      .sort((a, b) => (a.queue === 0) - (b.queue === 0) || a.due - b.due);
+
+  function schedule(c, ease) {
+    // revlog ids are epoch milliseconds, unique per review
+    const id = Math.max(Date.now(), (state.revlog.at(-1)?.id ?? 0) + 1);
+    state.revlog.push({ id, cardId: c.cardId, ease, wasNew: c.queue === 0, time: id });
+    c.reps += 1;
+    if (ease === 1) {
+      if (c.queue === 2) c.lapses += 1;
+      c.queue = 1; c.due = 0;                 // back into (intraday) learning
+    } else {
+      c.interval = Math.max(1, Math.round((c.interval || 1) * (ease === 2 ? 1.2 : ease === 3 ? 2.5 : 3.5)));
+      c.queue = 2; c.due = c.interval;        // due in the future
+    }
+  }
+
+  function advanceReviewer() {
+    const next = dueInDeck(state.reviewer.deckName)[0];
+    state.reviewer.cardId = next?.cardId ?? null;
+    state.reviewer.side = "question";
+    state.reviewer.active = !!next; // no more cards → congrats screen
+  }
+
+  const notActive = () => { throw new Error("Gui review is not currently active."); };
+
+  const actions = {
+    version: () => version,
+    deckNames: () => state.decks,
+    deckNamesAndIds: () => Object.fromEntries(state.decks.map((d, i) => [d, i + 1])),
+    getDeckConfig: () => ({ new: { perDay: 20 }, rev: { perDay: 200 } }),
+    findCards: ({ query }) => state.cards.filter(c => matchQuery(c, query, state)).map(c => c.cardId),
+    cardsInfo: ({ cards }) => (cards || []).map(id => (card(id) ? cardInfo(card(id)) : {})),
+    modelTemplates: ({ modelName }) => model(modelName).templates,
+    modelStyling: ({ modelName }) => ({ css: model(modelName).css }),
+    modelFieldNames: ({ modelName }) => model(modelName).fields,
+    getReviewsOfCards: ({ cards }) => Object.fromEntries((cards || []).map(id => [String(id),
+      state.revlog.filter(r => r.cardId === Number(id)).map(r => ({
+        id: r.id, usn: -1, ease: r.ease, ivl: 0, lastIvl: 0, factor: 2500, time: 5000, type: r.wasNew ? 0 : 1,
+      }))])),
+    // [reviewTime, cardID, usn, buttonPressed, newInterval, previousInterval, newFactor, reviewDuration, reviewType]
+    cardReviews: ({ deck, startID }) => state.revlog
+      .filter(r => r.id > startID && card(r.cardId)?.deckName === deck)
+      .map(r => [r.id, r.cardId, -1, r.ease, 0, 0, 2500, 5000, r.wasNew ? 0 : 1]),
+    notesInfo: ({ notes }) => (notes || []).map((id) => {
+      const c = state.cards.find(x => x.noteId === Number(id));
+      if (!c) return {};
+      return {
+        noteId: c.noteId, modelName: c.modelName, tags: c.tags, fields: rendered(c).fields,
+        cards: state.cards.filter(x => x.noteId === c.noteId).map(x => x.cardId),
+      };
+    }),
+    updateNoteFields: ({ note }) => {
+      const cards = state.cards.filter(c => c.noteId === Number(note?.id));
+      if (!cards.length) throw new Error(`Note was not found: ${note?.id}`);
+      for (const [name, value] of Object.entries(note.fields || {})) {
+        if (!model(cards[0].modelName).fields.includes(name)) throw new Error(`Field ${name} does not exist`);
+        for (const c of cards) c.fields = { ...c.fields, [name]: value };
+      }
+      return null;
+    },
+    addNote: ({ note }) => {
+      const m = state.models[note?.modelName];
+      if (!m) throw new Error(`model was not found: ${note?.modelName}`);
+      if (!state.decks.includes(note.deckName)) throw new Error(`deck was not found: ${note.deckName}`);
+      if (!String(note.fields?.[m.fields[0]] || "").trim()) throw new Error("cannot create note because it is empty");
+      const noteId = Math.max(...state.cards.map(c => c.noteId)) + 1;
+      const cardId = Math.max(...state.cards.map(c => c.cardId)) + 1;
+      state.cards.push({
+        cardId, noteId, deckName: note.deckName, modelName: note.modelName, ord: 0, queue: 0, due: state.cards.length,
+        fields: { ...note.fields }, tags: [...(note.tags || [])], interval: 0, reps: 0, lapses: 0,
+      });
+      return noteId;
+    },
+    addTags: ({ notes, tags }) => {
+      const add = String(tags || "").split(/\s+/).filter(Boolean);
+      for (const c of state.cards) {
+        if ((notes || []).map(Number).includes(c.noteId)) c.tags = [...new Set([...(c.tags || []), ...add])];
+      }
+      return null;
+    },
+    retrieveMediaFile: ({ filename }) => state.media[filename] ?? false,
+    buryCards: ({ cards }) => { for (const id of cards || []) if (card(id)) card(id).queue = -3; return true; },
+    answerCards: ({ answers }) => (answers || []).map(({ cardId, ease }) => {
+      const c = card(cardId);
+      if (!c || c.queue < 0) return false;
+      schedule(c, Number(ease));
+      return true;
+    }),
+
+    // Anki's undo of a reviewer answer: the review is removed and the card shown again
+    guiUndo: () => {
+      const last = state.undo.pop();
+      if (!last) return false;
+      Object.assign(card(last.card.cardId), last.card);
+      state.revlog = state.revlog.filter(r => r.id !== last.revlogId);
+      Object.assign(state.reviewer, { active: true, cardId: last.reviewerCardId, side: "question" });
+      return true;
+    },
+    setSpecificValueOfCard: ({ card: id, keys, newValues }) => {
+      const c = card(id);
+      if (!c) throw new Error(`Card ${id} not found`);
+      const field = { ivl: "interval" };
+      const known = ["queue", "type", "due", "ivl", "factor", "reps", "lapses", "left"];
+      return (keys || []).map((k, i) => {
+        if (!known.includes(k)) return false;
+        if (k !== "type" && k !== "factor" && k !== "left") c[field[k] || k] = Number(newValues[i]);
+        return true;
+      });
+    },
+
+    guiDeckReview: ({ name }) => {
+      if (!state.decks.includes(name)) return false;
+      state.reviewer.deckName = name;
+      if (state.reviewerOpensOnDeckReview) advanceReviewer();
+      else state.reviewer.active = false;
+      return true;
+    },
+    guiCurrentCard: () => {
+      if (!state.reviewer.active) notActive();
+      const c = card(state.reviewer.cardId);
+      const r = rendered(c);
+      return {
+        cardId: c.cardId, question: r.question, answer: r.answer, modelName: c.modelName, deckName: c.deckName,
+        fields: r.fields, template: r.template, buttons: [1, 2, 3, 4], nextReviews: ["<1m", "<6m", "<10m", "4d"],
+        css: model(c.modelName).css,
+      };
+    },
+    guiShowQuestion: () => { if (!state.reviewer.active) notActive(); state.reviewer.side = "question"; return true; },
+    guiShowAnswer: () => { if (!state.reviewer.active) notActive(); state.reviewer.side = "answer"; return true; },
+    guiAnswerCard: ({ ease }) => {
+      if (!state.reviewer.active) notActive();
+      if (state.reviewer.side !== "answer") return false;
+      const c = card(state.reviewer.cardId);
+      state.undo.push({ card: { ...c }, reviewerCardId: c.cardId });
+      schedule(c, Number(ease));
+      state.undo.at(-1).revlogId = state.revlog.at(-1).id;
+      advanceReviewer();
+      return true;
+    },
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (d) => { body += d; });
+    req.on("end", () => {
+      let action, params;
+      try {
+        ({ action, params = {} } = JSON.parse(body || "{}"));
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+      calls.push({ action, params });
+
+      const scripted = failures.get(action)?.shift();
+      if (scripted?.reset) { req.socket.destroy(); return; }
+      if (scripted?.status) { res.writeHead(scripted.status).end(); return; }
+
+      let out;
+      try {
+        if (scripted?.error) throw new Error(scripted.error);
+        const fn = actions[action];
+        if (!fn) throw new Error("unsupported action");
+        out = { result: fn(params) ?? null, error: null };
+      } catch (e) {
+        out = { result: null, error: e.message };
+      }
+      if (scripted?.lost) { req.socket.destroy(); return; } // done, but the reply never arrives
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(out));
+    });
+  });
+
+  return {
+    state,
+    calls,
+    /**
+     * Make the next call(s) of an action fail: { error: "msg" } | { reset: true } | { status: 503 }
+     * | { lost: true } (carried out, then the socket is dropped)
+     */
+    failNext(action, how = { reset: true }, times = 1) {
+      const list = failures.get(action) || [];
+      for (let i = 0; i < times; i++) list.push(how);
+      failures.set(action, list);
+    },
+    callsOf: (action) => calls.filter(c => c.action === action),
+    clearCalls() { calls.length = 0; },
+    async listen(port = 0) {
+      await new Promise((r) => server.listen(port, "127.0.0.1", r));
+      return `http://127.0.0.1:${server.address().port}`;
+    },
+    close: () => new Promise((r) => { server.closeAllConnections?.(); server.close(() => r()); }),
+  };
+}
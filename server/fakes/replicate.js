@@ -0,0 +1,81 @@
+// server/fakes/replicate.js
+// Stand-in for the Replicate client (run/stream) returning canned outputs in the shapes the real
+// models produce, so the Replicate provider's parsing is exercised without a token:
+// - whisper  → { text, chunks: [{ text, timestamp }] }
+// - minimax  → FileOutput-like object with url() → URL of a small audio file served locally
+// - gpt      → stream of ServerSentEvent-like { event: "output", data } objects
+//
+//   const replicate = createFakeReplicate();
+//   await replicate.listen();                              // serves the TTS "delivery" files
+//   setProviders(createReplicateProviders({ client: replicate }));
+//   replicate.script.llmText = "";                          // next replies are empty
+//   replicate.failNext("stream", new Error("boom"));
+
+import http from "node:http";
+import { silentWav } from "../providers/fake.js";
+
+const kindOf = (model) =>
+  /whisper/i.test(model) ? "stt" : /speech|tts/i.test(model) ? "tts" : "llm";
+
+export function createFakeReplicate({
+  transcript = "Membranstabilisierung",
+  llmText = 'Richtig, das ist die Membranstabilisierung.\n<verdict>{"verdict":"correct","ease":3,"missed":[],"confidence":0.92}</verdict>',
+} = {}) {
+  const script = { transcript, llmText };
+  const calls = [];
+  const failures = { run: [], stream: [] };
+  let baseUrl = null;
+  let nextFile = 0;
+  const files = new Map();
+
+  const server = http.createServer((req, res) => {
+    const body = files.get(req.url);
+    if (!body) { res.writeHead(404).end(); return; }
+    res.writeHead(200, { "content-type": "audio/wav", "content-length": body.length }).end(body);
+  });
+
+  function fileOutput(buf) {
+    const path = `/delivery/${++nextFile}/output.wav`;
+    files.set(path, buf);
+    const href = `${baseUrl || "http://127.0.0.1:9"}${path}`;
+    return { url: () => new URL(href), toString: () => href };
+  }
+
+  return {
+    script,
+    calls,
+    failNext(method, error) { failures[method].push(error); },
+
+    async run(model, { input }) {
+      calls.push({ method: "run", model, input });
+      const err = failures.run.shift();
+      if (err) throw err;
+
+      if (kindOf(model) === "stt") {
+        const text = script.transcript;
+        return { text: text ? ` ${text}` : "", chunks: text ? [{ text: ` ${text}`, timestamp: [0, 1.5] }] : [] };
+      }
+      if (kindOf(model) === "tts") return fileOutput(silentWav(200 + String(input.text || "").length * 10));
+      return [script.llmText];
+    },
+
+    async *stream(model, { input, signal }) {
+      calls.push({ method: "stream", model, input });
+      const err = failures.stream.shift();
+      if (err) throw err;
+
+      for (const part of String(script.llmText).match(/[\s\S]{1,12}/g) || []) {
+        if (signal?.aborted) return;
+        yield { event: "output", data: part, id: String(nextFile++), toString: () => part };
+      }
+      yield { event: "done", data: "{}", toString: () => "" };
+    },
+
+    async listen() {
+      await new Promise((r) => server.listen(0, "127.0.0.1", r));
+      baseUrl = `http://127.0.0.1:${server.address().port}`;
+      return baseUrl;
+    },
+    close: () => new Promise((r) => { server.closeAllConnections?.(); server.close(() => r()); }),
+  };
+}
@@ -0,0 +1,109 @@
+// server/fieldMappings.js
+// Per-note-type field roles: which fields make up the spoken prompt, the expected answer,
+// extra context for the LLM, and which are never read aloud.
+// Stored in $DATA_DIR/field-mappings.json; note types seen for the first time get a suggestion
+// built from AnkiConnect's modelFieldNames (marked suggested: true until the user saves it).
+
+import { readJsonRecord, writeJsonAtomic } from "./storage.js";
+
+export const FIELD_ROLES = ["prompt", "answer", "context", "hidden"];
+
+// Lower-cased field names, checked in order. AnKing/AnkiHub names included.
+const PROMPT_NAMES = ["front", "question", "frage", "vorderseite", "text", "prompt", "cloze", "cloze-deletion", "word", "term"];
+const ANSWER_NAMES = ["back", "answer", "antwort", "rückseite", "definition", "meaning", "back extra", "extra"];
+const CONTEXT_NAMES = [
+  "extra", "notes", "add. info", "addition", "additional resources", "lecture notes", "missed questions",
+  "explanation", "erklärung", "mnemonic", "example", "beispiel", "first aid", "pathoma", "boards and beyond",
+];
+const HIDDEN_PATTERN = /source|quelle|note ?id|ankihub|tags?$|image occlusion|sketchy|pixorize|bootcamp|amboss|one by one|personal/i;
+
+/** Heuristic roles for a note type's fields (each field gets at most one role) */
+export function suggestMapping(fieldNames = []) {
+  const byName = new Map(fieldNames.map((f) => [f.toLowerCase().trim(), f]));
+  const taken = new Set();
+  const pick = (names) => {
+    for (const n of names) {
+      const f = byName.get(n);
+      if (f && !taken.has(f)) { taken.add(f); return [f]; }
+    }
+    return [];
+  };
+
+  let prompt = pick(PROMPT_NAMES);
+  // Nothing recognizable: the first field is almost always the front
+  if (!prompt.length && fieldNames.length) { prompt = [fieldNames[0]]; taken.add(fieldNames[0]); }
+  let answer = pick(ANSWER_NAMES);
+  if (!answer.length && fieldNames.length > 1 && !taken.has(fieldNames[1]) && !HIDDEN_PATTERN.test(fieldNames[1])) {
+    answer = [fieldNames[1]];
+    taken.add(fieldNames[1]);
+  }
+
+  const hidden = fieldNames.filter((f) => !taken.has(f) && HIDDEN_PATTERN.test(f));
+  hidden.forEach((f) => taken.add(f));
+  const context = fieldNames.filter((f) => !taken.has(f) && CONTEXT_NAMES.includes(f.toLowerCase().trim()));
+
+  return { prompt, answer, context, hidden };
+}
+
+/** Validates a mapping from the client: string arrays only, each field in one role, known fields only */
+export function normalizeMapping(raw, fieldNames) {
+  const known = fieldNames ? new Set(fieldNames) : null;
+  const seen = new Set();
+  const out = {};
+  for (const role of FIELD_ROLES) {
+    const list = Array.isArray(raw?.[role]) ? raw[role] : [];
+    out[role] = list
+      .map((f) => String(f))
+      .filter((f) => (!known || known.has(f)) && !seen.has(f) && seen.add(f));
+  }
+  if (!out.prompt.length) throw Object.assign(new Error("mapping needs at least one prompt field"), { status: 400 });
+  return out;
+}
+
+export function createFieldMappingStore({ file, anki }) {
+  let loading = null; // Promise<{ modelName -> { prompt, answer, context, hidden, fieldNames, suggested, updatedAt } }>, null prototype
+  let saving = Promise.resolve();
+
+  const load = () => (loading ??= readJsonRecord(file));
+
+  async function save() {
+    const snapshot = { ...(await load()) };
+    saving = saving.then(() => writeJsonAtomic(file, snapshot)).catch((e) => console.warn("[field-mappings] save failed:", e.message));
+    return saving;
+  }
+
+  const fieldNamesOf = async (modelName) => (await anki("modelFieldNames", { modelName })) || [];
+
+  return {
+    async list() {
+      return { ...(await load()) };
+    },
+
+    /** Stored mapping, or a fresh suggestion (saved) for a note type seen for the first time */
+    async ensure(modelName) {
+      const all = await load();
+      if (Object.hasOwn(all, modelName)) return all[modelName];
+      const fieldNames = await fieldNamesOf(modelName);
+      all[modelName] = { ...suggestMapping(fieldNames), fieldNames, suggested: true, updatedAt: Date.now() };
+      await save();
+      return all[modelName];
+    },
+
+    async set(modelName, raw) {
+      const all = await load();
+      const fieldNames = await fieldNamesOf(modelName);
+      all[modelName] = { ...normalizeMapping(raw, fieldNames.length ? fieldNames : null), fieldNames, suggested: false, updatedAt: Date.now() };
+      await save();
+      return all[modelName];
+    },
+
+    /** Forget a mapping; the next ensure() suggests again */
+    async remove(modelName) {
+      const all = await load();
+      const existed = Object.hasOwn(all, modelName);
+      delete all[modelName];
+      if (existed) await save();
+      return existed;
+    },
+  };
+}
@@ -1,86 +1,317 @@
 // server/gpt.js
-import Replicate from "replicate";
-import dotenv from "dotenv";
+import { getProviders } from "./providers/index.js";
+import { createConversationStore, estimateTokens, windowStart } from "./conversations.js";
+import { dataPath } from "./storage.js";
+import { traced } from "./telemetry.js";
+import { BUILTIN_TEMPLATES, DEFAULT_TEMPLATE_ID, renderTemplate, templateVars } from "./promptTemplates.js";
+import { noteChangeInstructions, splitNoteChanges } from "./noteChanges.js";
 
-dotenv.config();
 
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN,
-});
+// ----- Verdict (machine-readable grading) -----
+const VERDICTS = ["correct", "partial", "wrong"];
+const EASE_FOR_VERDICT = { correct: 3, partial: 2, wrong: 1 };
 
-const DEFAULT_MODEL = "openai/gpt-4.1";
+// Returned whenever the model's verdict block is missing or unusable.
+// ease stays null so nothing downstream grades on a guess.
+const FALLBACK_VERDICT = Object.freeze({ verdict: "unknown", ease: null, missed: [], confidence: 0, valid: false });
 
+const VERDICT_INSTRUCTIONS = `
+After your feedback, append exactly one machine-readable block on its own line, and nothing after it:
+<verdict>{"verdict": "correct" | "partial" | "wrong", "ease": 1-4, "missed": ["key point the learner missed", ...], "confidence": 0.0-1.0}</verdict>
+- ease follows Anki: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy (only for a complete, fluent answer)
+- missed lists short key points from the back that the learner did not mention (empty if none)
+- confidence is how sure you are about the verdict given the transcript quality`;
+
+/**
+ * Validate whatever the model put into its verdict block.
+ * Unknown verdicts, out-of-range eases and junk in "missed" are coerced or dropped;
+ * anything that can't be salvaged yields FALLBACK_VERDICT.
+ */
+export function normalizeVerdict(raw) {
+  if (!raw || typeof raw !== "object") return { ...FALLBACK_VERDICT };
+
+  const verdict = String(raw.verdict || "").trim().toLowerCase();
+  if (!VERDICTS.includes(verdict)) return { ...FALLBACK_VERDICT };
+
+  let ease = Math.round(Number(raw.ease));
+  if (![1, 2, 3, 4].includes(ease)) ease = EASE_FOR_VERDICT[verdict];
+
+  const missed = (Array.isArray(raw.missed) ? raw.missed : [])
+    .filter(m => typeof m === "string" && m.trim())
+    .map(m => m.trim())
+    .slice(0, 10);
+
+  let confidence = Number(raw.confidence);
+  if (!Number.isFinite(confidence)) confidence = 0.5;
+  confidence = Math.min(1, Math.max(0, confidence));
+
+  return { verdict, ease, missed, confidence, valid: true };
+}
+
+/**
+ * Split a raw model reply into the Markdown feedback and the parsed verdict.
+ * Accepts <verdict>{…}</verdict> (what we ask for) and, as a fallback,
+ * a trailing ```json fenced block.
+ */
+export function splitVerdict(text) {
+  const s = String(text || "");
+
+  const tagged = s.match(/<verdict>\s*([\s\S]*?)\s*<\/verdict>\s*$/i) || s.match(/<verdict>\s*([\s\S]*?)\s*<\/verdict>/i);
+  const fenced = !tagged && s.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```\s*$/i);
+  const m = tagged || fenced;
+  if (!m) return { reply: s.trim(), verdict: { ...FALLBACK_VERDICT } };
+
+  let parsed = null;
+  try { parsed = JSON.parse(m[1]); } catch {}
+
+  const reply = (s.slice(0, m.index) + s.slice(m.index + m[0].length)).trim();
+  return { reply, verdict: normalizeVerdict(parsed) };
+}
+
+/**
+ * Wraps an onToken callback so tagged blocks (<verdict>…</verdict>, <note-change>…</note-change>)
+ * never reach the client while streaming; text after a block's closing tag is passed on again.
+ * Text that could still turn out to be the start of the marker is held back until the next chunk
+ * proves otherwise.
+ */
+function createTrailingBlockFilter(onToken, MARKER = "<verdict>") {
+  const CLOSE = MARKER.replace("<", "</");
+  let text = "";
+  let emitted = 0; // text before this was passed on or belongs to a block
+  let inBlock = false;
+
+  return (chunk) => {
+    text += chunk;
+    if (!onToken) return;
+    const lower = text.toLowerCase();
+
+    for (;;) {
+      if (inBlock) {
+        const end = lower.indexOf(CLOSE, emitted);
+        if (end < 0) return;
+        inBlock = false;
+        emitted = end + CLOSE.length;
+      }
+      const at = lower.indexOf(MARKER, emitted);
+      let safeEnd = text.length;
+      if (at >= 0) {
+        safeEnd = at;
+      } else {
+        // hold back a possible partial marker at the end ("…<ver")
+        for (let k = Math.min(MARKER.length - 1, text.length - emitted); k > 0; k--) {
+          if (MARKER.startsWith(lower.slice(-k))) { safeEnd = text.length - k; break; }
+        }
+      }
+      if (safeEnd > emitted) {
+        onToken(text.slice(emitted, safeEnd));
+        emitted = safeEnd;
+      }
+      if (at < 0) return;
+      inBlock = true;
+      emitted = at + MARKER.length;
+    }
+  };
+}
+
+// Drain an LLM stream into a string; onToken sees each chunk, signal stops early.
+// Traced as an "llm" span named by purpose, with time to first token and token estimates.
+async function collectStream(request, { onToken, signal, purpose = "llm" } = {}) {
+  const llm = getProviders().llm;
+  const prompt = [request.system, ...request.messages.map(m => m.content)].join("\n");
+  return traced("llm", purpose, async (span) => {
+    span.set({ provider: llm.name, chars: prompt.length, tokensIn: estimateTokens(prompt) });
+    let out = "";
+    try {
+      for await (const chunk of llm.stream({ ...request, signal })) {
+        if (signal?.aborted) break;
+        span.firstToken();
+        out += chunk;
+        onToken?.(chunk);
+      }
+    } finally {
+      span.set({ tokensOut: estimateTokens(out), aborted: !!signal?.aborted });
+    }
+    return out;
+  });
+}
+
+// Deck profiles may pin the feedback language; "auto" leaves it to the model (usually the card's language)
+function languageInstruction(feedbackLanguage) {
+  if (!feedbackLanguage || feedbackLanguage === "auto") return "";
+  return `\n- Write all feedback in ${feedbackLanguage}, regardless of the card's language.`;
+}
 
 // ----- One-shot review -----
-export async function reviewChat({ front, back, transcript, extras }) {
-  const sys = extras?.system ||
-`You are a helpful anki card review assistant.
-- Compare the learner's spoken answer to the card's front/back and the expected reply from the cards back.
-- Be concise. Then judge the correctness of the students answer.
-- Then give a short explanation and the correct answer if needed.
-- If it's a cloze, reveal the cloze succinctly and always show the full original back part `;
-
-  const user = `Card front:\n${front}\n\nCard back:\n${back || "(none)"}\n\nLearner said:\n${transcript}`;
-
-  const input = {
-    top_p: 1,
-    temperature: 0.2,
-    presence_penalty: 0,
-    frequency_penalty: 0,
-    max_completion_tokens: 1024,
-    system_prompt: sys,
+/**
+ * System prompt and user message of an evaluation, rendered from a prompt template
+ * (see promptTemplates.js). The verdict format and the feedback language are always appended.
+ */
+export function buildReviewPrompt({ template = BUILTIN_TEMPLATES[DEFAULT_TEMPLATE_ID], front, back, context, transcript, deckName, feedbackLanguage }) {
+  const vars = templateVars(template, { front, back, context, transcript, deckName, feedbackLanguage });
+  return {
+    system: renderTemplate(template.reviewSystem, vars) + languageInstruction(feedbackLanguage) + VERDICT_INSTRUCTIONS,
+    user: renderTemplate(template.reviewUser, vars),
+  };
+}
+
+// onToken(delta) streams the visible feedback (verdict block excluded); signal aborts generation
+// context: extra note fields (explanations, notes) the learner isn't expected to say
+export async function reviewChat({ front, back, context, transcript, feedbackLanguage, deckName, template, onToken, signal }) {
+  const { system, user } = buildReviewPrompt({ template, front, back, context, transcript, deckName, feedbackLanguage });
+
+  const request = {
+    system,
     messages: [
       { role: "user", content: user }
-    ]
+    ],
+    temperature: 0.2,
+    maxTokens: 1024,
   };
 
-  let outputText = "";
-  for await (const event of replicate.stream(DEFAULT_MODEL, { input })) {
-    outputText += event.toString();
+  const outputText = await collectStream(request, { onToken: createTrailingBlockFilter(onToken), signal, purpose: "review" });
+  return { ...splitVerdict(outputText), aborted: !!signal?.aborted };
+}
+
+/** The tutor's system prompt; an explicit `system` wins over the template */
+export function buildTutorSystem({ template = BUILTIN_TEMPLATES[DEFAULT_TEMPLATE_ID], system, deckName, feedbackLanguage }) {
+  const vars = templateVars(template, { deckName, feedbackLanguage });
+  return (system || renderTemplate(template.tutorSystem, vars)) + languageInstruction(feedbackLanguage);
+}
+
+// ----- Conversation manager (persistent, see conversations.js) -----
+const HOUR_MS = 60 * 60 * 1000;
+let store = null;
+// Created on first use so a .env loaded after import still applies
+const conversations = () => (store ??= createConversationStore({
+  file: dataPath("conversations.json"),
+  ttlMs: Number(process.env.CONVERSATION_TTL_HOURS || 24) * HOUR_MS,
+  maxSessions: Number(process.env.CONVERSATION_MAX_SESSIONS || 50),
+}));
+
+// Tokens of history sent per turn (system prompt and card context excluded); older turns are summarized
+const tokenBudget = () => Number(process.env.CONVERSATION_TOKEN_BUDGET || 3000);
+
+const SUMMARY_SYSTEM = `Summarize this tutoring conversation for your own later reference.
+Keep what was explained, what the learner got wrong or asked about, and any open questions.
+Plain sentences, at most 150 words, same language as the conversation.`;
+
+// Folds the messages that left the window into the running summary; on failure they are just dropped
+async function summarize(previous, messages, signal) {
+  const transcript = messages.map(m => `${m.role === "user" ? "Learner" : "Tutor"}: ${m.content}`).join("\n\n");
+  const user = (previous ? `Summary so far:\n${previous}\n\n` : "") + `Conversation:\n${transcript}`;
+  try {
+    const out = await collectStream({
+      system: SUMMARY_SYSTEM,
+      messages: [{ role: "user", content: user }],
+      temperature: 0.2,
+      maxTokens: 400,
+    }, { signal, purpose: "summary" });
+    return out.trim() || previous;
+  } catch (e) {
+    if (!signal?.aborted) console.warn("[conversation] summary failed, windowing only:", e.message);
+    return previous;
   }
-  return outputText.trim();
 }
 
-// ----- Conversation manager (in-memory) -----
-const sessions = new Map(); // sessionId -> { messages: [...] }
+// What the model sees: system (+ summary), the pinned card context, then the newest turns that fit
+async function requestFor(sess, signal) {
+  const pinned = sess.messages.slice(0, sess.pinned);
+  const rest = sess.messages.slice(sess.pinned);
+  const summaryCost = sess.summary ? estimateTokens(sess.summary) : 0;
+  const start = windowStart(rest, Math.max(0, tokenBudget() - summaryCost));
+
+  if (start > sess.summarizedCount) {
+    sess.summary = await summarize(sess.summary, rest.slice(sess.summarizedCount, start), signal);
+    sess.summarizedCount = start;
+  }
+  const summary = sess.summary ? `\n\nSummary of the earlier conversation:\n${sess.summary}` : "";
+  // Built per request: the note's fields change when one of the tutor's proposals is applied
+  const noteInstructions = sess.note ? noteChangeInstructions(sess.note) : "";
+  return {
+    system: sess.system + noteInstructions + summary,
+    messages: [...pinned, ...rest.slice(start)].map(({ role, content }) => ({ role, content })),
+    temperature: 0.5,
+    maxTokens: 1024,
+  };
+}
 
-export function startConversation({ sessionId, system, seedContext }) {
-  const msg = [
-    { role: "system", content: system || "You are a friendly tutor. Stay concise, encourage active recall." }
-  ];
+/**
+ * note: the discussed note ({ noteId, cardId, modelName, deckName, fields, tags }), if known;
+ * the tutor may then propose changes to it (see noteChanges.js)
+ */
+export async function startConversation({ sessionId, system, seedContext, feedbackLanguage, deckName, template, note }) {
+  const ts = Date.now();
+  const messages = [];
   if (seedContext) {
-    msg.push({ role: "user", content: `Context:\n${seedContext}` });
-    msg.push({ role: "assistant", content: "Got it. What would you like to discuss?" });
+    messages.push({ role: "user", content: `Context:\n${seedContext}`, ts });
+    messages.push({ role: "assistant", content: "Got it. What would you like to discuss?", ts });
   }
-  sessions.set(sessionId, { messages: msg });
+  await conversations().put({
+    sessionId,
+    deckName: deckName || null,
+    system: buildTutorSystem({ template, system, deckName, feedbackLanguage }),
+    note: note || null,
+    messages,
+    pinned: messages.length,
+    summary: null,
+    summarizedCount: 0,
+    createdAt: ts,
+  });
   return { ok: true };
 }
 
-export function resetConversation({ sessionId }) {
-  sessions.delete(sessionId);
+export async function resetConversation({ sessionId }) {
+  await conversations().remove(sessionId);
   return { ok: true };
 }
 
-export async function sendConversation({ sessionId, user }) {
-  const sess = sessions.get(sessionId);
+export async function sendConversation({ sessionId, user, onToken, signal }) {
+  const sess = await conversations().get(sessionId);
   if (!sess) throw new Error("No conversation session; call /conversation/start first.");
-  sess.messages.push({ role: "user", content: user });
+  sess.messages.push({ role: "user", content: user, ts: Date.now() });
 
-  const input = {
-    top_p: 1,
-    temperature: 0.5,
-    presence_penalty: 0,
-    frequency_penalty: 0,
-    max_completion_tokens: 1024,
-    system_prompt: sess.messages.find(m => m.role === "system")?.content || "",
-    messages: sess.messages.filter(m => m.role !== "system")
-  };
+  const request = await requestFor(sess, signal);
 
-  let reply = "";
-  for await (const event of replicate.stream(DEFAULT_MODEL, { input })) {
-    reply += event.toString();
-  }
+  // An aborted reply is kept as far as it got, so the history matches what the learner saw
+  const raw = await collectStream(request, {
+    onToken: sess.note ? createTrailingBlockFilter(onToken, "<note-change>") : onToken,
+    signal,
+    purpose: "conversation",
+  });
+  // Proposed note changes are returned to the caller, not kept in the transcript
+  const { reply, changes } = sess.note ? splitNoteChanges(raw) : { reply: raw, changes: [] };
+
+  sess.messages.push({ role: "assistant", content: reply, ts: Date.now() });
+  await conversations().put(sess);
+  return { reply, changes, note: sess.note || null, aborted: !!signal?.aborted };
+}
+
+/** Replaces the discussed note once a change to it was applied; false if the conversation is gone */
+export async function updateConversationNote({ sessionId, note }) {
+  const sess = await conversations().get(sessionId);
+  if (!sess?.note) return false;
+  await conversations().put({ ...sess, note });
+  return true;
+}
+
+/** Full transcript of a session (the card context included), or null if unknown/expired */
+export async function getConversation({ sessionId }) {
+  const sess = await conversations().get(sessionId);
+  if (!sess) return null;
+  const { system, summarizedCount, note, ...rest } = sess;
+  return rest;
+}
+
+export const listConversations = () => conversations().list();
 
-  sess.messages.push({ role: "assistant", content: reply });
-  return { reply };
+/** Transcript as Markdown, for the export endpoint */
+export function conversationToMarkdown(conv) {
+  const lines = [`# Conversation ${conv.sessionId}`, ""];
+  if (conv.deckName) lines.push(`Deck: ${conv.deckName}`, "");
+  conv.messages.forEach((m, i) => {
+    const who = i < conv.pinned ? "Context" : m.role === "user" ? "Learner" : "Tutor";
+    lines.push(`## ${who} · ${new Date(m.ts).toISOString()}`, "", m.content, "");
+  });
+  if (conv.summary) lines.push("## Summary of older turns", "", conv.summary, "");
+  return lines.join("\n");
 }
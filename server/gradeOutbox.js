@@ -0,0 +1,164 @@
+// server/gradeOutbox.js
+// Durable outbox for grades. Every grade is written to $DATA_DIR/grade-outbox.json before it is
+// sent, so one given while Anki is unreachable (closed, restarting, AnkiConnect hanging) survives
+// until it can be delivered: in submission order, with exponential backoff, and right away once
+// the connection is back (flush({ force: true })).
+// A card is never graded twice: grades carry a client gradeId (delivered ids are remembered), a card
+// has at most one pending grade, and deliver() is told when an earlier attempt may already have
+// reached Anki (attempts > 1) so it can check before replaying.
+// Item: { gradeId, cardId, ease, attempt, meta, submittedAt, attempts, nextAttemptAt, lastError }
+
+import crypto from "node:crypto";
+import { readJson, writeJsonAtomic } from "./storage.js";
+
+const KEEP_DELIVERED = 200; // gradeIds remembered for deduplication
+const KEEP_FAILED = 20;     // grades Anki refused, for the status
+
+export function createGradeOutbox({ file, deliver, isConnectionError, baseDelayMs = 1000, maxDelayMs = 60_000, now = Date.now }) {
+  let loading = null; // Promise<{ pending, delivered, failed }>
+  let saving = Promise.resolve();
+  let flushing = Promise.resolve();
+  let timer = null;
+  let inFlight = null;        // gradeId being delivered right now
+  const waiting = new Set();  // gradeIds whose submit() is waiting for the outcome
+  const results = new Map();  // gradeId -> outcome, for those
+  const listeners = new Set();
+
+  const load = () => (loading ??= readJson(file, {}).then((s) => ({
+    pending: s.pending || [],
+    delivered: s.delivered || [],
+    failed: s.failed || [],
+  })));
+
+  async function save() {
+    const snapshot = structuredClone(await load());
+    saving = saving.then(() => writeJsonAtomic(file, snapshot)).catch((e) => console.warn("[grade-outbox] save failed:", e.message));
+    return saving;
+  }
+
+  function summary(state) {
+    return {
+      pending: state.pending.length,
+      nextAttemptAt: state.pending[0]?.nextAttemptAt || null,
+      lastError: state.pending[0]?.lastError || null,
+      items: state.pending.map(({ gradeId, cardId, ease, submittedAt, attempts, lastError }) =>
+        ({ gradeId, cardId, ease, submittedAt, attempts, lastError })),
+      failed: state.failed.map(({ gradeId, cardId, ease, submittedAt, lastError, failedAt }) =>
+        ({ gradeId, cardId, ease, submittedAt, error: lastError, failedAt })),
+    };
+  }
+
+  function changed(state) {
+    const s = summary(state);
+    for (const fn of listeners) fn(s);
+  }
+
+  // Wakes up for the head of the queue; later items wait behind it anyway
+  function schedule(state) {
+    clearTimeout(timer);
+    timer = null;
+    if (!state.pending.length) return;
+    const delay = Math.max(0, (state.pending[0].nextAttemptAt || 0) - now());
+    timer = setTimeout(() => { flush(); }, delay);
+    timer.unref?.();
+  }
+
+  async function run(force) {
+    const state = await load();
+    while (state.pending.length) {
+      const item = state.pending[0];
+      if (!force && item.nextAttemptAt > now()) break;
+
+      // Counted before sending: after a crash mid-delivery the replay knows to check first
+      item.attempts++;
+      await save();
+      inFlight = item.gradeId;
+      try {
+        const out = await deliver(item);
+        state.pending.shift();
+        state.delivered = [...state.delivered, item.gradeId].slice(-KEEP_DELIVERED);
+        if (waiting.has(item.gradeId)) results.set(item.gradeId, { ok: true, ...out });
+      } catch (e) {
+        const error = String(e.message || e);
+        if (isConnectionError(e)) {
+          item.lastError = error;
+          item.nextAttemptAt = now() + Math.min(maxDelayMs, baseDelayMs * 2 ** (item.attempts - 1));
+          break; // the rest waits: grades reach Anki in the order they were given
+        }
+        state.pending.shift();
+        state.failed = [...state.failed, { ...item, lastError: error, failedAt: now() }].slice(-KEEP_FAILED);
+        if (waiting.has(item.gradeId)) results.set(item.gradeId, { ok: false, error });
+        console.warn(`[grade-outbox] card ${item.cardId} not graded:`, error);
+      } finally {
+        inFlight = null;
+      }
+    }
+    await save();
+    schedule(state);
+    changed(state);
+  }
+
+  /** Sends what is due (everything with force), one run at a time */
+  function flush({ force = false } = {}) {
+    flushing = flushing.then(() => run(force)).catch((e) => console.warn("[grade-outbox] flush failed:", e.message));
+    return flushing;
+  }
+
+  return {
+    flush,
+
+    /**
+     * Queues a grade and tries to send it. Resolves with deliver()'s result, with
+     * { ok: true, queued: true, pending } while Anki is unreachable, or { ok: false, error }
+     * when Anki refused the grade.
+     */
+    async submit({ gradeId, cardId, ease, attempt, meta }) {
+      const state = await load();
+      const id = gradeId ? String(gradeId) : crypto.randomUUID();
+      if (state.delivered.includes(id)) return { ok: true, duplicate: true };
+      const queued = state.pending.find((p) => p.gradeId === id || p.cardId === cardId);
+      if (queued) return { ok: true, queued: true, duplicate: true, pending: state.pending.length };
+
+      state.pending.push({
+        gradeId: id, cardId, ease, attempt, meta,
+        submittedAt: now(), attempts: 0, nextAttemptAt: 0, lastError: null,
+      });
+      await save();
+      changed(state);
+      waiting.add(id);
+      await flush();
+      waiting.delete(id);
+
+      const out = results.get(id);
+      results.delete(id);
+      if (out) return out;
+      const item = state.pending.find((p) => p.gradeId === id);
+      return { ok: true, queued: true, pending: state.pending.length, error: item?.lastError || undefined };
+    },
+
+    /**
+     * Takes back the latest grade that has not been sent yet (null if none, or it is being sent).
+     * One whose earlier reply was lost may still have reached Anki; /api/stats/anki-check shows it.
+     */
+    async cancelLast() {
+      const state = await load();
+      const item = state.pending.at(-1);
+      if (!item || item.gradeId === inFlight) return null;
+      state.pending.pop();
+      await save();
+      schedule(state);
+      changed(state);
+      return item;
+    },
+
+    async status() {
+      return summary(await load());
+    },
+
+    /** fn(status) after every change; returns an unsubscribe function */
+    onChange(fn) {
+      listeners.add(fn);
+      return () => listeners.delete(fn);
+    },
+  };
+}
@@ -0,0 +1,144 @@
+// server/history.js
+// Append-only review history: one JSON line per graded attempt in $DATA_DIR/history.jsonl.
+// Record: { id, ts, cardId, noteId, deckName, modelName, transcript, feedback, verdict, ease, latencyMs,
+//           sessionId, sessionDeck, sessionMode, timings }
+// - latencyMs: end of the front's playback → start of the spoken answer (null if not measured)
+// - timings: client-measured round trips { sttMs: [], llmMs: [], ttsMs: [], discussMs }
+// The file is read once and then kept in memory; appends are serialized.
+// A line { removed: id } takes back an earlier record (an undone grade); the file stays append-only.
+
+import crypto from "node:crypto";
+import path from "node:path";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+
+const MAX_TEXT = 8000; // cap transcript / feedback per record
+
+const clip = (v) => (typeof v === "string" ? v.slice(0, MAX_TEXT) : null);
+const numOrNull = (v) => (v == null || v === "" || !Number.isFinite(Number(v)) ? null : Number(v));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Accepts epoch ms or anything Date can parse ("2025-03-01", ISO); null when absent/invalid.
+ * endOfDay: a bare date means the end of that day (for inclusive "to" filters).
+ */
+export function parseTime(v, { endOfDay = false } = {}) {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  const t = Number.isFinite(n) ? n : Date.parse(String(v));
+  if (!Number.isFinite(t)) return null;
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(String(v)) ? t + DAY_MS - 1 : t;
+}
+
+const msList = (v) => (Array.isArray(v) ? v.map(numOrNull).filter((x) => x != null && x >= 0).slice(0, 50) : []);
+
+function normalizeTimings(t) {
+  if (!t || typeof t !== "object") return null;
+  return { sttMs: msList(t.sttMs), llmMs: msList(t.llmMs), ttsMs: msList(t.ttsMs), discussMs: numOrNull(t.discussMs) };
+}
+
+const inDeck = (deckName, filter) => deckName === filter || String(deckName || "").startsWith(`${filter}::`);
+
+export function createHistoryStore({ file }) {
+  let loading = null; // Promise<record[]> (oldest first)
+  let writing = Promise.resolve();
+
+  const load = () => (loading ??= (async () => {
+    let text = "";
+    try {
+      text = await readFile(file, "utf8");
+    } catch (e) {
+      if (e.code !== "ENOENT") console.warn("[history] unreadable, starting empty:", e.message);
+      return [];
+    }
+    const records = [];
+    const removed = new Set();
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const r = JSON.parse(line);
+        if (r.removed) removed.add(r.removed);
+        else records.push(r);
+      } catch { /* torn last line after a crash */ }
+    }
+    return removed.size ? records.filter((r) => !removed.has(r.id)) : records;
+  })());
+
+  function write(line) {
+    writing = writing
+      .then(() => mkdir(path.dirname(file), { recursive: true }))
+      .then(() => appendFile(file, JSON.stringify(line) + "\n"))
+      .catch((e) => console.warn("[history] append failed:", e.message));
+    return writing;
+  }
+
+  return {
+    async append(raw) {
+      const records = await load();
+      const record = {
+        id: crypto.randomUUID(),
+        ts: parseTime(raw.ts) ?? Date.now(),
+        cardId: numOrNull(raw.cardId),
+        noteId: numOrNull(raw.noteId),
+        deckName: raw.deckName || null,
+        modelName: raw.modelName || null,
+        transcript: clip(raw.transcript),
+        feedback: clip(raw.feedback),
+        verdict: raw.verdict || null,
+        ease: numOrNull(raw.ease),
+        latencyMs: numOrNull(raw.latencyMs),
+        sessionId: raw.sessionId || null,
+        sessionDeck: raw.sessionDeck || null,
+        sessionMode: raw.sessionMode || null,
+        timings: normalizeTimings(raw.timings),
+      };
+      records.push(record);
+      await write(record);
+      return record;
+    },
+
+    /** Drops a record (its grade was undone); false if there is none with that id */
+    async remove(id) {
+      const records = await load();
+      const i = records.findIndex((r) => r.id === id);
+      if (i < 0) return false;
+      records.splice(i, 1);
+      await write({ removed: id, ts: Date.now() });
+      return true;
+    },
+
+    /**
+     * Newest first. Filters: cardId, noteId, deckName (includes subdecks), sessionId,
+     * from/to (epoch ms or date string), limit (at most 1000)
+     */
+    async query({ limit = 100, ...filters } = {}) {
+      return select(await load(), filters, Math.max(1, Math.min(1000, Number(limit) || 100)));
+    },
+
+    /** Every matching record, newest first, for aggregates (stats); same filters as query */
+    async queryAll(filters = {}) {
+      return select(await load(), filters, Infinity);
+    },
+  };
+}
+
+// Newest first, up to max
+function select(records, { cardId, noteId, deckName, sessionId, from, to } = {}, max) {
+  const card = numOrNull(cardId);
+  const note = numOrNull(noteId);
+  const fromTs = parseTime(from);
+  const toTs = parseTime(to, { endOfDay: true });
+
+  const out = [];
+  for (let i = records.length - 1; i >= 0 && out.length < max; i--) {
+    const r = records[i];
+    if (card != null && r.cardId !== card) continue;
+    if (note != null && r.noteId !== note) continue;
+    if (deckName && !inDeck(r.deckName, deckName)) continue;
+    if (sessionId && r.sessionId !== sessionId) continue;
+    if (fromTs != null && r.ts < fromTs) continue;
+    if (toTs != null && r.ts > toTs) continue;
+    out.push(r);
+  }
+  return out;
+}
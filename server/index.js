@@ -1,82 +1,122 @@
 // server/index.js
 // Requires Node 18+ (built-in fetch)
 
-import http from "node:http";
+import crypto from "node:crypto";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import express from "express";
 import cors from "cors";
 import morgan from "morgan";
 import dotenv from "dotenv";
-import Replicate from "replicate";
-import { reviewChat, startConversation, sendConversation, resetConversation } from "./gpt.js";
-import FormData from "form-data";
+import {
+  reviewChat, startConversation, sendConversation, resetConversation, updateConversationNote,
+  getConversation, listConversations, conversationToMarkdown, buildReviewPrompt, buildTutorSystem,
+} from "./gpt.js";
+import { getProviders } from "./providers/index.js";
+import { createTtsCache, isCacheHash } from "./ttsCache.js";
+import { dataPath } from "./storage.js";
+import { ankiConnected, ankiInvoke, isConnectionError, onAnkiConnectionChange } from "./anki.js";
+import { cardSounds, createMediaCache, isMediaName, mediaContentType } from "./cardMedia.js";
+import { createFieldMappingStore } from "./fieldMappings.js";
+import { createDeckProfileStore, DEFAULT_PROFILE, sttLanguageOf } from "./deckProfiles.js";
+import { createGradeOutbox } from "./gradeOutbox.js";
+import { createHistoryStore } from "./history.js";
+import { createNoteChangeStore } from "./noteChanges.js";
+import { createPromptTemplateStore, normalizeTemplate, PLACEHOLDERS, STRICTNESS_LEVELS } from "./promptTemplates.js";
+import { buildStats, compareWithRevlog } from "./stats.js";
+import { splitForSpeech } from "./speechChunks.js";
+import { audioDurationMs, metricsPrometheus, metricsSnapshot, traced, traceMiddleware, traceSpans } from "./telemetry.js";
+import { createGuiEngine } from "./engines/gui.js";
+import { createHeadlessEngine } from "./engines/headless.js";
 
 
 dotenv.config();
 
-const ANKI_URL = process.env.ANKI_URL || "http://127.0.0.1:8765";
 const PORT = process.env.PORT || 4000;
 
-const app = express();
-app.use(cors());
+export const app = express();
+app.use(cors({ exposedHeaders: ["X-Trace-Id"] }));
 app.use(express.json({ limit: "20mb" }));
-app.use(morgan("dev"));
-
-// Disable keep-alive to reduce ECONNRESET / "socket hang up" on localhost
-const agent = new http.Agent({ keepAlive: false });
+app.use(traceMiddleware); // after the body parser, so the trace context survives into the handlers
+if (process.env.NODE_ENV !== "test") app.use(morgan("dev"));
+
+// Session engines: "gui" drives the desktop reviewer, "headless" keeps its own queue via data APIs
+const engines = {
+  gui: createGuiEngine({ anki: ankiInvoke }),
+  headless: createHeadlessEngine({ anki: ankiInvoke }),
+};
+let engine = engines[process.env.SESSION_MODE] || engines.gui;
+let session = null; // { id, deckName, mode, startedAt } of the last /api/start; tags history records
+
+const ttsCache = createTtsCache({
+  dir: process.env.TTS_CACHE_DIR || dataPath("tts-cache"),
+  maxBytes: Number(process.env.TTS_CACHE_MAX_MB || 500) * 1024 * 1024,
+});
 
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN   // put your token in .env
+// Chunked TTS: at most this many synthesis calls run at once (across all requests)
+const synthesisSlots = createLimiter(Math.max(1, Number(process.env.TTS_CONCURRENCY || 3)));
+
+const fieldMappings = createFieldMappingStore({ file: dataPath("field-mappings.json"), anki: ankiInvoke });
+const deckProfiles = createDeckProfileStore({ file: dataPath("deck-profiles.json") });
+const history = createHistoryStore({ file: dataPath("history.jsonl") });
+const promptTemplates = createPromptTemplateStore({ file: dataPath("prompt-templates.json") });
+const noteChanges = createNoteChangeStore({
+  file: dataPath("note-changes.jsonl"),
+  proposalsFile: dataPath("note-change-proposals.json"),
+  anki: ankiInvoke,
 });
+const media = createMediaCache({ anki: ankiInvoke, maxBytes: Number(process.env.MEDIA_CACHE_MAX_MB || 64) * 1024 * 1024 });
+
+/**
+ * Sends one grade to Anki and records it in the history. A replay (attempts > 1) checks the card's
+ * revlog first, since an earlier attempt that timed out may have reached Anki after all, and then
+ * answers that card even if the reviewer has moved on.
+ */
+async function deliverGrade({ gradeId, cardId, ease, attempt, meta, submittedAt, attempts }) {
+  let answeredAt = Date.now(); // before Anki writes its revlog entry, so the two can be matched
+  let out = null;
+  if (attempts > 1) {
+    const reviews = (await ankiInvoke("getReviewsOfCards", { cards: [cardId] }))?.[cardId] || [];
+    if (reviews.some((r) => r.id >= submittedAt)) {
+      answeredAt = submittedAt;
+      out = { ok: true, alreadyRecorded: true };
+    }
+  }
+  // Looked up before answering; headless answering may move the card out of the session.
+  // Once the grade is already in, this is the state after it, so it cannot serve as undo snapshot.
+  const info = await ankiInvoke("cardsInfo", { cards: [cardId] }).then(r => r?.[0]).catch(() => null);
+  if (!out) {
+    answeredAt = Date.now();
+    out = await (engines[meta?.sessionMode] || engine).answer(ease, attempts > 1 ? { cardId } : undefined);
+  }
+  if (out.ok !== false) {
+    const record = await history.append({
+      ...attempt,
+      ts: answeredAt,
+      cardId,
+      noteId: info?.note,
+      deckName: info?.deckName,
+      modelName: info?.modelName,
+      ease,
+      ...meta,
+    }).catch((e) => console.warn("[history] not recorded:", e.message));
+    undoStack.push({
+      gradeId, cardId, ease, answeredAt, before: out.alreadyRecorded ? null : info,
+      mode: meta?.sessionMode || engine.mode, historyId: record?.id,
+    });
+    if (undoStack.length > UNDO_DEPTH) undoStack.shift();
+  }
+  return out;
+}
 
-const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+// Delivered grades that can still be taken back, latest last
+const UNDO_DEPTH = 10;
+const undoStack = [];
 
-// find first http(s) URL anywhere (prefer .mp3)
-function findAnyUrl(node) {
-  const urls = [];
-  (function walk(v) {
-    if (v == null) return;
-    if (typeof v === "string") { if (/^https?:\/\//i.test(v)) urls.push(v); return; }
-    if (Array.isArray(v)) { v.forEach(walk); return; }
-    if (typeof v === "object") { Object.values(v).forEach(walk); }
-  })(node);
-  const mp3 = urls.find(u => /\.mp3(\?|$)/i.test(u));
-  return mp3 || urls[0] || null;
-}
+const gradeOutbox = createGradeOutbox({ file: dataPath("grade-outbox.json"), deliver: deliverGrade, isConnectionError });
 
-// Normalize any model output to a string URL
-function normalizeUrlFromOutput(out) {
-  // Case 0: some SDK builds expose a function url() → URL or string
-  if (out && typeof out === "object" && typeof out.url === "function") {
-    try {
-      const u = out.url();
-      if (u && typeof u === "object" && typeof u.href === "string") return u.href; // URL instance
-      if (typeof u === "string") return u;
-    } catch {}
-  }
-
-  // Case 1: directly a string
-  if (typeof out === "string") return out;
-
-  // Case 2: array of strings
-  if (Array.isArray(out)) return out[0] || null;
-
-  // Case 3: object with url/audio/output
-  if (out && typeof out === "object") {
-    if (typeof out.url === "string") return out.url;
-    if (typeof out.audio === "string") return out.audio;
-    if (Array.isArray(out.output) && out.output[0]) return out.output[0];
-  }
-
-  // Case 4: last-resort deep scan for any http(s) URL (prefer .mp3)
-  const urls = [];
-  (function walk(v) {
-    if (v == null) return;
-    if (typeof v === "string" && /^https?:\/\//i.test(v)) urls.push(v);
-    else if (Array.isArray(v)) v.forEach(walk);
-    else if (typeof v === "object") Object.values(v).forEach(walk);
-  })(out);
-  return urls.find(u => /\.mp3(\?|$)/i.test(u)) || urls[0] || null;
-}
+// Anki is back: send what piled up without waiting for the backoff
+onAnkiConnectionChange((connected) => { if (connected) gradeOutbox.flush({ force: true }); });
 
 // Return candidate upcoming card IDs for a deck (speculative prefetch)
 app.get("/api/candidates", async (req, res) => {
@@ -86,11 +126,7 @@ app.get("/api/candidates", async (req, res) => {
 
     if (!deckName) return res.status(400).json({ ok: false, error: "deckName required" });
 
-    const query = `deck:"${deckName}" (is:due OR is:new OR is:learn)`;
-    const ids = await ankiInvoke("findCards", { query });
-
-    // Simple heuristic: return first N (you can randomize if your deck is “random order”)
-    res.json({ ok: true, cardIds: (ids || []).slice(0, limit) });
+    res.json({ ok: true, cardIds: await engine.candidates(deckName, limit) });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
@@ -107,133 +143,332 @@ app.post("/api/cardsInfo", async (req, res) => {
 });
 
 
-app.post("/api/tts", async (req, res) => {
-  try {
-    if (!process.env.REPLICATE_API_TOKEN) {
-      return res.status(500).json({ ok: false, error: "Missing REPLICATE_API_TOKEN" });
-    }
+// Runs async tasks with at most `max` in flight; the rest wait in FIFO order
+function createLimiter(max) {
+  let active = 0;
+  const waiting = [];
+  const next = () => {
+    if (active >= max || !waiting.length) return;
+    active++;
+    const { task, resolve, reject } = waiting.shift();
+    task().then(resolve, reject).finally(() => { active--; next(); });
+  };
+  return (task) => new Promise((resolve, reject) => {
+    waiting.push({ task, resolve, reject });
+    next();
+  });
+}
+
+// Provider input for one text. Voice, speed, emotion and language boost default to the deck's
+// profile (see deckProfiles.js); explicit values in the body win.
+async function ttsInputFor(body = {}) {
+  const { profile } = await deckProfiles.resolve(body.deckName);
+  const {
+    emotion = profile.tts.emotion,
+    voice_id = profile.tts.voice_id,
+    language_boost = profile.tts.language_boost,
+    speed = profile.tts.speed,
+    english_normalization = true,
+    pitch = 0, volume = 1, bitrate = 128000, channel = "mono", sample_rate = 32000
+  } = body;
+  return (text) => ({
+    text, emotion, voice_id, language_boost, english_normalization,
+    pitch, speed, volume, bitrate, channel, sample_rate
+  });
+}
 
-    const {
-      text,
-      emotion = "happy",
-      voice_id = "Friendly_Person",
-      language_boost = "German",
-      english_normalization = true,
-      pitch = 0, speed = 1, volume = 1, bitrate = 128000, channel = "mono", sample_rate = 32000
-    } = req.body || {};
+async function synthesizeCached(input) {
+  const tts = getProviders().tts;
+  return traced("tts", tts.name, async (span) => {
+    const { hash, cached, entry } = await ttsCache.getOrCreate(tts.name, input, () => tts.synthesize(input));
+    if (cached) console.log("[TTS] cache hit", hash.slice(0, 12));
+    // Characters are what TTS is billed by; cached ones cost nothing
+    span.set({ cached, chars: cached ? 0 : String(input.text).length, bytesIn: entry.size, audioMs: entry.durationMs ?? undefined });
+    // Larger than the whole cache: nothing to serve from /api/audio, so hand the audio back as is
+    const url = entry.inline ? `data:${entry.contentType};base64,${entry.inline.toString("base64")}` : `/api/audio/${hash}`;
+    return { url, hash, cached };
+  });
+}
 
+// STT through the configured provider, traced with the upload size and the recording's length
+async function transcribe(audio, language) {
+  const stt = getProviders().stt;
+  return traced("stt", stt.name, async (span) => {
+    const recording = Buffer.from(String(audio).split(",")[1] || "", "base64");
+    span.set({ bytesOut: recording.length, audioMs: audioDurationMs(recording) ?? undefined });
+    const text = await stt.transcribe({ audio, language });
+    span.set({ chars: text.length });
+    return text;
+  });
+}
+
+// body: { text, deckName?, ...voice params }. One provider call for the whole text; long texts
+// should go through /api/tts/stream.
+app.post("/api/tts", async (req, res) => {
+  try {
+    const { text } = req.body || {};
     if (!text?.trim()) {
       return res.status(400).json({ ok: false, error: "text is required" });
     }
+    console.log("[TTS] Sanitized text:", text);
 
-    const MAX = 4800;
-    const safeText = text.length > MAX ? (text.slice(0, MAX - 1) + "…") : text;
-
-    const input = {
-      text: safeText, emotion, voice_id, language_boost, english_normalization,
-      pitch, speed, volume, bitrate, channel, sample_rate
-    };
+    const inputFor = await ttsInputFor(req.body);
+    return res.json({ ok: true, ...(await synthesizeCached(inputFor(text))) }); // url is always a string
+  } catch (e) {
+    console.error("TTS error:", e);
+    return res.status(e.status || 500).json({ ok: false, error: String(e.message || e), debug: e.debug });
+  }
+});
 
-    console.log("[TTS] Sanitized text:", safeText);
+// Chunked TTS: the text is split at sentence/clause boundaries (speechChunks.js) and the chunks
+// are synthesized in parallel (TTS_CONCURRENCY), so the first one can play while the rest render.
+// body: same as /api/tts
+// events: plan {chunks: [text]} → chunk {index, url, hash, cached} | {index, error} (completion order) → end {status}
+app.post("/api/tts/stream", async (req, res) => {
+  const { text } = req.body || {};
+  if (!text?.trim()) return res.status(400).json({ ok: false, error: "text is required" });
 
-    const out = await replicate.run("minimax/speech-02-hd", { input });
+  const sse = openSse(res);
+  try {
+    const inputFor = await ttsInputFor(req.body);
+    const chunks = splitForSpeech(text);
+    sse.send("plan", { chunks });
 
-    // DEBUG: show the shape once
-    try {
-      console.log("[TTS] typeof:", typeof out, "isArray:", Array.isArray(out));
-      if (out && typeof out === "object") {
-        console.log("[TTS] keys:", Object.keys(out));
+    await Promise.all(chunks.map((chunk, index) => synthesisSlots(async () => {
+      if (sse.signal.aborted) return; // client gone: skip what has not started yet
+      try {
+        sse.send("chunk", { index, ...(await synthesizeCached(inputFor(chunk))) });
+      } catch (e) {
+        console.error(`TTS chunk ${index} failed:`, e.message || e);
+        sse.send("chunk", { index, error: String(e.message || e) });
       }
-    } catch {}
-
-    const url = normalizeUrlFromOutput(out);
-    if (!url) {
-      return res.status(502).json({
-        ok: false,
-        error: "No URL from Replicate output",
-        debug: (() => { try { return JSON.stringify(out).slice(0, 800); } catch { return String(out); } })()
-      });
+    })));
+    sse.send("end", { status: "done" });
+  } catch (e) {
+    if (!sse.signal.aborted) console.error("tts/stream error:", e);
+    sse.send("end", { status: "error", error: String(e.message || e) });
+  } finally {
+    sse.end();
+  }
+});
+
+
+// Cached TTS audio. Content-addressed, so it never changes: cache forever.
+app.get("/api/audio/:hash", async (req, res) => {
+  try {
+    const { hash } = req.params;
+    if (!isCacheHash(hash)) return res.status(400).json({ ok: false, error: "invalid hash" });
+    const hit = await ttsCache.lookup(hash);
+    if (!hit) return res.status(404).json({ ok: false, error: "not cached" });
+
+    res.type(hit.contentType);
+    res.sendFile(hit.path, { maxAge: "365d", immutable: true, headers: { ETag: `"${hash}"` } });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+/**
+ * Recordings on the card's front and back ([sound:…] in its prompt / answer fields) and whether its
+ * deck prefers them to synthesized speech. Files are fetched from Anki in the background right away.
+ */
+app.get("/api/cards/:cardId/sounds", async (req, res) => {
+  try {
+    const cardId = Number(req.params.cardId);
+    const [card] = (await ankiInvoke("cardsInfo", { cards: [cardId] })) || [];
+    if (!card?.cardId) return res.status(404).json({ ok: false, error: "No such card" });
+    const [{ profile }, mapping] = await Promise.all([deckProfiles.resolve(card.deckName), fieldMappings.ensure(card.modelName)]);
+    const sounds = cardSounds(card, mapping);
+    const url = (f) => `/api/media/${encodeURIComponent(f)}`;
+    const side = (list) => list.map(({ field, files }) => ({ field, files: files.map((filename) => ({ filename, url: url(filename) })) }));
+    for (const { files } of [...sounds.front, ...sounds.back]) {
+      for (const f of files) media.get(f).catch((e) => console.warn("[media] prefetch failed:", f, e.message));
     }
+    res.json({ ok: true, cardId, preferCardAudio: profile.preferCardAudio, front: side(sounds.front), back: side(sounds.back) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// A file from Anki's media folder (audio only)
+app.get("/api/media/:filename", async (req, res) => {
+  try {
+    const { filename } = req.params;
+    const type = isMediaName(filename) && mediaContentType(filename);
+    if (!type) return res.status(400).json({ ok: false, error: "not an audio file name" });
+    const buf = await media.get(filename);
+    if (!buf) return res.status(404).json({ ok: false, error: "not in Anki's media folder" });
+    res.set("Cache-Control", "private, max-age=3600");
+    res.type(type).send(buf);
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
+/** Inspect the TTS cache (most recently used first) */
+app.get("/api/admin/tts-cache", async (req, res) => {
+  try {
+    const limit = Math.max(0, Math.min(1000, Number(req.query.limit || 50)));
+    res.json({ ok: true, ...(await ttsCache.stats({ limit })) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    return res.json({ ok: true, url }); // <- always a string
+/** Purge the whole TTS cache, or one entry with /api/admin/tts-cache/:hash */
+app.delete("/api/admin/tts-cache/:hash?", async (req, res) => {
+  try {
+    const { hash } = req.params;
+    if (hash && !isCacheHash(hash)) return res.status(400).json({ ok: false, error: "invalid hash" });
+    const removed = await ttsCache.purge(hash);
+    res.json({ ok: true, removed });
   } catch (e) {
-    console.error("TTS error:", e);
-    return res.status(500).json({ ok: false, error: String(e.message || e) });
+    res.status(500).json({ ok: false, error: String(e.message || e) });
   }
 });
 
+// Languages for a request: an explicit `language` wins, otherwise the deck profile decides
+async function languagesFor({ deckName, language }) {
+  const { profile } = await deckProfiles.resolve(deckName);
+  return {
+    sttLanguage: sttLanguageOf({ sttLanguage: language || profile.sttLanguage }),
+    feedbackLanguage: profile.feedbackLanguage,
+  };
+}
+
+// The deck's prompt template, unless the request names one (trying a template out)
+async function promptTemplateFor({ deckName, templateId }) {
+  const { profile } = await deckProfiles.resolve(deckName);
+  return promptTemplates.get(templateId || profile.promptTemplate);
+}
 
+// Transcribe only (used by the voice command loop before deciding command vs. answer)
+// body: { audioBase64, deckName?, language? }
+app.post("/api/stt", async (req, res) => {
+  try {
+    const { audioBase64 } = req.body || {};
+    if (!audioBase64) return res.status(400).json({ ok: false, error: "audioBase64 required" });
+    const { sttLanguage } = await languagesFor(req.body);
+    const text = await transcribe(audioBase64, sttLanguage);
+    res.json({ ok: true, text });
+  } catch (e) {
+    console.error("stt error:", e);
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// body: { audioBase64 | transcript, front, back?, context?, deckName?, language?, templateId? }
+// A transcript skips STT (the client already transcribed the utterance via /api/stt)
 app.post("/api/review-chain", async (req, res) => {
   try {
     console.log("[/api/review-chain] invoked");
-    const { audioBase64, front, back, language } = req.body || {};
-    if (!audioBase64 || !front) {
-      return res.status(400).json({ ok: false, error: "audioBase64 and front required" });
+    const { audioBase64, transcript: givenTranscript, front, back, context } = req.body || {};
+    if ((!audioBase64 && typeof givenTranscript !== "string") || !front) {
+      return res.status(400).json({ ok: false, error: "audioBase64 (or transcript) and front required" });
     }
 
-    // Decide input mode: data URI (fast path) vs upload to files (fallback for big audio)
-    const approxBytes = Math.round((String(audioBase64).length / 4) * 3);
-    console.log("  audio size ~", Math.round(approxBytes / 1024), "KB");
+    const { sttLanguage, feedbackLanguage } = await languagesFor(req.body);
+    const transcript = typeof givenTranscript === "string"
+      ? givenTranscript.trim()
+      : await transcribe(audioBase64, sttLanguage);
 
-    let audioInput = audioBase64; // default: pass data URI directly to the model (works < ~1 MB)
+    // Review via the configured LLM provider (see providers/index.js)
+    const template = await promptTemplateFor(req.body);
+    const { reply, verdict } = await reviewChat({ front, back, context, transcript, feedbackLanguage, deckName: req.body.deckName, template });
 
-    if (approxBytes >= 1_000_000) {
-      // Fallback: for larger recordings, upload to /v1/files and pass the returned URL
-      console.log("  large audio, uploading to Replicate Files…");
-      audioInput = await uploadToReplicateFilesFromDataUrl(audioBase64, "utterance.webm");
-      console.log("  uploaded file:", audioInput);
-    }
+    return res.json({ ok: true, transcript, reply, verdict });
+  } catch (e) {
+    console.error("review-chain error:", e);
+    return res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    // Whisper STT (pinned version)
-    const MODEL = "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c";
-    const sttOut = await replicate.run(MODEL, {
-      input: {
-        task: "transcribe",
-        audio: audioInput,               // <-- data URI or uploaded URL
-        batch_size: 64,
-        return_timestamps: false,
-        language: language || undefined,
-        temperature: 0,
-      },
-    });
 
-    // Normalize transcript
-    const transcript = (() => {
-      const out = sttOut;
-      if (!out) return "";
-      if (typeof out === "string") return out.trim();
-      if (Array.isArray(out)) {
-        if (typeof out[0] === "string") return out.join(" ").trim();
-        const joined = out.map(s => s?.text ?? "").join(" ").trim();
-        if (joined) return joined;
-      }
-      if (typeof out === "object") {
-        if (typeof out.text === "string") return out.text.trim();
-        if (Array.isArray(out.segments)) return out.segments.map(s => s?.text ?? "").join(" ").trim();
-      }
-      return "";
-    })();
 
-    // Review via Replicate GPT (your gpt.js uses replicate.stream)
-    const reply = await reviewChat({ front, back, transcript });
+// --- Server-sent events helper ---
+// Returns send(event, data) plus an AbortSignal that fires when the client goes away.
+function openSse(res) {
+  res.status(200).set({
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
 
-    return res.json({ ok: true, transcript, reply });
+  const ctrl = new AbortController();
+  res.on("close", () => { if (!res.writableEnded) ctrl.abort(); });
+
+  const send = (event, data) => {
+    if (res.writableEnded || ctrl.signal.aborted) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const end = () => { if (!res.writableEnded) res.end(); };
+  return { send, end, signal: ctrl.signal };
+}
+
+// Streaming variant of /api/review-chain.
+// events: transcript {transcript} → token {text}* → end {status: "done", reply, verdict} | {status: "error", error}
+app.post("/api/review-chain/stream", async (req, res) => {
+  const { audioBase64, transcript: givenTranscript, front, back, context } = req.body || {};
+  if ((!audioBase64 && typeof givenTranscript !== "string") || !front) {
+    return res.status(400).json({ ok: false, error: "audioBase64 (or transcript) and front required" });
+  }
+
+  const sse = openSse(res);
+  try {
+    const { sttLanguage, feedbackLanguage } = await languagesFor(req.body);
+    const transcript = typeof givenTranscript === "string"
+      ? givenTranscript.trim()
+      : await transcribe(audioBase64, sttLanguage);
+    sse.send("transcript", { transcript });
+
+    const template = await promptTemplateFor(req.body);
+    const { reply, verdict, aborted } = await reviewChat({
+      front, back, context, transcript, feedbackLanguage, deckName: req.body.deckName, template,
+      onToken: (text) => sse.send("token", { text }),
+      signal: sse.signal,
+    });
+    if (aborted) console.log("[review-chain/stream] client went away, generation stopped");
+    sse.send("end", { status: "done", transcript, reply, verdict });
   } catch (e) {
-    console.error("review-chain error:", e);
-    return res.status(500).json({ ok: false, error: String(e.message || e) });
+    if (!sse.signal.aborted) console.error("review-chain/stream error:", e);
+    sse.send("end", { status: "error", error: String(e.message || e) });
+  } finally {
+    sse.end();
   }
 });
 
-
+// The note behind a card, for conversations that may propose changes to it (null if unknown)
+async function discussedNote(cardId) {
+  if (!cardId) return null;
+  const [card] = (await ankiInvoke("cardsInfo", { cards: [Number(cardId)] })) || [];
+  if (!card?.note) return null;
+  const [note] = (await ankiInvoke("notesInfo", { notes: [card.note] })) || [];
+  return {
+    noteId: card.note,
+    cardId: Number(cardId),
+    modelName: card.modelName,
+    deckName: card.deckName,
+    fields: Object.fromEntries(Object.entries(card.fields || {}).map(([k, f]) => [k, f.value])),
+    tags: note?.tags || [],
+  };
+}
 
 // Start or re-seed a conversation
-// body: { sessionId, system?, seedContext? }
-app.post("/api/conversation/start", (req, res) => {
+// body: { sessionId, system?, seedContext?, deckName?, templateId?, cardId? }
+// With cardId the tutor may propose changes to the card's note (see /api/note-changes)
+app.post("/api/conversation/start", async (req, res) => {
   try {
-    const { sessionId, system, seedContext } = req.body || {};
+    const { sessionId, system, seedContext, deckName, templateId, cardId } = req.body || {};
     if (!sessionId) return res.status(400).json({ ok: false, error: "sessionId required" });
-    const out = startConversation({ sessionId, system, seedContext });
+    const { feedbackLanguage } = await languagesFor({ deckName });
+    const template = await promptTemplateFor({ deckName, templateId });
+    const note = await discussedNote(cardId).catch((e) => {
+      console.warn("[note-changes] note lookup failed, no proposals:", e.message);
+      return null;
+    });
+    const out = await startConversation({ sessionId, system, seedContext, feedbackLanguage, deckName, template, note });
     res.json({ ok: true, ...out });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
@@ -246,81 +481,155 @@ app.post("/api/conversation/send", async (req, res) => {
   try {
     const { sessionId, user } = req.body || {};
     if (!sessionId || !user) return res.status(400).json({ ok: false, error: "sessionId and user required" });
-    const { reply } = await sendConversation({ sessionId, user });
-    res.json({ ok: true, reply });
+    const { reply, changes, note } = await sendConversation({ sessionId, user });
+    res.json({ ok: true, reply, ...(note && { proposals: await noteChanges.propose({ sessionId, note, changes }) }) });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
 });
 
+// Streaming variant of /api/conversation/send.
+// events: token {text}* → end {status: "done", reply, proposals?} | {status: "error", error}
+// (proposals: note changes, for conversations started with a cardId)
+app.post("/api/conversation/send/stream", async (req, res) => {
+  const { sessionId, user } = req.body || {};
+  if (!sessionId || !user) return res.status(400).json({ ok: false, error: "sessionId and user required" });
+
+  const sse = openSse(res);
+  try {
+    const { reply, changes, note } = await sendConversation({
+      sessionId, user,
+      onToken: (text) => sse.send("token", { text }),
+      signal: sse.signal,
+    });
+    sse.send("end", { status: "done", reply, ...(note && { proposals: await noteChanges.propose({ sessionId, note, changes }) }) });
+  } catch (e) {
+    if (!sse.signal.aborted) console.error("conversation/send/stream error:", e);
+    sse.send("end", { status: "error", error: String(e.message || e) });
+  } finally {
+    sse.end();
+  }
+});
+
+// ---------- Note changes proposed in conversations ----------
+
+app.get("/api/note-changes", async (req, res) => {
+  try {
+    res.json({ ok: true, proposals: await noteChanges.list({ sessionId: req.query.sessionId }) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// Applied changes, newest first (?noteId= also finds notes created from a conversation)
+app.get("/api/note-changes/audit", async (req, res) => {
+  try {
+    const { noteId, limit } = req.query;
+    res.json({ ok: true, changes: await noteChanges.audit({ noteId: noteId || undefined, limit }) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+app.post("/api/note-changes/:id/apply", async (req, res) => {
+  try {
+    const change = await noteChanges.apply(req.params.id);
+    // Later proposals in the conversation are checked against the note as it is now in Anki
+    if (change.action !== "addNote") {
+      await discussedNote(change.cardId)
+        .then((note) => note && updateConversationNote({ sessionId: change.sessionId, note }))
+        .catch((e) => console.warn("[note-changes] discussed note not refreshed:", e.message));
+    }
+    res.json({ ok: true, change });
+  } catch (e) {
+    res.status(e.status || 500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+app.post("/api/note-changes/:id/dismiss", async (req, res) => {
+  try {
+    res.json({ ok: true, change: await noteChanges.dismiss(req.params.id) });
+  } catch (e) {
+    res.status(e.status || 500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
 // Reset/end a conversation
 // body: { sessionId }
-app.post("/api/conversation/reset", (req, res) => {
+app.post("/api/conversation/reset", async (req, res) => {
   try {
     const { sessionId } = req.body || {};
     if (!sessionId) return res.status(400).json({ ok: false, error: "sessionId required" });
-    const out = resetConversation({ sessionId });
+    const out = await resetConversation({ sessionId });
     res.json({ ok: true, ...out });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
 });
 
+// Stored conversations, most recently used first (no messages)
+app.get("/api/conversations", async (_req, res) => {
+  try {
+    res.json({ ok: true, sessions: await listConversations() });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-function normalizeTextFromOutput(out) {
-  if (!out) return null;
-  if (typeof out === "string") return out;
-  if (Array.isArray(out)) {
-    // some whisper forks return [ { text, ... } ] or [ "text" ]
-    const first = out[0];
-    if (typeof first === "string") return first;
-    if (first && typeof first === "object" && typeof first.text === "string") return first.text;
+// Transcript of one conversation: messages (card context first), summary of older turns
+app.get("/api/conversation/:sessionId", async (req, res) => {
+  try {
+    const conversation = await getConversation({ sessionId: req.params.sessionId });
+    if (!conversation) return res.status(404).json({ ok: false, error: "No such conversation" });
+    res.json({ ok: true, conversation });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
   }
-  if (typeof out === "object") {
-    // common shapes
-    if (typeof out.text === "string") return out.text;
-    if (typeof out.transcription === "string") return out.transcription;
-    if (Array.isArray(out.segments)) {
-      const joined = out.segments.map(s => s.text || "").join(" ").trim();
-      if (joined) return joined;
+});
+
+// Download a transcript; ?format=md (default) or json
+app.get("/api/conversation/:sessionId/export", async (req, res) => {
+  try {
+    const conversation = await getConversation({ sessionId: req.params.sessionId });
+    if (!conversation) return res.status(404).json({ ok: false, error: "No such conversation" });
+    const name = `conversation-${String(conversation.sessionId).replace(/[^\w-]/g, "_")}`;
+    if (req.query.format === "json") {
+      res.setHeader("Content-Disposition", `attachment; filename="${name}.json"`);
+      return res.json(conversation);
     }
+    res.setHeader("Content-Disposition", `attachment; filename="${name}.md"`);
+    res.type("text/markdown").send(conversationToMarkdown(conversation));
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
   }
-  return null;
-}
+});
 
-async function ankiInvoke(action, params = {}, { retries = 2 } = {}) {
-  const payload = { action, version: 6, params };
+// Latency and usage per external call (telemetry.js): JSON, or Prometheus text with
+// ?format=prometheus (or Accept: text/plain)
+app.get("/api/metrics", (req, res) => {
   try {
-    const res = await fetch(ANKI_URL, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(15000),
-      agent
-    });
-    if (!res.ok) throw new Error(`AnkiConnect HTTP ${res.status}`);
-    const json = await res.json();
-    if (json.error) throw new Error(`AnkiConnect: ${json.error}`);
-    return json.result;
-  } catch (err) {
-    const msg = String(err?.message || err);
-    if (
-      retries > 0 &&
-      (msg.includes("socket hang up") ||
-       msg.includes("ECONNRESET") ||
-       msg.includes("timeout"))
-    ) {
-      await new Promise(r => setTimeout(r, 200));
-      return ankiInvoke(action, params, { retries: retries - 1 });
+    if (req.query.format === "prometheus" || (!req.query.format && req.accepts(["json", "text/plain"]) === "text/plain")) {
+      return res.type("text/plain; version=0.0.4").send(metricsPrometheus());
     }
-    throw err;
+    res.json({ ok: true, ...metricsSnapshot({ recentLimit: Number(req.query.recent) || 50 }) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
   }
-}
+});
+
+/** Spans of one request (trace IDs come back in the X-Trace-Id header) */
+app.get("/api/metrics/traces/:traceId", (req, res) => {
+  const spans = traceSpans(req.params.traceId);
+  if (!spans.length) return res.status(404).json({ ok: false, error: "Unknown or expired trace" });
+  res.json({ ok: true, traceId: req.params.traceId, spans });
+});
 
 /** Health check + version */
 app.get("/api/health", async (_req, res) => {
   try {
     const version = await ankiInvoke("version");
+    // Anki is answering again: resume sending queued grades
+    if ((await gradeOutbox.status()).pending) gradeOutbox.flush({ force: true });
     res.json({ ok: true, ankiVersion: version });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
@@ -342,11 +651,20 @@ app.get("/api/decks", async (_req, res) => {
   }
 });
 
-/** Start review for a deck; returns started:true if reviewer becomes active */
+/** Which session engine is active, and which exist */
+app.get("/api/session", (_req, res) => {
+  res.json({ ok: true, mode: engine.mode, modes: Object.keys(engines), session });
+});
+
+/** Start review for a deck; returns started:true if the session has a card to show.
+ *  body: { deckName, mode?: "gui" | "headless" } — mode switches the engine for this and later calls */
 app.post("/api/start", async (req, res) => {
   try {
-    const { deckName } = req.body;
+    const { deckName, mode } = req.body;
     if (!deckName) return res.status(400).json({ ok: false, error: "deckName required" });
+    if (mode && !engines[mode]) {
+      return res.status(400).json({ ok: false, error: `mode must be one of: ${Object.keys(engines).join(", ")}` });
+    }
 
     // Optional sanity check: deck exists
     const names = await ankiInvoke("deckNames");
@@ -354,26 +672,9 @@ app.post("/api/start", async (req, res) => {
       return res.json({ ok: false, error: `Deck not found: ${deckName}` });
     }
 
-    // Open the reviewer for the deck (works even with only 'New' cards)
-    await ankiInvoke("guiDeckReview", { name: deckName });
-
-    // Poll briefly to see if reviewer became active (Anki may show overview first)
-    const deadline = Date.now() + 1200;
-    let active = false;
-    while (Date.now() < deadline) {
-      try {
-        const cur = await ankiInvoke("guiCurrentCard");
-        if (cur && (cur.cardId || cur.question)) { active = true; break; }
-      } catch (_) {
-        // not active yet; wait a tick
-      }
-      await new Promise(r => setTimeout(r, 120));
-    }
-
-    if (!active) {
-      return res.json({ ok: true, started: false, reason: "reviewer_inactive_or_overview" });
-    }
-    res.json({ ok: true, started: true });
+    if (mode) engine = engines[mode];
+    session = { id: crypto.randomUUID(), deckName, mode: engine.mode, startedAt: Date.now() };
+    res.json({ ...(await engine.start(deckName)), mode: engine.mode });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
@@ -382,34 +683,180 @@ app.post("/api/start", async (req, res) => {
 /** Get the current card (rendered HTML + raw fields) */
 app.get("/api/current", async (_req, res) => {
   try {
-    let cur;
-    try {
-      cur = await ankiInvoke("guiCurrentCard");
-    } catch (e) {
-      if (String(e.message).includes("Gui review is not currently active")) {
-        return res.json({ ok: true, empty: true, reason: "reviewer_inactive" });
-      }
-      throw e;
+    res.json(await engine.current());
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// --- Review history (one record per graded attempt) ---
+// query: cardId?, noteId?, deckName? (includes subdecks), from?, to? (epoch ms or YYYY-MM-DD), limit?
+app.get("/api/history", async (req, res) => {
+  try {
+    res.json({ ok: true, attempts: await history.query(req.query) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+app.get("/api/history/cards/:cardId", async (req, res) => {
+  try {
+    res.json({ ok: true, attempts: await history.query({ ...req.query, cardId: req.params.cardId }) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// --- Statistics over the review history ---
+// query: deckName?, sessionId?, from?, to? → { total, sessions[], decks[] } (see stats.js), over every matching record
+app.get("/api/stats", async (req, res) => {
+  try {
+    const records = await history.queryAll(req.query);
+    res.json({ ok: true, ...buildStats(records) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// Cross-check recorded grades with Anki's revlog (getReviewsOfCards); with a deckName also counts
+// all Anki reviews in that deck over the same period (cardReviews), voice or not.
+app.get("/api/stats/anki-check", async (req, res) => {
+  try {
+    const records = await history.queryAll(req.query);
+    const cardIds = [...new Set(records.map(r => r.cardId).filter(Boolean))];
+    const reviewsByCard = cardIds.length
+      ? await ankiInvoke("getReviewsOfCards", { cards: cardIds.map(String) })
+      : {};
+    const out = { ok: true, ...compareWithRevlog(records, reviewsByCard || {}) };
+
+    const { deckName } = req.query;
+    if (deckName && records.length) {
+      const since = Math.min(...records.map(r => r.ts));
+      // startID is exclusive
+      const rows = (await ankiInvoke("cardReviews", { deck: String(deckName), startID: since - 1 })) || [];
+      out.ankiReviewsInDeck = rows.length;
     }
+    res.json(out);
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// --- Deck profiles (STT language, TTS voice, feedback language; inherited down Parent::Child) ---
+app.get("/api/deck-profiles", async (_req, res) => {
+  try {
+    res.json({ ok: true, defaults: DEFAULT_PROFILE, profiles: await deckProfiles.list() });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    if (!cur) return res.json({ ok: true, empty: true });
+/** Effective profile of a deck and which deck each setting is inherited from ("" = defaults) */
+app.get("/api/deck-profiles/resolve", async (req, res) => {
+  try {
+    const deckName = String(req.query.deckName || "");
+    const own = (await deckProfiles.list())[deckName] || {};
+    res.json({ ok: true, deckName, own, ...(await deckProfiles.resolve(deckName)) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    const cardId = cur.cardId;
-    const frontHTML = cur.question || "";
-    const backHTML  = cur.answer || "";
+// body: { sttLanguage?, feedbackLanguage?, promptTemplate?, tts?: { voice_id?, speed?, emotion?, language_boost? } }
+// Replaces the deck's overrides; omitted / empty settings are inherited
+app.put("/api/deck-profiles/:deckName", async (req, res) => {
+  try {
+    res.json({ ok: true, deckName: req.params.deckName, own: await deckProfiles.set(req.params.deckName, req.body) });
+  } catch (e) {
+    res.status(e.status || 500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    const info = await ankiInvoke("cardsInfo", { cards: [cardId] });
-    const fields = info?.[0]?.fields || {};
-    const modelName = info?.[0]?.modelName || "";
-    const templateName = cur.template || cur.templateName || "";
+app.delete("/api/deck-profiles/:deckName", async (req, res) => {
+  try {
+    res.json({ ok: true, removed: await deckProfiles.remove(req.params.deckName) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    res.json({ ok: true, cardId, modelName, templateName, frontHTML, backHTML, fields });
+// --- Prompt templates (evaluation / tutor prompts; built-in strictness presets plus custom ones) ---
+app.get("/api/prompt-templates", async (_req, res) => {
+  try {
+    res.json({ ok: true, templates: await promptTemplates.list(), strictnessLevels: STRICTNESS_LEVELS, placeholders: PLACEHOLDERS });
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
 });
 
-/** Force reviewer for deck, then flip front/back (full mirror) */
+// body: { name?, strictness?, reviewSystem?, reviewUser?, tutorSystem? }; empty prompts fall back to the built-in text
+app.put("/api/prompt-templates/:id", async (req, res) => {
+  try {
+    res.json({ ok: true, template: await promptTemplates.set(req.params.id, req.body) });
+  } catch (e) {
+    res.status(e.status || 500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+app.delete("/api/prompt-templates/:id", async (req, res) => {
+  try {
+    res.json({ ok: true, removed: await promptTemplates.remove(req.params.id) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// The prompts exactly as the model would get them, for a card and a sample answer
+// body: { template? (unsaved draft) | templateId?, deckName?, front?, back?, context?, transcript? }
+app.post("/api/prompt-templates/preview", async (req, res) => {
+  try {
+    const { template: draft, templateId, deckName, front, back, context, transcript } = req.body || {};
+    const template = draft ? normalizeTemplate("preview", draft) : await promptTemplateFor({ deckName, templateId });
+    const { feedbackLanguage } = await languagesFor({ deckName });
+    const review = buildReviewPrompt({ template, front, back, context, transcript, deckName, feedbackLanguage });
+    const tutorSystem = buildTutorSystem({ template, deckName, feedbackLanguage });
+    res.json({ ok: true, templateId: template.id, review, tutorSystem });
+  } catch (e) {
+    res.status(e.status || 500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// --- Field mappings (per note type: prompt / answer / context / hidden fields) ---
+app.get("/api/field-mappings", async (_req, res) => {
+  try {
+    res.json({ ok: true, mappings: await fieldMappings.list() });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+/** Mapping for one note type; suggested from modelFieldNames the first time it is seen */
+app.get("/api/field-mappings/:modelName", async (req, res) => {
+  try {
+    res.json({ ok: true, modelName: req.params.modelName, mapping: await fieldMappings.ensure(req.params.modelName) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+// body: { prompt: string[], answer: string[], context: string[], hidden: string[] }
+app.put("/api/field-mappings/:modelName", async (req, res) => {
+  try {
+    res.json({ ok: true, modelName: req.params.modelName, mapping: await fieldMappings.set(req.params.modelName, req.body) });
+  } catch (e) {
+    res.status(e.status || 500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+app.delete("/api/field-mappings/:modelName", async (req, res) => {
+  try {
+    res.json({ ok: true, removed: await fieldMappings.remove(req.params.modelName) });
+  } catch (e) {
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
+
+/** Flip front/back (GUI: force reviewer for deck first, full mirror) */
 app.post("/api/show", async (req, res) => {
   try {
     const { side, deckName } = req.body; // side: "front" | "back"
@@ -417,27 +864,7 @@ app.post("/api/show", async (req, res) => {
       return res.status(400).json({ ok: false, error: "side must be 'front' or 'back'" });
     }
 
-    if (deckName) {
-      // Re-open the reviewer for this deck to ensure main window is in review mode
-      await ankiInvoke("guiDeckReview", { name: deckName });
-    }
-
-    // Poll briefly until reviewer is active (not overview/browser)
-    const deadline = Date.now() + 1000;
-    let active = false;
-    while (Date.now() < deadline) {
-      try {
-        const cur = await ankiInvoke("guiCurrentCard");
-        if (cur && (cur.cardId || cur.question)) { active = true; break; }
-      } catch (_) {}
-      await new Promise(r => setTimeout(r, 120));
-    }
-
-    // Flip side if we’re active (if not, still attempt; Anki may ignore)
-    if (side === "front") await ankiInvoke("guiShowQuestion");
-    else await ankiInvoke("guiShowAnswer");
-
-    return res.json({ ok: true, reviewerActive: active });
+    return res.json(await engine.show(side, deckName));
   } catch (e) {
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
@@ -445,75 +872,137 @@ app.post("/api/show", async (req, res) => {
 
 
 /** Submit ease (Again=1, Hard=2, Good=3, Easy=4) */
+// body: { ease, cardId?, attempt?: { transcript, feedback, verdict, latencyMs } }
+// With a cardId the graded attempt is appended to the review history
 app.post("/api/answer", async (req, res) => {
   try {
-    const { ease } = req.body;
+    const { ease, cardId, attempt, gradeId } = req.body;
     const n = Number(ease);
     if (![1, 2, 3, 4].includes(n)) {
       return res.status(400).json({ ok: false, error: "ease must be 1..4" });
     }
+    // Without a card id a grade cannot be replayed safely: straight to Anki, nothing recorded
+    if (!cardId) return res.json(await engine.answer(n));
+
+    const out = await gradeOutbox.submit({
+      gradeId,
+      cardId: Number(cardId),
+      ease: n,
+      attempt,
+      meta: { sessionId: session?.id, sessionDeck: session?.deckName, sessionMode: engine.mode },
+    });
+    res.status(out.queued ? 202 : out.ok === false ? 502 : 200).json(out);
+  } catch (e) {
+    console.error("answer error:", e);
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    // Ensure we're on the back (Anki requires this to register an answer)
-    try {
-      await ankiInvoke("guiShowAnswer");
-      await sleep(120); // give Anki a beat to switch UI state
-    } catch (_) {
-      // ignore; if already on back, or Anki ignores, we'll still try to answer
+/**
+ * Takes back the latest grade: one still waiting in the outbox is simply dropped; a delivered one is
+ * reversed by the engine that gave it (GUI: guiUndo; headless: the card's scheduling is restored).
+ * 409 with the reason when there is nothing to undo or Anki refuses.
+ */
+app.post("/api/undo", async (_req, res) => {
+  try {
+    const cancelled = await gradeOutbox.cancelLast();
+    if (cancelled) {
+      return res.json({ ok: true, cancelled: true, undone: { cardId: cancelled.cardId, ease: cancelled.ease } });
     }
+    const last = undoStack.at(-1);
+    if (!last) return res.status(409).json({ ok: false, error: "Nothing to undo" });
+
+    const out = await (engines[last.mode] || engine).undo(last);
+    if (!out.ok) return res.status(409).json(out);
+    undoStack.pop();
+    if (last.historyId) await history.remove(last.historyId).catch((e) => console.warn("[history] not removed:", e.message));
+    res.json({ ok: true, undone: { cardId: last.cardId, ease: last.ease, mode: last.mode } });
+  } catch (e) {
+    console.error("undo error:", e);
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-    await ankiInvoke("guiAnswerCard", { ease: n });
-
-    // Optional: nudge reviewer to show the NEXT front right away
-    try {
-      await sleep(80);
-      await ankiInvoke("guiShowQuestion");
-    } catch (_) {}
+/** AnkiConnect reachability and the grades waiting for it */
+async function connectionState() {
+  return { ok: true, connected: ankiConnected() !== false, ...(await gradeOutbox.status()) };
+}
 
-    res.json({ ok: true });
+app.get("/api/connection", async (_req, res) => {
+  try {
+    res.json(await connectionState());
   } catch (e) {
-    console.error("answer error:", e);
     res.status(500).json({ ok: false, error: String(e.message || e) });
   }
 });
 
-
-app.listen(PORT, () => {
-  console.log(`Server listening on http://localhost:${PORT}`);
+// Server-sent events for EventSource: state {connected, pending, …} now and after every change
+app.get("/api/connection/stream", async (req, res) => {
+  const sse = openSse(res);
+  const push = () => connectionState().then((s) => sse.send("state", s)).catch(() => {});
+  const offAnki = onAnkiConnectionChange(push);
+  const offOutbox = gradeOutbox.onChange(push);
+  const keepAlive = setInterval(() => { if (!res.writableEnded) res.write(": keep-alive\n\n"); }, 25_000);
+  sse.signal.addEventListener("abort", () => {
+    offAnki();
+    offOutbox();
+    clearInterval(keepAlive);
+  });
+  push();
 });
 
-// --- Helper: upload a data: URL to Replicate Files (using 'form-data') ---
-async function uploadToReplicateFilesFromDataUrl(dataUrl, filename = "utterance.webm") {
-  const token = process.env.REPLICATE_API_TOKEN;
-  if (!token) throw new Error("Missing REPLICATE_API_TOKEN");
 
-  // Extract content type + base64 from data URL
-  const m = String(dataUrl).match(/^data:([^;,]+)[^,]*,([A-Za-z0-9+/=_-]+)$/);
-  if (!m) throw new Error("Invalid data URL for audio");
-  const contentType = m[1] || "application/octet-stream";
-  const base64 = m[2];
-  const buf = Buffer.from(base64, "base64");
+/** Skip the current card (GUI: bury for today; headless: drop from this session's queue) */
+app.post("/api/skip", async (req, res) => {
+  try {
+    const { deckName } = req.body || {};
+    res.json(await engine.skip(deckName));
+  } catch (e) {
+    console.error("skip error:", e);
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-  // Build classic multipart form with explicit filename + content type
-  const form = new FormData();
-  form.append("file", buf, { filename, contentType, knownLength: buf.length });
+/**
+ * The client found the current card unspeakable (mostly images, occlusion, media): apply the deck's policy.
+ * Moving on never buries by itself (only "bury" does) and leaves a card alone that is no longer shown (409).
+ */
+// body: { cardId, deckName, reasons?: string[] } → { ok, action: "warn" | "skip" | "bury" | "tag", skipped? }
+app.post("/api/unspeakable", async (req, res) => {
+  try {
+    const { cardId, deckName, reasons = [] } = req.body || {};
+    if (!cardId) return res.status(400).json({ ok: false, error: "cardId required" });
+    const { profile } = await deckProfiles.resolve(deckName);
+    const action = profile.unspeakablePolicy;
+    console.log(`[unspeakable] card ${cardId} (${[].concat(reasons).join(", ") || "no text"}): ${action}`);
+    if (action === "warn") return res.json({ ok: true, action });
+
+    if (action === "bury") await ankiInvoke("buryCards", { cards: [Number(cardId)] });
+    if (action === "tag") {
+      const [card] = (await ankiInvoke("cardsInfo", { cards: [Number(cardId)] })) || [];
+      if (card?.note) await ankiInvoke("addTags", { notes: [card.note], tags: "voice::unspeakable" });
+    }
+    const out = await (engines[session?.mode] || engine).skip(deckName, { cardId: Number(cardId), bury: false });
+    if (!out.ok) return res.status(409).json({ ...out, action });
+    res.json({ ...out, action });
+  } catch (e) {
+    console.error("unspeakable error:", e);
+    res.status(500).json({ ok: false, error: String(e.message || e) });
+  }
+});
 
-  // NOTE: we must pass form.getHeaders() so boundary is set correctly
-  const up = await fetch("https://api.replicate.com/v1/files", {
-    method: "POST",
-    headers: {
-      ...form.getHeaders(),
-      Authorization: `Bearer ${token}`,
-    },
-    // form is a stream; fetch will stream it correctly
-    body: form,
-  });
 
-  if (!up.ok) {
-    const t = await up.text().catch(() => "");
-    throw new Error(`Replicate file upload failed (${up.status}): ${t}`);
+// Listen only when run directly (`node index.js`); tests import the app and listen themselves
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  if (process.env.ANKI_FAKE === "1") {
+    // Offline development: an in-process AnkiConnect stand-in with a small sample collection
+    const { createFakeAnkiConnect } = await import("./fakes/ankiConnect.js");
+    process.env.ANKI_URL = await createFakeAnkiConnect().listen();
+    console.log(`Using fake AnkiConnect at ${process.env.ANKI_URL}`);
   }
-  const j = await up.json();
-  if (!j?.url) throw new Error("Upload did not return a file URL");
-  return j.url;
-}
 
+  app.listen(PORT, () => {
+    console.log(`Server listening on http://localhost:${PORT}`);
+    gradeOutbox.flush(); // grades left over from the last run
+  });
+}
@@ -0,0 +1,222 @@
+// server/noteChanges.js
+// Note changes proposed by the "Discuss more" tutor: an edited field, a new follow-up note, or a tag.
+// The model appends <note-change>{…}</note-change> blocks to its reply; they are validated against
+// the discussed note and kept as proposals until the learner applies or dismisses them. Nothing
+// touches the collection before that. Proposals are saved to $DATA_DIR/note-change-proposals.json
+// so they survive a restart; applied changes are appended to $DATA_DIR/note-changes.jsonl.
+// Proposal: { id, sessionId, cardId, noteId, action, field?, before?, after?, fields?, deckName?,
+//             modelName?, tags?, reason, status: "proposed" | "applying" | "applied" | "dismissed", createdAt }
+
+import crypto from "node:crypto";
+import path from "node:path";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { readJson, writeJsonAtomic } from "./storage.js";
+
+export const NOTE_CHANGE_ACTIONS = ["updateField", "addNote", "addTag"];
+
+const MAX_FIELD = 20000;
+const MAX_PROPOSALS = 100; // oldest dropped first
+
+const badRequest = (msg) => Object.assign(new Error(msg), { status: 400 });
+const conflict = (msg) => Object.assign(new Error(msg), { status: 409 });
+
+/** Instructions appended to the tutor's system prompt when the conversation is about a note */
+export function noteChangeInstructions(note) {
+  const fields = Object.entries(note.fields).map(([name, value]) => `${name}: ${JSON.stringify(value)}`).join("\n");
+  return `
+
+The discussed note (type "${note.modelName}", deck "${note.deckName}") has these fields (raw HTML):
+${fields}
+Only if the discussion shows that the card is wrong, ambiguous or missing context, propose a change at the very end of your reply, one block per change:
+<note-change>{"action": "updateField", "field": "<field name>", "value": "<complete new field content>", "reason": "<why>"}</note-change>
+<note-change>{"action": "addNote", "fields": {"<field name>": "<content>", ...}, "reason": "<why>"}</note-change>
+<note-change>{"action": "addTag", "tag": "voice::ambiguous", "reason": "<why>"}</note-change>
+- The learner reviews every change before it is applied; never claim a change has been made.
+- addNote creates a follow-up card of the same note type in the same deck.`;
+}
+
+/** Splits a reply into the visible text and the raw <note-change> blocks (unparseable ones dropped) */
+export function splitNoteChanges(text) {
+  const s = String(text || "");
+  const changes = [];
+  const reply = s.replace(/<note-change>\s*([\s\S]*?)\s*<\/note-change>/gi, (_, json) => {
+    try { changes.push(JSON.parse(json)); } catch {}
+    return "";
+  });
+  return { reply: reply.trim(), changes };
+}
+
+const textValue = (v, what) => {
+  if (typeof v !== "string" || v.length > MAX_FIELD) throw badRequest(`${what} must be text (at most ${MAX_FIELD} characters)`);
+  return v;
+};
+
+/**
+ * Validates a raw proposal against the note it is about.
+ * note: { noteId, cardId, modelName, deckName, fields: { name -> value }, tags }
+ */
+export function normalizeNoteChange(raw, note) {
+  const action = raw?.action;
+  if (!NOTE_CHANGE_ACTIONS.includes(action)) throw badRequest(`action must be one of ${NOTE_CHANGE_ACTIONS.join(", ")}`);
+  const reason = String(raw.reason || "").trim().slice(0, 500);
+  const base = { action, noteId: note.noteId, cardId: note.cardId, reason };
+
+  if (action === "updateField") {
+    const field = String(raw.field || "");
+    if (!(field in note.fields)) throw badRequest(`unknown field "${field}"`);
+    const after = textValue(raw.value, "value");
+    if (after === note.fields[field]) throw badRequest(`"${field}" would not change`);
+    return { ...base, field, before: note.fields[field], after };
+  }
+
+  if (action === "addNote") {
+    if (!raw.fields || typeof raw.fields !== "object") throw badRequest("fields required");
+    const fields = {};
+    for (const [name, value] of Object.entries(raw.fields)) {
+      if (!(name in note.fields)) throw badRequest(`unknown field "${name}"`);
+      fields[name] = textValue(value, name);
+    }
+    if (!Object.values(fields).some((v) => v.trim())) throw badRequest("the new note is empty");
+    return { ...base, modelName: note.modelName, deckName: note.deckName, fields };
+  }
+
+  const tag = String(raw.tag || "").trim();
+  if (!/^[^\s"]{1,100}$/.test(tag)) throw badRequest("tag must be one word (no spaces or quotes)");
+  if ((note.tags || []).includes(tag)) throw badRequest(`the note already has "${tag}"`);
+  return { ...base, tags: [tag] };
+}
+
+/**
+ * @param {object} opts
+ * @param {string} opts.file           audit log of applied changes (JSON lines)
+ * @param {string} opts.proposalsFile  open and decided proposals (JSON array, oldest first)
+ * @param {Function} opts.anki         ankiInvoke
+ */
+export function createNoteChangeStore({ file, proposalsFile, anki }) {
+  let loading = null;          // Promise<audit entry[]> (oldest first)
+  let writing = Promise.resolve();
+  let loadingProposals = null; // Promise<Map id -> proposal>
+  let saving = Promise.resolve();
+
+  const loadProposals = () => (loadingProposals ??= readJson(proposalsFile, []).then((list) => {
+    const proposals = new Map();
+    for (const p of Array.isArray(list) ? list : []) {
+      if (!p?.id) continue;
+      // Interrupted mid-apply: offer it again (an edit made meanwhile is still caught by carryOut)
+      if (p.status === "applying") p.status = "proposed";
+      proposals.set(p.id, p);
+    }
+    return proposals;
+  }));
+
+  async function saveProposals() {
+    const snapshot = [...(await loadProposals()).values()];
+    saving = saving.then(() => writeJsonAtomic(proposalsFile, snapshot)).catch((e) => console.warn("[note-changes] proposals save failed:", e.message));
+    return saving;
+  }
+
+  const load = () => (loading ??= readFile(file, "utf8").then(
+    (text) => text.split("\n").filter((l) => l.trim()).flatMap((l) => { try { return [JSON.parse(l)]; } catch { return []; } }),
+    (e) => {
+      if (e.code !== "ENOENT") console.warn("[note-changes] audit log unreadable, starting empty:", e.message);
+      return [];
+    }
+  ));
+
+  async function record(entry) {
+    (await load()).push(entry);
+    writing = writing
+      .then(() => mkdir(path.dirname(file), { recursive: true }))
+      .then(() => appendFile(file, JSON.stringify(entry) + "\n"))
+      .catch((e) => console.warn("[note-changes] audit append failed:", e.message));
+    await writing;
+  }
+
+  async function noteFields(noteId) {
+    const [info] = (await anki("notesInfo", { notes: [noteId] })) || [];
+    if (!info?.noteId) throw conflict(`Note ${noteId} no longer exists`);
+    return { fields: Object.fromEntries(Object.entries(info.fields || {}).map(([k, f]) => [k, f.value])), tags: info.tags || [] };
+  }
+
+  async function carryOut(p) {
+    if (p.action === "updateField") {
+      // Refuse to overwrite an edit made in Anki since the proposal
+      const { fields } = await noteFields(p.noteId);
+      if (fields[p.field] !== p.before) throw conflict(`"${p.field}" was changed in Anki since this was proposed`);
+      await anki("updateNoteFields", { note: { id: p.noteId, fields: { [p.field]: p.after } } });
+      return {};
+    }
+    if (p.action === "addNote") {
+      const newNoteId = await anki("addNote", {
+        note: { deckName: p.deckName, modelName: p.modelName, fields: p.fields, tags: ["voice::added"] },
+      });
+      return { newNoteId };
+    }
+    await anki("addTags", { notes: [p.noteId], tags: p.tags.join(" ") });
+    return {};
+  }
+
+  return {
+    /** Stores valid proposals for a conversation; invalid ones are logged and skipped */
+    async propose({ sessionId, note, changes }) {
+      const proposals = await loadProposals();
+      const out = [];
+      for (const raw of changes || []) {
+        try {
+          const p = { id: crypto.randomUUID(), sessionId, ...normalizeNoteChange(raw, note), status: "proposed", createdAt: Date.now() };
+          proposals.set(p.id, p);
+          out.push(p);
+        } catch (e) {
+          console.warn("[note-changes] proposal skipped:", e.message);
+        }
+      }
+      while (proposals.size > MAX_PROPOSALS) proposals.delete(proposals.keys().next().value);
+      if (out.length) await saveProposals();
+      return out;
+    },
+
+    async get(id) {
+      return (await loadProposals()).get(id) || null;
+    },
+
+    async list({ sessionId } = {}) {
+      return [...(await loadProposals()).values()].filter((p) => !sessionId || p.sessionId === sessionId);
+    },
+
+    /** Applies a proposal through AnkiConnect and records it in the audit log */
+    async apply(id) {
+      const p = (await loadProposals()).get(id);
+      if (!p) throw Object.assign(new Error("No such proposal"), { status: 404 });
+      if (p.status !== "proposed") throw conflict(`Already ${p.status}`);
+      p.status = "applying"; // a second click while AnkiConnect works must not apply it twice
+      let result;
+      try {
+        result = await carryOut(p);
+      } catch (e) {
+        p.status = "proposed";
+        throw e;
+      }
+      Object.assign(p, { status: "applied", appliedAt: Date.now(), ...result });
+      const { status, ...entry } = p;
+      await record(entry);
+      await saveProposals();
+      return p;
+    },
+
+    async dismiss(id) {
+      const p = (await loadProposals()).get(id);
+      if (!p) throw Object.assign(new Error("No such proposal"), { status: 404 });
+      if (p.status !== "proposed") throw conflict(`Already ${p.status}`);
+      p.status = "dismissed";
+      await saveProposals();
+      return p;
+    },
+
+    /** Applied changes, newest first */
+    async audit({ noteId, limit = 100 } = {}) {
+      const all = await load();
+      const max = Math.max(1, Math.min(1000, Number(limit) || 100));
+      return all.filter((e) => noteId == null || e.noteId === Number(noteId) || e.newNoteId === Number(noteId)).reverse().slice(0, max);
+    },
+  };
+}
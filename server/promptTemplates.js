@@ -0,0 +1,156 @@
+// server/promptTemplates.js
+// Named prompt templates for the evaluation and the "Discuss more" tutor.
+// Placeholders: {{front}} {{back}} {{context}} {{transcript}} {{deck}} {{language}} {{strictness}};
+// {{#name}}…{{/name}} keeps its content only when the value is non-empty.
+// The four built-in templates differ only in strictness; custom ones are stored in
+// $DATA_DIR/prompt-templates.json and assigned per deck through the deck profile (promptTemplate).
+
+import { readJsonRecord, writeJsonAtomic } from "./storage.js";
+
+export const PLACEHOLDERS = ["front", "back", "context", "transcript", "deck", "language", "strictness"];
+
+// How partial answers are judged
+export const STRICTNESS_LEVELS = {
+  lenient:
+    "- Judge by meaning. Paraphrases, synonyms and everyday wording are fine.\n" +
+    "- An answer that gets the core idea right counts as correct even if details are missing.\n" +
+    "- Only call it wrong if the core idea is missing or wrong.",
+  standard:
+    "- Paraphrases are fine, but the key points of the back have to be there.\n" +
+    "- Missing or vague key points make the answer partial; a wrong core idea makes it wrong.",
+  "exam-strict":
+    "- Judge like an oral exam: every key point of the back must be present and technically precise.\n" +
+    "- Vague or colloquial terms count as missing. Any missing key point makes the answer partial at best.\n" +
+    "- Give ease 4 only for a complete, precise and fluent answer.",
+  verbatim:
+    "- The learner has to reproduce the back essentially word for word: terms, numbers, units and list order.\n" +
+    "- Ignore filler words and obvious transcription errors, nothing else.\n" +
+    "- Any other deviation makes the answer partial; missing or wrong parts make it wrong.",
+};
+
+const REVIEW_SYSTEM = `You are a helpful anki card review assistant.
+- Compare the learner's spoken answer to the card's front/back and the expected reply from the cards back.
+- Be concise. Then judge the correctness of the students answer.
+- Then give a short explanation and the correct answer if needed.
+- If it's a cloze, reveal the cloze succinctly and always show the full original back part
+How strictly to judge:
+{{strictness}}`;
+
+const REVIEW_USER = `Card front:
+{{front}}
+
+Card back:
+{{back}}
+
+{{#context}}Additional context (not required in the answer):
+{{context}}
+
+{{/context}}Learner said:
+{{transcript}}`;
+
+const TUTOR_SYSTEM = "You are a friendly tutor. Stay concise, encourage active recall.";
+
+const LABELS = { lenient: "Lenient", standard: "Standard", "exam-strict": "Exam-strict", verbatim: "Verbatim" };
+
+export const BUILTIN_TEMPLATES = Object.freeze(Object.fromEntries(Object.keys(STRICTNESS_LEVELS).map((id) => [id, Object.freeze({
+  id, name: LABELS[id], builtin: true, strictness: id, reviewSystem: REVIEW_SYSTEM, reviewUser: REVIEW_USER, tutorSystem: TUTOR_SYSTEM,
+})])));
+
+export const DEFAULT_TEMPLATE_ID = "standard";
+
+const badRequest = (msg) => Object.assign(new Error(msg), { status: 400 });
+
+const MAX_PROMPT = 8000;
+const RESERVED_IDS = ["__proto__", "constructor", "prototype"];
+const isBuiltin = (id) => Object.hasOwn(BUILTIN_TEMPLATES, id);
+
+/** Validates a custom template; the id comes from the route */
+export function normalizeTemplate(id, raw = {}) {
+  if (!/^[\w-]{1,40}$/.test(String(id || ""))) throw badRequest("template id must be 1–40 letters, digits, - or _");
+  if (RESERVED_IDS.includes(id)) throw badRequest(`"${id}" is reserved`);
+  if (isBuiltin(id)) throw badRequest(`"${id}" is a built-in template`);
+  const strictness = raw.strictness || DEFAULT_TEMPLATE_ID;
+  if (!Object.hasOwn(STRICTNESS_LEVELS, strictness)) throw badRequest(`strictness must be one of ${Object.keys(STRICTNESS_LEVELS).join(", ")}`);
+
+  const text = (key, fallback) => {
+    const v = raw[key] == null || raw[key] === "" ? fallback : raw[key];
+    if (typeof v !== "string" || v.length > MAX_PROMPT) throw badRequest(`${key} must be text (at most ${MAX_PROMPT} characters)`);
+    return v;
+  };
+  const reviewUser = text("reviewUser", REVIEW_USER);
+  if (!reviewUser.includes("{{transcript}}")) throw badRequest("reviewUser must contain {{transcript}}");
+
+  return {
+    id,
+    name: String(raw.name || id).trim().slice(0, 60),
+    strictness,
+    reviewSystem: text("reviewSystem", REVIEW_SYSTEM),
+    reviewUser,
+    tutorSystem: text("tutorSystem", TUTOR_SYSTEM),
+  };
+}
+
+/** Fills placeholders; unknown ones are left as they are */
+export function renderTemplate(text, vars) {
+  const value = (k) => (vars[k] == null ? "" : String(vars[k]));
+  return String(text || "")
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, k, inner) => (value(k).trim() ? inner : ""))
+    .replace(/\{\{(\w+)\}\}/g, (m, k) => (PLACEHOLDERS.includes(k) ? value(k) : m));
+}
+
+/** Placeholder values for a template (strictness comes from the template itself) */
+export function templateVars(template, { front, back, context, transcript, deckName, feedbackLanguage }) {
+  return {
+    front: front || "",
+    back: back || "(none)",
+    context: context || "",
+    transcript: transcript ?? "",
+    deck: deckName || "",
+    language: feedbackLanguage && feedbackLanguage !== "auto" ? feedbackLanguage : "the language of the card",
+    strictness: STRICTNESS_LEVELS[Object.hasOwn(STRICTNESS_LEVELS, template.strictness) ? template.strictness : DEFAULT_TEMPLATE_ID],
+  };
+}
+
+export function createPromptTemplateStore({ file }) {
+  let loading = null; // Promise<{ id -> custom template }>, null prototype
+  let saving = Promise.resolve();
+
+  const load = () => (loading ??= readJsonRecord(file));
+
+  async function save() {
+    const snapshot = { ...(await load()) };
+    saving = saving.then(() => writeJsonAtomic(file, snapshot)).catch((e) => console.warn("[prompt-templates] save failed:", e.message));
+    return saving;
+  }
+
+  return {
+    /** Built-ins first, then custom templates */
+    async list() {
+      return [...Object.values(BUILTIN_TEMPLATES), ...Object.values(await load())];
+    },
+
+    /** The template, or the default one for unknown ids (e.g. a deleted template still assigned to a deck) */
+    async get(id) {
+      const all = await load();
+      if (Object.hasOwn(all, id)) return all[id];
+      if (isBuiltin(id)) return BUILTIN_TEMPLATES[id];
+      if (id) console.warn(`[prompt-templates] unknown template "${id}", using ${DEFAULT_TEMPLATE_ID}`);
+      return BUILTIN_TEMPLATES[DEFAULT_TEMPLATE_ID];
+    },
+
+    async set(id, raw) {
+      const template = normalizeTemplate(id, raw);
+      (await load())[id] = template;
+      await save();
+      return template;
+    },
+
+    async remove(id) {
+      const all = await load();
+      const existed = Object.hasOwn(all, id);
+      delete all[id];
+      if (existed) await save();
+      return existed;
+    },
+  };
+}
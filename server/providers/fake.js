@@ -0,0 +1,75 @@
+// server/providers/fake.js
+// Deterministic offline providers: same input → same output, no network, no token.
+// - STT: if the "audio" payload is really UTF-8 text, that text is the transcript
+//        (lets tests and curl send `data:audio/webm;base64,<base64 of the answer>`),
+//        otherwise a fixed transcript
+// - TTS: a short silent WAV whose length grows with the text
+// - LLM: echoes the last user message and appends a verdict block when one is requested
+
+export const FAKE_TRANSCRIPT = "this is a fake transcript";
+
+function decodeTextPayload(dataUrl) {
+  const m = String(dataUrl || "").match(/^data:[^,]*;base64,([A-Za-z0-9+/=_-]*)$/);
+  if (!m) return null;
+  const text = Buffer.from(m[1], "base64").toString("utf8");
+  // Real audio containers are full of control bytes / replacement chars
+  return /^[\p{L}\p{N}\p{P}\p{Zs}\n]+$/u.test(text) ? text.trim() : null;
+}
+
+export function silentWav(durationMs, sampleRate = 8000) {
+  const samples = Math.max(1, Math.round((durationMs / 1000) * sampleRate));
+  const buf = Buffer.alloc(44 + samples * 2);
+  buf.write("RIFF", 0);
+  buf.writeUInt32LE(36 + samples * 2, 4);
+  buf.write("WAVE", 8);
+  buf.write("fmt ", 12);
+  buf.writeUInt32LE(16, 16);        // PCM chunk size
+  buf.writeUInt16LE(1, 20);         // PCM
+  buf.writeUInt16LE(1, 22);         // mono
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * 2, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write("data", 36);
+  buf.writeUInt32LE(samples * 2, 40);
+  return buf;
+}
+
+export function createFakeProviders({ transcript = FAKE_TRANSCRIPT } = {}) {
+  const stt = {
+    name: "fake",
+    async transcribe({ audio }) {
+      return decodeTextPayload(audio) ?? transcript;
+    },
+  };
+
+  const tts = {
+    name: "fake",
+    async synthesize({ text }) {
+      // ~60 ms per character, like a brisk speaker
+      return { audio: silentWav(Math.min(60_000, 200 + String(text || "").length * 60)), contentType: "audio/wav" };
+    },
+  };
+
+  const llm = {
+    name: "fake",
+    async *stream({ system, messages, signal }) {
+      const lastUser = [...(messages || [])].reverse().find(m => m.role === "user")?.content || "";
+      const said = (String(lastUser).match(/Learner said:\n([\s\S]*)$/) || [])[1]?.trim();
+      let reply = said != null
+        ? `Fake feedback. You said: "${said}".`
+        : `Fake reply to: ${String(lastUser).slice(0, 120)}`;
+      if (/<verdict>/.test(system || "")) {
+        const verdict = said ? "correct" : "wrong";
+        reply += `\n<verdict>{"verdict":"${verdict}","ease":${said ? 3 : 1},"missed":[],"confidence":0.9}</verdict>`;
+      }
+      // Word-sized chunks, like a real token stream
+      for (const part of reply.match(/\S+\s*|\s+/g) || []) {
+        if (signal?.aborted) return;
+        yield part;
+      }
+    },
+  };
+
+  return { stt, tts, llm };
+}
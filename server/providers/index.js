@@ -0,0 +1,64 @@
+// server/providers/index.js
+// Chooses the STT / TTS / LLM backends from configuration.
+//
+//   PROVIDER=replicate|openai|fake        default for all three (replicate)
+//   STT_PROVIDER / TTS_PROVIDER / LLM_PROVIDER   per-kind override
+//
+//   replicate: REPLICATE_API_TOKEN, REPLICATE_STT_MODEL, REPLICATE_TTS_MODEL, REPLICATE_LLM_MODEL
+//   openai:    OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_API_KEY,
+//              STT_BASE_URL / TTS_BASE_URL / LLM_BASE_URL (e.g. whisper.cpp and llama.cpp on different ports),
+//              OPENAI_STT_MODEL, OPENAI_TTS_MODEL, OPENAI_TTS_VOICE, OPENAI_LLM_MODEL
+
+import { createReplicateProviders } from "./replicate.js";
+import { createOpenAICompatibleProviders } from "./openai.js";
+import { createFakeProviders } from "./fake.js";
+
+const KINDS = ["stt", "tts", "llm"];
+
+const FACTORIES = {
+  replicate: (env) => createReplicateProviders({
+    token: env.REPLICATE_API_TOKEN,
+    models: { stt: env.REPLICATE_STT_MODEL, tts: env.REPLICATE_TTS_MODEL, llm: env.REPLICATE_LLM_MODEL },
+  }),
+  openai: (env) => createOpenAICompatibleProviders({
+    baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+    apiKey: env.OPENAI_API_KEY,
+    baseUrls: { stt: env.STT_BASE_URL, tts: env.TTS_BASE_URL, llm: env.LLM_BASE_URL },
+    models: { stt: env.OPENAI_STT_MODEL, tts: env.OPENAI_TTS_MODEL, llm: env.OPENAI_LLM_MODEL },
+    voice: env.OPENAI_TTS_VOICE || "alloy",
+  }),
+  fake: () => createFakeProviders(),
+};
+
+export function createProvidersFromEnv(env = process.env) {
+  const fallback = String(env.PROVIDER || "replicate").toLowerCase();
+  const built = new Map(); // one instance per backend, shared by kinds
+  const out = {};
+  for (const kind of KINDS) {
+    const name = String(env[`${kind.toUpperCase()}_PROVIDER`] || fallback).toLowerCase();
+    const factory = FACTORIES[name];
+    if (!factory) throw new Error(`Unknown ${kind.toUpperCase()}_PROVIDER: ${name} (expected ${Object.keys(FACTORIES).join(", ")})`);
+    if (!built.has(name)) built.set(name, factory(env));
+    out[kind] = built.get(name)[kind];
+  }
+  return out;
+}
+
+let active = null;
+
+/** Current { stt, tts, llm }; built lazily so dotenv has been loaded by then. */
+export function getProviders() {
+  if (!active) active = createProvidersFromEnv();
+  return active;
+}
+
+/** Replace some or all providers (tests, or switching backends at runtime). */
+export function setProviders(overrides) {
+  active = { ...getProviders(), ...overrides };
+  return active;
+}
+
+/** Drop the cached instances; the next getProviders() re-reads the environment. */
+export function resetProviders() {
+  active = null;
+}
@@ -0,0 +1,140 @@
+// server/providers/openai.js
+// Any OpenAI-compatible HTTP endpoint: OpenAI itself, llama.cpp server, whisper.cpp server,
+// faster-whisper-server, LocalAI, vLLM, Ollama (/v1) …
+
+import FormData from "form-data";
+
+const trimSlash = (u) => String(u || "").replace(/\/+$/, "");
+
+function authHeaders(apiKey) {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+async function failFromResponse(res, what) {
+  const t = await res.text().catch(() => "");
+  return new Error(`${what} failed (${res.status}): ${t.slice(0, 400)}`);
+}
+
+function dataUrlToBuffer(dataUrl) {
+  const m = String(dataUrl).match(/^data:([^;,]+)[^,]*,([A-Za-z0-9+/=_-]+)$/);
+  if (!m) throw new Error("Invalid data URL for audio");
+  return { contentType: m[1] || "application/octet-stream", buf: Buffer.from(m[2], "base64") };
+}
+
+// Whisper wants ISO-639-1; the client sends names like "german"
+const LANGUAGE_CODES = {
+  german: "de", english: "en", french: "fr", spanish: "es", italian: "it", dutch: "nl",
+  portuguese: "pt", polish: "pl", russian: "ru", turkish: "tr", japanese: "ja", chinese: "zh", korean: "ko",
+};
+export function toLanguageCode(language) {
+  if (!language) return undefined;
+  const l = String(language).trim().toLowerCase();
+  return LANGUAGE_CODES[l] || (l.length <= 3 ? l : undefined);
+}
+
+/**
+ * Parse an OpenAI-style SSE body ("data: {...}\n\n" … "data: [DONE]") into content deltas.
+ */
+export async function* readChatCompletionStream(body) {
+  const decoder = new TextDecoder();
+  let buf = "";
+  for await (const chunk of body) {
+    buf += decoder.decode(chunk, { stream: true });
+    let idx;
+    while ((idx = buf.indexOf("\n")) >= 0) {
+      const line = buf.slice(0, idx).trim();
+      buf = buf.slice(idx + 1);
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      try {
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      } catch {}
+    }
+  }
+}
+
+/**
+ * @param {object} opts
+ * @param {string} opts.baseUrl        e.g. http://127.0.0.1:8080/v1
+ * @param {string} [opts.apiKey]
+ * @param {object} [opts.models]       { stt, tts, llm }
+ * @param {string} [opts.voice]        default TTS voice when the request doesn't map to one
+ * @param {object} [opts.baseUrls]     per-kind overrides { stt, tts, llm }
+ */
+export function createOpenAICompatibleProviders({ baseUrl, apiKey, models = {}, voice = "alloy", baseUrls = {} } = {}) {
+  const urlFor = (kind) => trimSlash(baseUrls[kind] || baseUrl);
+  const MODELS = { stt: "whisper-1", tts: "tts-1", llm: "gpt-4.1", ...Object.fromEntries(Object.entries(models).filter(([, v]) => v)) };
+
+  const stt = {
+    name: "openai",
+    async transcribe({ audio, language }) {
+      const { contentType, buf } = dataUrlToBuffer(audio);
+      const ext = (contentType.split("/")[1] || "webm").split(";")[0];
+
+      const form = new FormData();
+      form.append("file", buf, { filename: `utterance.${ext}`, contentType, knownLength: buf.length });
+      form.append("model", MODELS.stt);
+      form.append("response_format", "json");
+      form.append("temperature", "0");
+      const code = toLanguageCode(language);
+      if (code) form.append("language", code);
+
+      const res = await fetch(`${urlFor("stt")}/audio/transcriptions`, {
+        method: "POST",
+        headers: { ...form.getHeaders(), ...authHeaders(apiKey) },
+        body: form.getBuffer(),
+      });
+      if (!res.ok) throw await failFromResponse(res, "STT request");
+      const j = await res.json();
+      return String(j?.text || "").trim();
+    },
+  };
+
+  const tts = {
+    name: "openai",
+    async synthesize({ text, voice_id, speed = 1 }) {
+      const res = await fetch(`${urlFor("tts")}/audio/speech`, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...authHeaders(apiKey) },
+        body: JSON.stringify({
+          model: MODELS.tts,
+          input: text,
+          // MiniMax voice ids (e.g. "Friendly_Person") mean nothing here
+          voice: voice_id && !/_/.test(voice_id) ? voice_id : voice,
+          speed,
+          response_format: "mp3",
+        }),
+      });
+      if (!res.ok) throw await failFromResponse(res, "TTS request");
+      const contentType = res.headers.get("content-type") || "audio/mpeg";
+      return { audio: Buffer.from(await res.arrayBuffer()), contentType };
+    },
+  };
+
+  const llm = {
+    name: "openai",
+    async *stream({ system, messages, temperature = 0.2, maxTokens = 1024, signal }) {
+      const res = await fetch(`${urlFor("llm")}/chat/completions`, {
+        method: "POST",
+        signal,
+        headers: { "content-type": "application/json", ...authHeaders(apiKey) },
+        body: JSON.stringify({
+          model: MODELS.llm,
+          stream: true,
+          temperature,
+          max_tokens: maxTokens,
+          messages: [
+            ...(system ? [{ role: "system", content: system }] : []),
+            ...messages,
+          ],
+        }),
+      });
+      if (!res.ok) throw await failFromResponse(res, "Chat completion");
+      yield* readChatCompletionStream(res.body);
+    },
+  };
+
+  return { stt, tts, llm };
+}
@@ -0,0 +1,181 @@
+// server/providers/replicate.js
+// Replicate-hosted models: Whisper (STT), MiniMax speech (TTS), GPT via replicate.stream (LLM)
+
+import Replicate from "replicate";
+import FormData from "form-data";
+
+export const REPLICATE_DEFAULT_MODELS = {
+  stt: "vaibhavs10/incredibly-fast-whisper:3ab86df6c8f54c11309d4d1f930ac292bad43ace52d10c80d87eb258b3c9f79c",
+  tts: "minimax/speech-02-hd",
+  llm: "openai/gpt-4.1",
+};
+
+// Normalize any TTS model output to a string URL
+export function normalizeUrlFromOutput(out) {
+  // Case 0: some SDK builds expose a function url() → URL or string
+  if (out && typeof out === "object" && typeof out.url === "function") {
+    try {
+      const u = out.url();
+      if (u && typeof u === "object" && typeof u.href === "string") return u.href; // URL instance
+      if (typeof u === "string") return u;
+    } catch {}
+  }
+
+  // Case 1: directly a string
+  if (typeof out === "string") return out;
+
+  // Case 2: array of strings
+  if (Array.isArray(out)) return out[0] || null;
+
+  // Case 3: object with url/audio/output
+  if (out && typeof out === "object") {
+    if (typeof out.url === "string") return out.url;
+    if (typeof out.audio === "string") return out.audio;
+    if (Array.isArray(out.output) && out.output[0]) return out.output[0];
+  }
+
+  // Case 4: last-resort deep scan for any http(s) URL (prefer .mp3)
+  const urls = [];
+  (function walk(v) {
+    if (v == null) return;
+    if (typeof v === "string" && /^https?:\/\//i.test(v)) urls.push(v);
+    else if (Array.isArray(v)) v.forEach(walk);
+    else if (typeof v === "object") Object.values(v).forEach(walk);
+  })(out);
+  return urls.find(u => /\.mp3(\?|$)/i.test(u)) || urls[0] || null;
+}
+
+// Normalize any Whisper-style output to a transcript string ("" if nothing usable)
+export function normalizeTextFromOutput(out) {
+  if (!out) return "";
+  if (typeof out === "string") return out.trim();
+  if (Array.isArray(out)) {
+    // some whisper forks return [ { text, ... } ] or [ "text" ]
+    if (typeof out[0] === "string") return out.join(" ").trim();
+    const joined = out.map(s => s?.text ?? "").join(" ").trim();
+    if (joined) return joined;
+  }
+  if (typeof out === "object") {
+    // common shapes
+    if (typeof out.text === "string") return out.text.trim();
+    if (typeof out.transcription === "string") return out.transcription.trim();
+    if (Array.isArray(out.segments)) return out.segments.map(s => s?.text ?? "").join(" ").trim();
+  }
+  return "";
+}
+
+// --- Helper: upload a data: URL to Replicate Files (using 'form-data') ---
+async function uploadToReplicateFilesFromDataUrl(token, dataUrl, filename = "utterance.webm") {
+  if (!token) throw new Error("Missing REPLICATE_API_TOKEN");
+
+  // Extract content type + base64 from data URL
+  const m = String(dataUrl).match(/^data:([^;,]+)[^,]*,([A-Za-z0-9+/=_-]+)$/);
+  if (!m) throw new Error("Invalid data URL for audio");
+  const contentType = m[1] || "application/octet-stream";
+  const base64 = m[2];
+  const buf = Buffer.from(base64, "base64");
+
+  // Build classic multipart form with explicit filename + content type
+  const form = new FormData();
+  form.append("file", buf, { filename, contentType, knownLength: buf.length });
+
+  // NOTE: we must pass form.getHeaders() so boundary is set correctly
+  const up = await fetch("https://api.replicate.com/v1/files", {
+    method: "POST",
+    headers: {
+      ...form.getHeaders(),
+      Authorization: `Bearer ${token}`,
+    },
+    // form is a stream; fetch will stream it correctly
+    body: form,
+  });
+
+  if (!up.ok) {
+    const t = await up.text().catch(() => "");
+    throw new Error(`Replicate file upload failed (${up.status}): ${t}`);
+  }
+  const j = await up.json();
+  if (!j?.url) throw new Error("Upload did not return a file URL");
+  return j.url;
+}
+
+/**
+ * @param {object} opts
+ * @param {string} [opts.token]   REPLICATE_API_TOKEN
+ * @param {object} [opts.client]  pre-built Replicate client (anything with run/stream)
+ * @param {object} [opts.models]  { stt, tts, llm } model ids overriding the defaults
+ */
+export function createReplicateProviders({ token, client, models = {} } = {}) {
+  const replicate = client || new Replicate({ auth: token });
+  const MODELS = { ...REPLICATE_DEFAULT_MODELS, ...Object.fromEntries(Object.entries(models).filter(([, v]) => v)) };
+  const requireToken = () => {
+    if (!client && !token) throw new Error("Missing REPLICATE_API_TOKEN");
+  };
+
+  const stt = {
+    name: "replicate",
+    async transcribe({ audio, language }) {
+      requireToken();
+
+      // Decide input mode: data URI (fast path) vs upload to files (fallback for big audio)
+      const approxBytes = Math.round((String(audio).length / 4) * 3);
+      console.log("  audio size ~", Math.round(approxBytes / 1024), "KB");
+
+      let audioInput = audio; // default: pass data URI directly to the model (works < ~1 MB)
+      if (approxBytes >= 1_000_000) {
+        // Fallback: for larger recordings, upload to /v1/files and pass the returned URL
+        console.log("  large audio, uploading to Replicate Files…");
+        const ext = (String(audio).match(/^data:audio\/([a-z0-9]+)/i)?.[1] || "webm").toLowerCase();
+        audioInput = await uploadToReplicateFilesFromDataUrl(token, audio, `utterance.${ext}`);
+        console.log("  uploaded file:", audioInput);
+      }
+
+      const out = await replicate.run(MODELS.stt, {
+        input: {
+          task: "transcribe",
+          audio: audioInput,               // <-- data URI or uploaded URL
+          batch_size: 64,
+          return_timestamps: false,
+          language: language || undefined,
+          temperature: 0,
+        },
+      });
+      return normalizeTextFromOutput(out);
+    },
+  };
+
+  const tts = {
+    name: "replicate",
+    async synthesize(input) {
+      requireToken();
+      const out = await replicate.run(MODELS.tts, { input });
+      const url = normalizeUrlFromOutput(out);
+      if (!url) {
+        const debug = (() => { try { return JSON.stringify(out).slice(0, 800); } catch { return String(out); } })();
+        throw Object.assign(new Error("No URL from Replicate output"), { status: 502, debug });
+      }
+      return { url };
+    },
+  };
+
+  const llm = {
+    name: "replicate",
+    async *stream({ system, messages, temperature = 0.2, maxTokens = 1024, signal }) {
+      requireToken();
+      const input = {
+        top_p: 1,
+        temperature,
+        presence_penalty: 0,
+        frequency_penalty: 0,
+        max_completion_tokens: maxTokens,
+        system_prompt: system || "",
+        messages,
+      };
+      for await (const event of replicate.stream(MODELS.llm, { input, signal })) {
+        yield event.toString();
+      }
+    },
+  };
+
+  return { stt, tts, llm };
+}
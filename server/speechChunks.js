@@ -0,0 +1,106 @@
+// server/speechChunks.js
+// Splits text for chunked TTS: at sentence ends (and line breaks), never after abbreviations
+// ("z. B.", "Dr.", "e.g."), German ordinals ("am 3. Mai") or initials; sentences that are still too
+// long are cut at clause boundaries (; : , dashes), as a last resort at a space.
+// The first chunk is kept short so its audio is ready quickly; later chunks pack whole sentences.
+
+const ABBREVIATIONS = new Set([
+  // German
+  "z", "b", "bzw", "ca", "d", "h", "u", "a", "usw", "vgl", "evtl", "ggf", "inkl", "exkl", "bzgl", "nr", "s",
+  "abb", "tab", "kap", "dr", "prof", "med", "dipl", "ing", "hr", "fr", "str", "jh", "jhd", "mio", "mrd",
+  "min", "max", "std", "sek", "tel", "o", "ä", "v", "chr", "geb", "gest", "zzgl", "etc", "sog", "allg",
+  // English
+  "e", "g", "i", "mr", "mrs", "ms", "vs", "approx", "fig", "st", "jr", "sr", "dept", "al",
+]);
+
+const CLOSERS = `"'”’»«)]`;
+const OPENERS = `"'„“‚‘»«([`;
+
+function isSentenceEnd(text, i) {
+  const ch = text[i];
+  if (!".!?…".includes(ch)) return false;
+
+  // Punctuation runs ("?!", "...") end at their last mark
+  if ("!?.…".includes(text[i + 1] || "")) return false;
+
+  let j = i + 1;
+  while (j < text.length && CLOSERS.includes(text[j])) j++;
+  if (j < text.length && !/\s/.test(text[j])) return false; // "3.5", "z.B.x", "www.x"
+  while (j < text.length && /[ \t]/.test(text[j])) j++;
+  if (j >= text.length || text[j] === "\n") return true;
+
+  const next = text[j];
+  if (ch === ".") {
+    const word = text.slice(0, i).match(/([\p{L}\d.]+)$/u)?.[1] || "";
+    const last = word.split(".").pop() || "";
+    if (ABBREVIATIONS.has(last.toLowerCase())) return false;   // "Dr. Müller", "z. B. das"
+    if (/^\p{L}$/u.test(last)) return false;                   // initials "A. Einstein"
+    if (/^\d{1,2}$/.test(last) && /\p{L}/u.test(next)) return false; // German ordinals "am 3. Mai"
+    if (/^\p{Ll}/u.test(next)) return false;                   // lowercase continues the sentence
+  }
+  return /[\p{Lu}\d]/u.test(next) || OPENERS.includes(next) || /\p{Ll}/u.test(next);
+}
+
+/** Sentences (and lines), trimmed, in order */
+export function splitSentences(text) {
+  const s = String(text || "").replace(/\r\n?/g, "\n");
+  const out = [];
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "\n" || isSentenceEnd(s, i)) {
+      let end = i + 1;
+      while (end < s.length && CLOSERS.includes(s[end])) end++;
+      const piece = s.slice(start, end).replace(/\s+/g, " ").trim();
+      if (piece) out.push(piece);
+      start = end;
+      i = end - 1;
+    }
+  }
+  const rest = s.slice(start).replace(/\s+/g, " ").trim();
+  if (rest) out.push(rest);
+  return out;
+}
+
+// Cuts an over-long sentence at the last clause boundary before `limit` (but not too early)
+function splitLong(sentence, limit) {
+  const parts = [];
+  let s = sentence;
+  while (s.length > limit) {
+    const head = s.slice(0, limit);
+    const minCut = Math.floor(limit * 0.3);
+    let cut = -1;
+    for (const re of [/[;:](?=\s)/g, /,(?=\s)/g, /\s[-–—](?=\s)/g, /\s/g]) {
+      let m;
+      while ((m = re.exec(head))) if (m.index >= minCut) cut = m.index + (m[0].trim() ? m[0].length : 0);
+      if (cut > 0) break;
+    }
+    if (cut <= 0) cut = limit;
+    parts.push(s.slice(0, cut).trim());
+    s = s.slice(cut).trim();
+  }
+  if (s) parts.push(s);
+  return parts;
+}
+
+/**
+ * Chunks for TTS.
+ * @param {string} text
+ * @param {{ firstChars?: number, maxChars?: number }} [opts]  first chunk / later chunks (characters)
+ */
+export function splitForSpeech(text, { firstChars = 160, maxChars = 400 } = {}) {
+  const chunks = [];
+  let current = "";
+  const limit = () => (chunks.length ? maxChars : firstChars);
+
+  for (const sentence of splitSentences(text)) {
+    for (const piece of sentence.length > limit() ? splitLong(sentence, limit()) : [sentence]) {
+      if (current && current.length + 1 + piece.length > limit()) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
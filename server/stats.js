@@ -0,0 +1,116 @@
+// server/stats.js
+// Summaries of the review history (history.js) per session and per deck, and a cross-check of
+// recorded grades against Anki's own revlog (getReviewsOfCards).
+
+const EASES = [1, 2, 3, 4];
+const REPEATED_FAIL = 2; // "Again" this often → listed as a problem card
+
+const avg = (xs) => (xs.length ? Math.round(xs.reduce((a, b) => a + b, 0) / xs.length) : null);
+const nums = (xs) => xs.filter((x) => typeof x === "number" && Number.isFinite(x));
+
+function roundTrip(records, key) {
+  const all = nums(records.flatMap((r) => r.timings?.[key] || []));
+  return { count: all.length, avgMs: avg(all), maxMs: all.length ? Math.max(...all) : null };
+}
+
+/**
+ * Stats for a set of history records.
+ * agreement compares the ease the learner chose with the ease the evaluation suggested
+ * (only attempts with a valid verdict): exact match, and pass/fail match (Again vs. the rest).
+ */
+export function summarize(records) {
+  const easeDistribution = Object.fromEntries(EASES.map((e) => [e, 0]));
+  const fails = new Map(); // cardId -> count of "Again"
+  let compared = 0, exact = 0, passFail = 0;
+
+  for (const r of records) {
+    if (easeDistribution[r.ease] != null) easeDistribution[r.ease]++;
+    if (r.ease === 1 && r.cardId != null) fails.set(r.cardId, (fails.get(r.cardId) || 0) + 1);
+
+    const ai = r.verdict?.valid ? r.verdict.ease : null;
+    if (ai && r.ease) {
+      compared++;
+      if (ai === r.ease) exact++;
+      if ((ai === 1) === (r.ease === 1)) passFail++;
+    }
+  }
+
+  const discuss = nums(records.map((r) => r.timings?.discussMs)).filter((ms) => ms > 0);
+  const ts = records.map((r) => r.ts);
+
+  return {
+    attempts: records.length,
+    cardsReviewed: new Set(records.map((r) => r.cardId)).size,
+    firstTs: ts.length ? Math.min(...ts) : null,
+    lastTs: ts.length ? Math.max(...ts) : null,
+    easeDistribution,
+    avgLatencyMs: avg(nums(records.map((r) => r.latencyMs))),
+    roundTrips: { stt: roundTrip(records, "sttMs"), llm: roundTrip(records, "llmMs"), tts: roundTrip(records, "ttsMs") },
+    discuss: { count: discuss.length, totalMs: discuss.reduce((a, b) => a + b, 0) },
+    repeatedlyFailed: [...fails.entries()]
+      .filter(([, n]) => n >= REPEATED_FAIL)
+      .sort((a, b) => b[1] - a[1])
+      .map(([cardId, failCount]) => ({ cardId, failCount })),
+    agreement: {
+      compared,
+      exact,
+      passFail,
+      exactRate: compared ? exact / compared : null,
+      passFailRate: compared ? passFail / compared : null,
+    },
+  };
+}
+
+function groupBy(records, keyOf) {
+  const groups = new Map();
+  for (const r of records) {
+    const k = keyOf(r);
+    if (k == null) continue;
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k).push(r);
+  }
+  return groups;
+}
+
+/** Per-session (newest first) and per-deck summaries plus the overall total */
+export function buildStats(records) {
+  const sessions = [...groupBy(records, (r) => r.sessionId)].map(([sessionId, rs]) => ({
+    sessionId,
+    deckName: rs[0].sessionDeck || rs[0].deckName,
+    sessionMode: rs[0].sessionMode,
+    ...summarize(rs),
+  })).sort((a, b) => b.firstTs - a.firstTs);
+
+  const decks = [...groupBy(records, (r) => r.deckName)].map(([deckName, rs]) => ({ deckName, ...summarize(rs) }))
+    .sort((a, b) => a.deckName.localeCompare(b.deckName));
+
+  return { total: summarize(records), sessions, decks };
+}
+
+/**
+ * Match recorded grades with Anki's revlog: a record counts as matched when the card has a review
+ * with the same ease within toleranceMs of the record's timestamp.
+ * @param {object[]} records
+ * @param {Record<string, {id:number, ease:number}[]>} reviewsByCard  getReviewsOfCards result
+ */
+export function compareWithRevlog(records, reviewsByCard, { toleranceMs = 120000 } = {}) {
+  const used = new Set(); // revlog ids already matched
+  const mismatches = [];
+  let matched = 0;
+
+  for (const r of records) {
+    const reviews = reviewsByCard[String(r.cardId)] || [];
+    const near = reviews
+      .filter((rev) => !used.has(rev.id) && Math.abs(rev.id - r.ts) <= toleranceMs)
+      .sort((a, b) => Math.abs(a.id - r.ts) - Math.abs(b.id - r.ts));
+    const same = near.find((rev) => rev.ease === r.ease);
+    if (same) { used.add(same.id); matched++; continue; }
+    mismatches.push({
+      historyId: r.id, cardId: r.cardId, ts: r.ts, ease: r.ease,
+      ankiEase: near[0]?.ease ?? null,
+      reason: near.length ? "ease_differs" : "not_in_revlog",
+    });
+    if (near[0]) used.add(near[0].id);
+  }
+  return { checked: records.length, matched, mismatches };
+}
@@ -0,0 +1,40 @@
+// server/storage.js
+// Where the server keeps its state on disk, plus small JSON file helpers.
+// DATA_DIR is read lazily so a .env loaded after import still applies.
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+
+export function dataPath(...parts) {
+  return path.join(process.env.DATA_DIR || path.join(HERE, "data"), ...parts);
+}
+
+export async function readJson(file, fallback) {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch (e) {
+    if (e.code === "ENOENT") return fallback;
+    console.warn(`[storage] unreadable ${file}, starting fresh:`, e.message);
+    return fallback;
+  }
+}
+
+/**
+ * A JSON object keyed by user-chosen names (deck, note type, template id), without a prototype:
+ * "constructor" or "__proto__" are ordinary keys there, not Object.prototype members.
+ */
+export async function readJsonRecord(file) {
+  const data = await readJson(file, {});
+  return Object.assign(Object.create(null), data && typeof data === "object" && !Array.isArray(data) ? data : {});
+}
+
+// Write to a temp file and rename, so a crash never leaves half a JSON file behind
+export async function writeJsonAtomic(file, data) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+}
@@ -0,0 +1,212 @@
+// server/telemetry.js
+// Latency and usage tracing for everything that leaves the process (AnkiConnect, STT, LLM, TTS)
+// plus every HTTP request. Each request gets a trace ID (X-Trace-Id, kept in AsyncLocalStorage),
+// and every span records its duration and, where it applies, time to first token and sizes:
+// bytesIn / bytesOut, chars, tokensIn / tokensOut (estimates), audioMs, retries.
+// Aggregates per kind + name are served by /api/metrics as JSON or Prometheus text.
+// In memory only: counters start at zero with every server start.
+
+import crypto from "node:crypto";
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const als = new AsyncLocalStorage();
+
+// Numeric attributes that are summed per series (booleans are counted when true)
+const TOTALS = ["bytesIn", "bytesOut", "chars", "tokensIn", "tokensOut", "audioMs", "retries"];
+const BUCKETS_S = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+const RESERVOIR = 500;   // latest durations per series, for percentiles
+const RECENT = 1000;     // latest spans, for /api/metrics/traces/:traceId
+
+let startedAt = Date.now();
+let series = new Map();  // "kind\u0000name" -> aggregate
+let recent = [];
+
+const isTraceId = (v) => /^[\w-]{8,64}$/.test(String(v || ""));
+
+export const currentTraceId = () => als.getStore()?.traceId || null;
+
+/** Express middleware: a trace ID per request (an incoming X-Trace-Id is kept) and an http span */
+export function traceMiddleware(req, res, next) {
+  const incoming = req.get("x-trace-id");
+  const traceId = isTraceId(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader("X-Trace-Id", traceId);
+  als.run({ traceId }, () => {
+    const span = startSpan("http", req.method);
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      // The matched route ("/api/audio/:hash"), known only after routing. Never the raw path: every
+      // probed URL would become its own series.
+      span.name = `${req.method} ${req.route?.path || "<unmatched>"}`;
+      span.end({ status: res.statusCode, aborted: !res.writableFinished });
+    };
+    res.on("finish", finish);
+    res.on("close", finish);
+    next();
+  });
+}
+
+/**
+ * Starts a span in the current trace. set() adds attributes, firstToken() marks the time to first
+ * token (once), end(attrs?, error?) records it.
+ */
+export function startSpan(kind, name, attrs = {}) {
+  const t0 = performance.now();
+  const span = {
+    traceId: currentTraceId(),
+    kind,
+    name: String(name),
+    attrs: { ...attrs },
+    ttftMs: null,
+    set(more) {
+      Object.assign(span.attrs, more);
+      return span;
+    },
+    firstToken() {
+      if (span.ttftMs == null) span.ttftMs = Math.round(performance.now() - t0);
+    },
+    end(more = {}, error = null) {
+      Object.assign(span.attrs, more);
+      record({
+        traceId: span.traceId, kind, name: span.name, ts: Date.now(),
+        durationMs: Math.round(performance.now() - t0), ttftMs: span.ttftMs,
+        ok: !error, error: error ? String(error.message || error) : undefined,
+        attrs: span.attrs,
+      });
+    },
+  };
+  return span;
+}
+
+/** Runs fn(span) inside a span; errors are recorded and rethrown */
+export async function traced(kind, name, fn, attrs) {
+  const span = startSpan(kind, name, attrs);
+  try {
+    const out = await fn(span);
+    span.end();
+    return out;
+  } catch (e) {
+    span.end({}, e);
+    throw e;
+  }
+}
+
+function record(s) {
+  recent.push(s);
+  if (recent.length > RECENT) recent = recent.slice(-RECENT);
+
+  const key = `${s.kind}\u0000${s.name}`;
+  let agg = series.get(key);
+  if (!agg) {
+    agg = { kind: s.kind, name: s.name, count: 0, errors: 0, sumMs: 0, maxMs: 0, durations: [], ttfts: [],
+      buckets: BUCKETS_S.map(() => 0), totals: {} };
+    series.set(key, agg);
+  }
+  agg.count++;
+  if (!s.ok) agg.errors++;
+  agg.sumMs += s.durationMs;
+  agg.maxMs = Math.max(agg.maxMs, s.durationMs);
+  BUCKETS_S.forEach((le, i) => { if (s.durationMs / 1000 <= le) agg.buckets[i]++; });
+  agg.durations.push(s.durationMs);
+  if (agg.durations.length > RESERVOIR) agg.durations.shift();
+  if (s.ttftMs != null) {
+    agg.ttfts.push(s.ttftMs);
+    if (agg.ttfts.length > RESERVOIR) agg.ttfts.shift();
+  }
+  for (const [k, v] of Object.entries(s.attrs)) {
+    if (TOTALS.includes(k) && Number.isFinite(v)) agg.totals[k] = (agg.totals[k] || 0) + v;
+    else if (v === true) agg.totals[k] = (agg.totals[k] || 0) + 1;
+  }
+}
+
+function percentiles(values) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return { avg: Math.round(sorted.reduce((a, b) => a + b, 0) / sorted.length), p50: at(0.5), p95: at(0.95), max: sorted.at(-1) };
+}
+
+/** Aggregates per kind + name (slowest total time first) and the latest spans */
+export function metricsSnapshot({ recentLimit = 50 } = {}) {
+  return {
+    since: startedAt,
+    series: [...series.values()]
+      .sort((a, b) => b.sumMs - a.sumMs)
+      .map((a) => ({
+        kind: a.kind, name: a.name, count: a.count, errors: a.errors, totalMs: a.sumMs,
+        durationMs: percentiles(a.durations), ttftMs: percentiles(a.ttfts), totals: a.totals,
+      })),
+    recent: recent.slice(-recentLimit).reverse(),
+  };
+}
+
+export const traceSpans = (traceId) => recent.filter((s) => s.traceId === traceId);
+
+const label = (v) => String(v).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/** Prometheus text exposition format */
+export function metricsPrometheus() {
+  const lines = [];
+  const aggs = [...series.values()];
+  const labels = (a, extra = "") => `kind="${label(a.kind)}",name="${label(a.name)}"${extra}`;
+
+  lines.push("# HELP anki_voice_span_duration_seconds Duration of external calls and HTTP requests.");
+  lines.push("# TYPE anki_voice_span_duration_seconds histogram");
+  for (const a of aggs) {
+    BUCKETS_S.forEach((le, i) => lines.push(`anki_voice_span_duration_seconds_bucket{${labels(a, `,le="${le}"`)}} ${a.buckets[i]}`));
+    lines.push(`anki_voice_span_duration_seconds_bucket{${labels(a, ',le="+Inf"')}} ${a.count}`);
+    lines.push(`anki_voice_span_duration_seconds_sum{${labels(a)}} ${a.sumMs / 1000}`);
+    lines.push(`anki_voice_span_duration_seconds_count{${labels(a)}} ${a.count}`);
+  }
+
+  lines.push("# HELP anki_voice_span_errors_total Failed spans.");
+  lines.push("# TYPE anki_voice_span_errors_total counter");
+  for (const a of aggs) lines.push(`anki_voice_span_errors_total{${labels(a)}} ${a.errors}`);
+
+  lines.push("# HELP anki_voice_time_to_first_token_seconds Time to first token of streamed LLM replies (recent median).");
+  lines.push("# TYPE anki_voice_time_to_first_token_seconds gauge");
+  for (const a of aggs) {
+    const p = percentiles(a.ttfts);
+    if (p) lines.push(`anki_voice_time_to_first_token_seconds{${labels(a)}} ${p.p50 / 1000}`);
+  }
+
+  lines.push("# HELP anki_voice_usage_total Summed usage per span kind: bytes, characters, estimated tokens, audio ms, retries.");
+  lines.push("# TYPE anki_voice_usage_total counter");
+  for (const a of aggs) {
+    for (const [k, v] of Object.entries(a.totals)) lines.push(`anki_voice_usage_total{${labels(a, `,attr="${label(k)}"`)}} ${v}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function resetMetrics() {
+  startedAt = Date.now();
+  series = new Map();
+  recent = [];
+}
+
+/**
+ * Playback length of encoded audio, or null when unknown. WAV from its header; MP3 from the
+ * first frame's bitrate (exact for constant bitrate, which is what TTS services send).
+ */
+export function audioDurationMs(buf, contentType = "") {
+  if (!buf || buf.length < 44) return null;
+  if (buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WAVE") {
+    const byteRate = buf.readUInt32LE(28);
+    return byteRate ? Math.round(((buf.length - 44) / byteRate) * 1000) : null;
+  }
+  if (/mpeg|mp3/.test(contentType)) {
+    let i = buf.toString("ascii", 0, 3) === "ID3" ? 10 + ((buf[6] << 21) | (buf[7] << 14) | (buf[8] << 7) | buf[9]) : 0;
+    for (; i < Math.min(buf.length - 4, 65536); i++) {
+      if (buf[i] !== 0xff || (buf[i + 1] & 0xe0) !== 0xe0) continue;
+      const mpeg1 = (buf[i + 1] & 0x18) === 0x18;
+      const index = buf[i + 2] >> 4;
+      const kbps = (mpeg1
+        ? [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+        : [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160])[index];
+      if (kbps) return Math.round(((buf.length - i) * 8) / kbps);
+    }
+  }
+  return null;
+}
+
@@ -0,0 +1,47 @@
+// server/test/conversations.test.js
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+
+import { createConversationStore, windowStart } from "../conversations.js";
+
+const msg = (role, chars) => ({ role, content: "x".repeat(chars) });
+
+test("windowStart keeps the newest turns that fit and starts at a user message", () => {
+  const messages = [msg("user", 200), msg("assistant", 200), msg("user", 40), msg("assistant", 40), msg("user", 40)];
+  assert.equal(windowStart(messages, 1000), 0);
+  assert.equal(windowStart(messages, 45), 2);  // 3 × 14 tokens fit, the 54-token reply does not
+  assert.equal(windowStart(messages, 20), 4);  // never fewer than the last message
+  assert.equal(windowStart(messages, 0), 4);
+  assert.equal(windowStart([msg("assistant", 10), msg("user", 10)], 100), 1);
+});
+
+test("conversation store expires idle sessions, caps their number and survives a restart", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "anki-voice-convo-"));
+  const file = path.join(dir, "conversations.json");
+  let clock = 1_000_000;
+  const now = () => clock;
+  const session = (sessionId) => ({ sessionId, system: "", messages: [{ role: "user", content: "hi", ts: clock }], pinned: 0 });
+  try {
+    const store = createConversationStore({ file, ttlMs: 60_000, maxSessions: 2, now });
+    await store.put(session("a"));
+    clock += 10;
+    await store.put(session("b"));
+    clock += 10;
+    await store.put(session("c")); // "a" is the least recently used
+    assert.deepEqual((await store.list()).map(s => s.sessionId), ["c", "b"]);
+
+    const reopened = createConversationStore({ file, ttlMs: 60_000, maxSessions: 2, now });
+    assert.equal((await reopened.get("b")).messages[0].content, "hi");
+
+    clock += 60_000 - 5; // "b" idle for longer than the TTL, "c" not yet
+    assert.equal(await reopened.get("b"), null);
+    assert.ok(await reopened.get("c"));
+    assert.equal(await reopened.remove("c"), true);
+    assert.deepEqual(await reopened.list(), []);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,924 @@
+// server/test/integration.test.js
+// End-to-end tests of the HTTP routes against the fake AnkiConnect and fake Replicate client.
+// Run: npm test   (node --test, no Anki, no network, no token)
+
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+
+import { createFakeAnkiConnect, defaultCollection } from "../fakes/ankiConnect.js";
+import { createFakeReplicate } from "../fakes/replicate.js";
+
+let anki, replicate, server, base, dataDir;
+
+before(async () => {
+  dataDir = await mkdtemp(path.join(os.tmpdir(), "anki-voice-test-"));
+  process.env.DATA_DIR = dataDir;
+  process.env.NODE_ENV = "test";
+
+  anki = createFakeAnkiConnect();
+  process.env.ANKI_URL = await anki.listen();
+
+  replicate = createFakeReplicate();
+  await replicate.listen();
+
+  const { createReplicateProviders } = await import("../providers/replicate.js");
+  const { setProviders } = await import("../providers/index.js");
+  setProviders(createReplicateProviders({ client: replicate }));
+
+  const { app } = await import("../index.js");
+  server = await new Promise((r) => { const s = app.listen(0, "127.0.0.1", () => r(s)); });
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(async () => {
+  server?.closeAllConnections?.();
+  await new Promise((r) => server.close(r));
+  await anki.close();
+  await replicate.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+// Fresh collection + reviewer for every test
+beforeEach(() => {
+  Object.assign(anki.state, createFakeAnkiConnect(defaultCollection()).state);
+  anki.clearCalls();
+  replicate.script.transcript = "Membranstabilisierung";
+  replicate.script.llmText =
+    'Richtig.\n<verdict>{"verdict":"correct","ease":3,"missed":[],"confidence":0.9}</verdict>';
+});
+
+async function api(method, route, body) {
+  const res = await fetch(`${base}/api${route}`, {
+    method,
+    headers: body ? { "content-type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: res.status, json: await res.json() };
+}
+const get = (route) => api("GET", route);
+const post = (route, body = {}) => api("POST", route, body);
+
+async function sse(route, body) {
+  const res = await fetch(`${base}/api${route}`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const text = await res.text();
+  return text.split("\n\n").filter(Boolean).map((block) => {
+    const event = block.match(/^event: (.*)$/m)?.[1];
+    const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] || "null");
+    return { event, data };
+  });
+}
+
+const audio = "data:audio/webm;base64,GkXfo0AgQoaBAUL3gQFC8oEEQvOBCEKChHdlYm1Ch4EEQoWBAhhTgGc=";
+
+// ---------- health / decks / candidates ----------
+
+test("GET /api/health reports the AnkiConnect version", async () => {
+  const { json } = await get("/health");
+  assert.deepEqual(json, { ok: true, ankiVersion: 6 });
+});
+
+test("GET /api/candidates lists due, learning and new cards of the deck and its subdecks", async () => {
+  const { json } = await get("/candidates?deckName=Pharma&limit=10");
+  assert.equal(json.ok, true);
+  assert.deepEqual([...json.cardIds].sort(), [1001, 1002, 1003]);
+
+  const missing = await get("/candidates");
+  assert.equal(missing.status, 400);
+});
+
+// ---------- GUI session flow ----------
+
+test("POST /api/start opens the reviewer; unknown decks are rejected", async () => {
+  const bad = await post("/start", { deckName: "Nope" });
+  assert.deepEqual(bad.json, { ok: false, error: "Deck not found: Nope" });
+
+  const { json } = await post("/start", { deckName: "Pharma", mode: "gui" });
+  assert.equal(json.started, true);
+  assert.equal(anki.callsOf("guiDeckReview")[0].params.name, "Pharma");
+});
+
+test("POST /api/start reports when Anki stays on the overview screen", async () => {
+  anki.state.reviewerOpensOnDeckReview = false;
+  const { json } = await post("/start", { deckName: "Pharma", mode: "gui" });
+  assert.deepEqual(json, { ok: true, started: false, reason: "reviewer_inactive_or_overview", mode: "gui" });
+});
+
+test("GET /api/current maps 'Gui review is not currently active' to an empty card", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  anki.state.reviewer.active = false;
+  const { json } = await get("/current");
+  assert.deepEqual(json, { ok: true, empty: true, reason: "reviewer_inactive" });
+});
+
+test("GET /api/current returns rendered HTML and fields of the reviewer's card", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  const { json } = await get("/current");
+  assert.equal(json.cardId, 1001);
+  assert.equal(json.modelName, "Basic");
+  assert.equal(json.ord, 0);
+  assert.match(json.frontHTML, /Calciumgluconat/);
+  assert.match(json.backHTML, /Membranstabilisierung/);
+  assert.equal(json.fields.Back.value, "Membranstabilisierung am Myokard");
+});
+
+test("POST /api/show flips the reviewer and validates the side", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+
+  const bad = await post("/show", { side: "middle" });
+  assert.equal(bad.status, 400);
+
+  const { json } = await post("/show", { side: "back", deckName: "Pharma" });
+  assert.deepEqual(json, { ok: true, reviewerActive: true });
+  assert.equal(anki.state.reviewer.side, "answer");
+});
+
+test("POST /api/answer grades the current card and advances the reviewer", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+
+  const bad = await post("/answer", { ease: 7 });
+  assert.equal(bad.status, 400);
+
+  const { json } = await post("/answer", { ease: 3 });
+  assert.deepEqual(json, { ok: true });
+  assert.deepEqual(anki.callsOf("guiAnswerCard").map(c => c.params.ease), [3]);
+  assert.equal(anki.state.revlog[0].cardId, 1001);
+
+  const next = await get("/current");
+  assert.notEqual(next.json.cardId, 1001);
+});
+
+test("ankiInvoke retries after ECONNRESET and gives up after two retries", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  anki.clearCalls();
+
+  anki.failNext("guiCurrentCard", { reset: true });
+  const ok = await get("/current");
+  assert.equal(ok.json.cardId, 1001);
+  assert.equal(anki.callsOf("guiCurrentCard").length, 2);
+
+  anki.failNext("guiCurrentCard", { reset: true }, 3);
+  const failed = await get("/current");
+  assert.equal(failed.status, 500);
+  assert.equal(failed.json.ok, false);
+});
+
+// ---------- headless session flow ----------
+
+test("headless mode builds its own queue and grades via answerCards", async () => {
+  const start = await post("/start", { deckName: "Pharma", mode: "headless" });
+  assert.equal(start.json.started, true);
+  assert.equal(start.json.mode, "headless");
+
+  const cur = await get("/current");
+  assert.equal(cur.json.cardId, 1001); // due review before new cards
+  assert.equal(anki.callsOf("guiCurrentCard").length, 0);
+
+  await post("/show", { side: "back" });
+  const ans = await post("/answer", { ease: 1 });
+  assert.deepEqual(ans.json, { ok: true });
+  assert.deepEqual(anki.callsOf("answerCards")[0].params.answers, [{ cardId: 1001, ease: 1 }]);
+
+  const candidates = await get("/candidates?deckName=Pharma");
+  assert.ok(candidates.json.cardIds.includes(1001), "failed card comes back in the session");
+
+  const cloze = await get("/current");
+  assert.equal(cloze.json.cardId, 1002);
+  assert.equal(cloze.json.ord, 1); // c2 card
+
+  await post("/start", { deckName: "Pharma", mode: "gui" }); // leave the default engine for other tests
+});
+
+// ---------- review chain ----------
+
+test("POST /api/review-chain transcribes, reviews and returns a verdict", async () => {
+  const { json } = await post("/review-chain", { audioBase64: audio, front: "Q?", back: "A", language: "german" });
+  assert.equal(json.ok, true);
+  assert.equal(json.transcript, "Membranstabilisierung");
+  assert.equal(json.reply, "Richtig.");
+  assert.deepEqual(json.verdict, { verdict: "correct", ease: 3, missed: [], confidence: 0.9, valid: true });
+
+  const stt = replicate.calls.find(c => c.method === "run");
+  assert.equal(stt.input.language, "german");
+});
+
+test("POST /api/review-chain falls back when the model returns nothing", async () => {
+  replicate.script.llmText = "";
+  const { json } = await post("/review-chain", { audioBase64: audio, front: "Q?" });
+  assert.equal(json.ok, true);
+  assert.equal(json.reply, "");
+  assert.equal(json.verdict.valid, false);
+  assert.equal(json.verdict.ease, null);
+});
+
+test("POST /api/review-chain validates input and surfaces model errors", async () => {
+  const bad = await post("/review-chain", { front: "Q?" });
+  assert.equal(bad.status, 400);
+
+  replicate.failNext("stream", new Error("model overloaded"));
+  const failed = await post("/review-chain", { transcript: "x", front: "Q?" });
+  assert.equal(failed.status, 500);
+  assert.match(failed.json.error, /model overloaded/);
+});
+
+test("POST /api/review-chain/stream sends transcript, tokens and a final done event", async () => {
+  const events = await sse("/review-chain/stream", { audioBase64: audio, front: "Q?", back: "A" });
+  assert.equal(events[0].event, "transcript");
+  assert.equal(events[0].data.transcript, "Membranstabilisierung");
+
+  const tokens = events.filter(e => e.event === "token").map(e => e.data.text).join("");
+  assert.equal(tokens.trim(), "Richtig.");
+  assert.doesNotMatch(tokens, /verdict/);
+
+  const end = events.at(-1);
+  assert.equal(end.event, "end");
+  assert.equal(end.data.status, "done");
+  assert.equal(end.data.verdict.verdict, "correct");
+});
+
+// ---------- conversation ----------
+
+test("conversation routes: start, send, reset", async () => {
+  replicate.script.llmText = "Digoxin hemmt die Na/K-ATPase.";
+
+  const noSession = await post("/conversation/send", { sessionId: "t1", user: "Warum?" });
+  assert.equal(noSession.status, 500);
+  assert.match(noSession.json.error, /No conversation session/);
+
+  assert.deepEqual((await post("/conversation/start", { sessionId: "t1", seedContext: "Card front: …" })).json, { ok: true });
+
+  const sent = await post("/conversation/send", { sessionId: "t1", user: "Warum?" });
+  assert.deepEqual(sent.json, { ok: true, reply: "Digoxin hemmt die Na/K-ATPase." });
+
+  const llmCall = replicate.calls.filter(c => c.method === "stream").at(-1);
+  assert.deepEqual(llmCall.input.messages.map(m => m.role), ["user", "assistant", "user"]);
+
+  const streamed = await sse("/conversation/send/stream", { sessionId: "t1", user: "Und dann?" });
+  assert.equal(streamed.at(-1).data.status, "done");
+
+  assert.deepEqual((await post("/conversation/reset", { sessionId: "t1" })).json, { ok: true });
+  const afterReset = await post("/conversation/send", { sessionId: "t1", user: "Hallo?" });
+  assert.equal(afterReset.status, 500);
+
+  const missing = await post("/conversation/start", {});
+  assert.equal(missing.status, 400);
+});
+
+test("conversation transcript and export; long histories are summarized to fit the budget", async () => {
+  const budget = process.env.CONVERSATION_TOKEN_BUDGET;
+  process.env.CONVERSATION_TOKEN_BUDGET = "60";
+  try {
+    await post("/conversation/start", { sessionId: "t2", seedContext: "Card front: Digoxin", deckName: "Pharma" });
+    replicate.script.llmText = "Eine ausführliche Erklärung zur Na/K-ATPase und zum Calcium im Herzmuskel.";
+    for (const q of ["Warum wirkt es positiv inotrop?", "Und die Toxizität?", "Welche Antidote gibt es?"]) {
+      await post("/conversation/send", { sessionId: "t2", user: q });
+    }
+
+    // The last turn went out with the card context, a summary in the system prompt, and only recent turns
+    const llmCalls = replicate.calls.filter(c => c.method === "stream");
+    const last = llmCalls.at(-1).input;
+    assert.match(last.messages[0].content, /Card front: Digoxin/);
+    assert.equal(last.messages.at(-1).content, "Welche Antidote gibt es?");
+    assert.ok(last.messages.length < 8);
+    assert.match(last.system_prompt, /Summary of the earlier conversation/);
+
+    const { json } = await get("/conversation/t2");
+    assert.equal(json.ok, true);
+    assert.equal(json.conversation.deckName, "Pharma");
+    assert.equal(json.conversation.messages.length, 8); // context pair + 3 turns, nothing lost
+    assert.ok(json.conversation.summary);
+
+    const list = await get("/conversations");
+    assert.equal(list.json.sessions.find(s => s.sessionId === "t2")?.messages, 8);
+
+    const md = await fetch(`${base}/api/conversation/t2/export`);
+    assert.match(md.headers.get("content-disposition"), /conversation-t2\.md/);
+    assert.match(await md.text(), /## Learner · .*\n\nUnd die Toxizität\?/);
+
+    assert.equal((await get("/conversation/nope")).status, 404);
+  } finally {
+    if (budget == null) delete process.env.CONVERSATION_TOKEN_BUDGET;
+    else process.env.CONVERSATION_TOKEN_BUDGET = budget;
+    await post("/conversation/reset", { sessionId: "t2" });
+  }
+});
+
+// ---------- TTS ----------
+
+test("POST /api/tts synthesizes once and serves the cached audio locally", async () => {
+  const first = await post("/tts", { text: "Antidot bei Heparin?" });
+  assert.equal(first.json.ok, true);
+  assert.equal(first.json.cached, false);
+  assert.match(first.json.url, /^\/api\/audio\/[a-f0-9]{64}$/);
+
+  const again = await post("/tts", { text: "Antidot bei Heparin?" });
+  assert.equal(again.json.cached, true);
+  assert.equal(again.json.hash, first.json.hash);
+  assert.equal(replicate.calls.filter(c => c.method === "run" && /speech/.test(c.model)).length, 1);
+
+  const res = await fetch(`${base}${first.json.url}`);
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("content-type"), "audio/wav");
+  assert.match(res.headers.get("cache-control"), /immutable/);
+});
+
+test("the TTS cache keeps the entry it just stored and never stores audio larger than itself", async () => {
+  const { createTtsCache } = await import("../ttsCache.js");
+  const cache = createTtsCache({ dir: path.join(dataDir, "tts-small"), maxBytes: 100 });
+  const speak = (size) => async () => ({ audio: Buffer.alloc(size), contentType: "audio/wav" });
+
+  await cache.getOrCreate("fake", { text: "a" }, speak(40));
+  await cache.getOrCreate("fake", { text: "b" }, speak(40));
+  const big = await cache.getOrCreate("fake", { text: "c" }, speak(80)); // evicts the older files, not itself
+  assert.ok(await cache.lookup(big.hash));
+  assert.deepEqual((await cache.stats()).entries.map(e => e.chars), [1]);
+
+  const huge = await cache.getOrCreate("fake", { text: "d" }, speak(500));
+  assert.equal(huge.entry.inline.length, 500);
+  assert.equal(await cache.lookup(huge.hash), null);
+  const stats = await cache.stats();
+  assert.equal(stats.count, 1);
+  assert.equal(stats.totalBytes, 80);
+});
+
+test("POST /api/tts/stream splits at sentence boundaries and synthesizes every chunk, long texts included", async () => {
+  const sentence = "Die Na/K-ATPase transportiert z. B. drei Natriumionen hinaus und zwei Kaliumionen hinein.";
+  const text = Array.from({ length: 80 }, (_, i) => `${i + 1}) ${sentence}`).join(" "); // > the old 4800-char cap
+  const callsBefore = replicate.calls.length;
+  const events = await sse("/tts/stream", { text });
+
+  const plan = events.find((e) => e.event === "plan").data.chunks;
+  assert.ok(plan.length > 10);
+  assert.ok(plan[0].length <= 160, "first chunk stays short");
+  assert.ok(plan.every((c) => c.length <= 400 && /\.$/.test(c)), "chunks end at sentence ends");
+  assert.equal(plan.join(" "), text); // nothing truncated, "z. B." not split
+
+  const chunks = events.filter((e) => e.event === "chunk").map((e) => e.data);
+  assert.deepEqual(chunks.map((c) => c.index).sort((a, b) => a - b), plan.map((_, i) => i));
+  assert.ok(chunks.every((c) => /^\/api\/audio\/[a-f0-9]{64}$/.test(c.url)));
+  assert.deepEqual(events.at(-1), { event: "end", data: { status: "done" } });
+
+  const spoken = replicate.calls.slice(callsBefore).filter((c) => c.method === "run" && /speech/.test(c.model)).map((c) => c.input.text);
+  assert.deepEqual(new Set(spoken), new Set(plan));
+});
+
+// ---------- field mappings ----------
+
+test("field mappings are suggested from modelFieldNames once, then edited and persisted", async () => {
+  const first = await get("/field-mappings/Cloze");
+  assert.deepEqual(
+    { prompt: first.json.mapping.prompt, answer: first.json.mapping.answer, suggested: first.json.mapping.suggested },
+    { prompt: ["Text"], answer: ["Back Extra"], suggested: true }
+  );
+  await get("/field-mappings/Cloze");
+  assert.equal(anki.callsOf("modelFieldNames").length, 1);
+
+  const bad = await api("PUT", "/field-mappings/Basic", { prompt: [], answer: ["Back"] });
+  assert.equal(bad.status, 400);
+
+  const saved = await api("PUT", "/field-mappings/Basic", { prompt: ["Back", "Nope"], answer: ["Back"], hidden: ["Front"] });
+  assert.deepEqual(saved.json.mapping.prompt, ["Back"]);
+  assert.deepEqual(saved.json.mapping.answer, [], "a field has one role; unknown fields are dropped");
+  assert.equal(saved.json.mapping.suggested, false);
+
+  const all = await get("/field-mappings");
+  assert.deepEqual(Object.keys(all.json.mappings).sort(), ["Basic", "Cloze"]);
+
+  assert.equal((await api("DELETE", "/field-mappings/Basic")).json.removed, true);
+  assert.equal((await get("/field-mappings/Basic")).json.mapping.suggested, true);
+});
+
+test("suggestMapping recognizes AnKing-style note types", async () => {
+  const { suggestMapping } = await import("../fieldMappings.js");
+  assert.deepEqual(
+    suggestMapping(["Text", "Extra", "Lecture Notes", "Missed Questions", "Pixorize", "Source", "One by one"]),
+    { prompt: ["Text"], answer: ["Extra"], context: ["Lecture Notes", "Missed Questions"], hidden: ["Pixorize", "Source", "One by one"] }
+  );
+  assert.deepEqual(suggestMapping(["Wort", "Bedeutung"]), { prompt: ["Wort"], answer: ["Bedeutung"], context: [], hidden: [] });
+});
+
+// ---------- deck profiles ----------
+
+test("deck profiles are inherited down the deck tree and drive STT, TTS and feedback language", async () => {
+  const bad = await api("PUT", "/deck-profiles/Pharma", { tts: { speed: 9 } });
+  assert.equal(bad.status, 400);
+
+  await api("PUT", "/deck-profiles/Pharma", { sttLanguage: "auto", feedbackLanguage: "English", tts: { voice_id: "Wise_Woman" } });
+  await api("PUT", `/deck-profiles/${encodeURIComponent("Pharma::Kardio")}`, { tts: { speed: 1.2 } });
+
+  const { json } = await get(`/deck-profiles/resolve?deckName=${encodeURIComponent("Pharma::Kardio")}`);
+  assert.equal(json.profile.tts.voice_id, "Wise_Woman");
+  assert.equal(json.profile.tts.speed, 1.2);
+  assert.equal(json.profile.tts.language_boost, "German");
+  assert.deepEqual(
+    { voice: json.sources.tts.voice_id, speed: json.sources.tts.speed, boost: json.sources.tts.language_boost },
+    { voice: "Pharma", speed: "Pharma::Kardio", boost: "" }
+  );
+
+  await post("/tts", { text: "Profil-Test", deckName: "Pharma::Kardio" });
+  const ttsInput = replicate.calls.filter(c => /speech/.test(c.model)).at(-1).input;
+  assert.equal(ttsInput.voice_id, "Wise_Woman");
+  assert.equal(ttsInput.speed, 1.2);
+
+  await post("/review-chain", { audioBase64: audio, front: "Q?", deckName: "Pharma::Kardio" });
+  const stt = replicate.calls.filter(c => /whisper/.test(c.model)).at(-1);
+  assert.equal(stt.input.language, undefined, "auto → provider detects the language");
+  const llm = replicate.calls.filter(c => c.method === "stream").at(-1);
+  assert.match(llm.input.system_prompt, /Write all feedback in English/);
+
+  await api("DELETE", "/deck-profiles/Pharma");
+  await api("DELETE", `/deck-profiles/${encodeURIComponent("Pharma::Kardio")}`);
+  const reset = await get("/deck-profiles/resolve?deckName=Pharma");
+  assert.equal(reset.json.profile.sttLanguage, "german");
+});
+
+test("unspeakable cards follow the deck's policy: warn by default, tag or bury and move on", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  const warn = await post("/unspeakable", { cardId: 1001, deckName: "Pharma", reasons: ["images"] });
+  assert.deepEqual(warn.json, { ok: true, action: "warn" });
+  assert.equal((await get("/current")).json.cardId, 1001);
+
+  const bad = await api("PUT", "/deck-profiles/Pharma", { unspeakablePolicy: "ignore" });
+  assert.equal(bad.status, 400);
+
+  // "tag" re-opens the reviewer without burying
+  await api("PUT", "/deck-profiles/Pharma", { unspeakablePolicy: "tag" });
+  const tag = await post("/unspeakable", { cardId: 1001, deckName: "Pharma", reasons: ["occlusion"] });
+  assert.equal(tag.json.action, "tag");
+  assert.equal(tag.json.skipped, 1001);
+  assert.ok(anki.state.cards.find(c => c.cardId === 1001).tags.includes("voice::unspeakable"));
+  assert.equal(anki.callsOf("buryCards").length, 0);
+  assert.equal(anki.callsOf("guiDeckReview").at(-1).params.name, "Pharma");
+
+  // "bury" buries the reported card once; a card that is no longer shown is not skipped
+  await api("PUT", "/deck-profiles/Pharma", { unspeakablePolicy: "bury" });
+  const bury = await post("/unspeakable", { cardId: 1001, deckName: "Pharma", reasons: ["media"] });
+  assert.equal(bury.json.action, "bury");
+  assert.deepEqual(anki.callsOf("buryCards").map(c => c.params.cards), [[1001]]);
+  const shown = (await get("/current")).json.cardId;
+  assert.notEqual(shown, 1001);
+  const stale = await post("/unspeakable", { cardId: 1001, deckName: "Pharma", reasons: ["media"] });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.json.error, "card_changed");
+  assert.equal((await get("/current")).json.cardId, shown);
+
+  // Headless "skip" drops the card from the session's queue and leaves Anki's scheduling alone
+  await api("PUT", `/deck-profiles/${encodeURIComponent("Pharma::Kardio")}`, { unspeakablePolicy: "skip" });
+  await post("/start", { deckName: "Pharma::Kardio", mode: "headless" });
+  const buried = anki.callsOf("buryCards").length;
+  const first = (await get("/current")).json.cardId;
+  const skip = await post("/unspeakable", { cardId: first, deckName: "Pharma::Kardio", reasons: ["images"] });
+  assert.equal(skip.json.action, "skip");
+  assert.equal(skip.json.skipped, first);
+  assert.equal(anki.callsOf("buryCards").length, buried);
+  assert.notEqual((await get("/current")).json.cardId, first);
+
+  await api("DELETE", "/deck-profiles/Pharma");
+  await api("DELETE", `/deck-profiles/${encodeURIComponent("Pharma::Kardio")}`);
+});
+
+test("card recordings are found in the front and back fields and served from Anki's media folder", async () => {
+  const c = anki.state.cards.find(c => c.cardId === 1003);
+  c.fields = { Front: "Antidot bei Heparin? [sound:heparin-q.mp3]", Back: "Protamin [sound:protamin.mp3][sound:notes.txt]" };
+  anki.state.media["heparin-q.mp3"] = Buffer.from("ID3 front").toString("base64");
+  anki.state.media["protamin.mp3"] = Buffer.from("ID3 back").toString("base64");
+
+  const { json } = await get("/cards/1003/sounds");
+  assert.equal(json.preferCardAudio, true);
+  assert.deepEqual(json.front, [{ field: "Front", files: [{ filename: "heparin-q.mp3", url: "/api/media/heparin-q.mp3" }] }]);
+  assert.deepEqual(json.back, [{ field: "Back", files: [{ filename: "protamin.mp3", url: "/api/media/protamin.mp3" }] }]);
+
+  for (let i = 0; i < 2; i++) {
+    const res = await fetch(`${base}/api/media/heparin-q.mp3`);
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "audio/mpeg");
+    assert.equal(await res.text(), "ID3 front");
+  }
+  assert.equal(anki.callsOf("retrieveMediaFile").filter(x => x.params.filename === "heparin-q.mp3").length, 1, "read from Anki once");
+  assert.equal((await fetch(`${base}/api/media/missing.mp3`)).status, 404);
+  assert.equal((await fetch(`${base}/api/media/${encodeURIComponent("../collection.mp3")}`)).status, 400);
+  assert.equal((await fetch(`${base}/api/media/notes.txt`)).status, 400);
+
+  assert.equal((await api("PUT", "/deck-profiles/Pharma", { preferCardAudio: "yes" })).status, 400);
+  await api("PUT", "/deck-profiles/Pharma", { preferCardAudio: false });
+  assert.equal((await get("/cards/1003/sounds")).json.preferCardAudio, false);
+  await api("DELETE", "/deck-profiles/Pharma");
+});
+
+// ---------- prompt templates ----------
+
+test("prompt templates: strictness presets, custom templates per deck, preview", async () => {
+  const { json: listed } = await get("/prompt-templates");
+  assert.deepEqual(listed.templates.map(t => t.id), ["lenient", "standard", "exam-strict", "verbatim"]);
+
+  assert.equal((await api("PUT", "/prompt-templates/standard", {})).status, 400);
+  assert.equal((await api("PUT", "/prompt-templates/kurz", { reviewUser: "no answer placeholder" })).status, 400);
+
+  const saved = await api("PUT", "/prompt-templates/kurz", {
+    name: "Kurz",
+    strictness: "verbatim",
+    reviewSystem: "Prüfer für {{deck}}. Antworte auf {{language}}.\n{{strictness}}",
+    reviewUser: "F: {{front}}\nA: {{back}}\n{{#context}}K: {{context}}\n{{/context}}Learner said:\n{{transcript}}",
+  });
+  assert.equal(saved.json.template.tutorSystem, listed.templates[0].tutorSystem);
+
+  await api("PUT", "/deck-profiles/Pharma", { promptTemplate: "kurz", feedbackLanguage: "English" });
+  await post("/review-chain", { transcript: "Membranstabilisierung", front: "Wirkung?", back: "Na-Kanal-Blockade", deckName: "Pharma::Kardio" });
+  const llm = replicate.calls.filter(c => c.method === "stream").at(-1).input;
+  assert.match(llm.system_prompt, /^Prüfer für Pharma::Kardio\. Antworte auf English\.\n- The learner has to reproduce the back essentially word for word/);
+  assert.match(llm.system_prompt, /<verdict>/, "the verdict format is always appended");
+  assert.equal(llm.messages.at(-1).content, "F: Wirkung?\nA: Na-Kanal-Blockade\nLearner said:\nMembranstabilisierung");
+
+  // A request may try another template; the preview renders a draft against a card
+  await post("/review-chain", { transcript: "x", front: "Q?", deckName: "Pharma", templateId: "lenient" });
+  assert.match(replicate.calls.filter(c => c.method === "stream").at(-1).input.system_prompt, /core idea right counts as correct/);
+
+  const preview = await post("/prompt-templates/preview", {
+    deckName: "Pharma",
+    template: { strictness: "exam-strict", reviewUser: "{{front}} / {{context}} / {{transcript}}" },
+    front: "Q?", context: "Notiz", transcript: "Antwort",
+  });
+  assert.equal(preview.json.review.user, "Q? / Notiz / Antwort");
+  assert.match(preview.json.review.system, /oral exam/);
+  assert.match(preview.json.tutorSystem, /friendly tutor[\s\S]*Write all feedback in English/);
+
+  assert.deepEqual((await api("DELETE", "/prompt-templates/kurz")).json, { ok: true, removed: true });
+  await post("/review-chain", { transcript: "x", front: "Q?", deckName: "Pharma" }); // deleted → standard
+  assert.match(replicate.calls.filter(c => c.method === "stream").at(-1).input.system_prompt, /key points of the back have to be there/);
+  await api("DELETE", "/deck-profiles/Pharma");
+});
+
+test("ids and names like __proto__ or constructor are plain keys, not Object.prototype members", async () => {
+  for (const id of ["__proto__", "constructor", "prototype"]) {
+    const put = await api("PUT", `/prompt-templates/${id}`, {});
+    assert.equal(put.status, 400, id);
+    assert.match(put.json.error, /reserved/);
+  }
+  for (const templateId of ["constructor", "toString"]) {
+    await post("/review-chain", { transcript: "x", front: "Q?", deckName: "Pharma", templateId });
+    assert.match(replicate.calls.filter(c => c.method === "stream").at(-1).input.system_prompt, /key points of the back have to be there/);
+  }
+
+  // Decks and note types may carry such names
+  const own = await api("PUT", "/deck-profiles/__proto__", { sttLanguage: "english" });
+  assert.deepEqual(own.json.own, { sttLanguage: "english" });
+  assert.equal((await get("/deck-profiles/resolve?deckName=__proto__")).json.profile.sttLanguage, "english");
+  assert.equal((await get("/deck-profiles/resolve?deckName=constructor")).json.profile.sttLanguage, "german");
+  assert.equal(Object.prototype.sttLanguage, undefined, "not written to the prototype");
+  assert.deepEqual((await api("DELETE", "/deck-profiles/__proto__")).json, { ok: true, removed: true });
+  assert.deepEqual((await api("DELETE", "/deck-profiles/constructor")).json, { ok: true, removed: false });
+
+  const mapping = (await get("/field-mappings/constructor")).json.mapping;
+  assert.equal(mapping.suggested, true);
+  assert.deepEqual((await api("DELETE", "/field-mappings/toString")).json, { ok: true, removed: false });
+});
+
+// ---------- telemetry ----------
+
+test("every request gets a trace ID; /api/metrics reports latency and usage per external call", async () => {
+  const res = await fetch(`${base}/api/review-chain`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ audioBase64: audio, front: "Wirkmechanismus von Lidocain?", back: "Na-Kanal-Blockade" }),
+  });
+  const traceId = res.headers.get("x-trace-id");
+  assert.match(traceId, /^[\w-]{8,64}$/);
+  await res.json();
+
+  const { json: trace } = await get(`/metrics/traces/${traceId}`);
+  const kinds = trace.spans.map(s => `${s.kind} ${s.name}`);
+  assert.ok(kinds.includes("stt replicate"));
+  assert.ok(kinds.includes("llm review"));
+  assert.ok(kinds.includes("http POST /api/review-chain"));
+  const llm = trace.spans.find(s => s.kind === "llm");
+  assert.ok(llm.ttftMs != null && llm.ttftMs <= llm.durationMs);
+  assert.ok(llm.attrs.tokensIn > 10 && llm.attrs.tokensOut > 0);
+  assert.ok(trace.spans.find(s => s.kind === "stt").attrs.bytesOut > 0);
+
+  // A caller's own trace ID is kept
+  const own = await fetch(`${base}/api/health`, { headers: { "x-trace-id": "my-trace-0001" } });
+  assert.equal(own.headers.get("x-trace-id"), "my-trace-0001");
+  const health = (await get("/metrics/traces/my-trace-0001")).json.spans.find(s => s.kind === "anki");
+  assert.equal(health.name, "version");
+  assert.equal(health.attrs.retries, 0);
+
+  const ttsChars = async () => (await get("/metrics")).json.series.find(s => s.kind === "tts")?.totals.chars || 0;
+  const charsBefore = await ttsChars();
+  await post("/tts", { text: "Telemetrie" });
+  await post("/tts", { text: "Telemetrie" }); // cached: nothing billed
+  assert.equal(await ttsChars() - charsBefore, "Telemetrie".length);
+
+  const { json } = await get("/metrics");
+  assert.ok(json.series.find(s => s.kind === "anki" && s.name === "version").durationMs.p50 >= 0);
+
+  const prom = await (await fetch(`${base}/api/metrics?format=prometheus`)).text();
+  assert.match(prom, /^anki_voice_span_duration_seconds_count\{kind="llm",name="review"\} \d+$/m);
+  assert.match(prom, /^anki_voice_time_to_first_token_seconds\{kind="llm",name="review"\} [\d.]+$/m);
+  assert.match(prom, /^anki_voice_usage_total\{kind="tts",name="replicate",attr="chars"\} \d+$/m);
+
+  // Unmatched URLs share one series instead of one per probed path
+  await fetch(`${base}/api/no-such-route/1`);
+  await fetch(`${base}/api/no-such-route/2`);
+  const http = (await get("/metrics")).json.series.filter(s => s.kind === "http").map(s => s.name);
+  assert.ok(http.includes("GET <unmatched>"));
+  assert.ok(!http.some(n => n.includes("no-such-route")));
+});
+
+// ---------- review history ----------
+
+test("graded attempts are recorded and can be filtered by card, deck and date", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  const attempt = { transcript: "Membranstabilisierung", feedback: "Richtig.", latencyMs: 850 };
+  await post("/answer", { ease: 3, cardId: 1001, attempt });
+  await post("/answer", { ease: 1 }); // no cardId: not recorded
+
+  const { json } = await get("/history?cardId=1001");
+  assert.equal(json.attempts.length, 1);
+  assert.deepEqual(
+    (({ cardId, noteId, deckName, ease, transcript, feedback, latencyMs, sessionMode }) =>
+      ({ cardId, noteId, deckName, ease, transcript, feedback, latencyMs, sessionMode }))(json.attempts[0]),
+    { cardId: 1001, noteId: 501, deckName: "Pharma", ease: 3, ...attempt, sessionMode: "gui" }
+  );
+
+  assert.equal((await get("/history/cards/1001")).json.attempts.length, 1);
+  assert.equal((await get("/history?deckName=Pharma")).json.attempts.length, 1);
+  assert.equal((await get(`/history?deckName=${encodeURIComponent("Pharma::Kardio")}`)).json.attempts.length, 0);
+  assert.equal((await get("/history?cardId=1001&to=2000-01-01")).json.attempts.length, 0);
+  const today = new Date().toISOString().slice(0, 10);
+  assert.equal((await get(`/history?cardId=1001&from=${today}&to=${today}`)).json.attempts.length, 1);
+});
+
+// ---------- statistics ----------
+
+test("stats summarize sessions and decks and agree with Anki's revlog", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  const { json: { session } } = await get("/session");
+  const verdict = (ease) => ({ verdict: "x", ease, missed: [], confidence: 0.8, valid: true });
+
+  // The reviewer shows 1001 until it passes: twice "Again" (AI agreed once), then "Good" where the AI said "Hard"
+  await post("/answer", { ease: 1, cardId: 1001, attempt: { verdict: verdict(1), latencyMs: 1000, timings: { sttMs: [300], llmMs: [900], ttsMs: [], discussMs: 5000 } } });
+  await post("/answer", { ease: 1, cardId: 1001, attempt: { verdict: verdict(3), latencyMs: 3000, timings: { sttMs: [500] } } });
+  await post("/answer", { ease: 3, cardId: 1001, attempt: { verdict: verdict(2) } });
+
+  const { json } = await get(`/stats?sessionId=${session.id}`);
+  const s = json.sessions[0];
+  assert.equal(json.sessions.length, 1);
+  assert.equal(s.deckName, "Pharma");
+  assert.equal(s.attempts, 3);
+  assert.equal(s.cardsReviewed, 1);
+  assert.deepEqual(s.easeDistribution, { 1: 2, 2: 0, 3: 1, 4: 0 });
+  assert.equal(s.avgLatencyMs, 2000);
+  assert.deepEqual(s.roundTrips.stt, { count: 2, avgMs: 400, maxMs: 500 });
+  assert.deepEqual(s.discuss, { count: 1, totalMs: 5000 });
+  assert.deepEqual(s.repeatedlyFailed, [{ cardId: 1001, failCount: 2 }]);
+  assert.deepEqual(
+    { compared: s.agreement.compared, exact: s.agreement.exact, passFail: s.agreement.passFail },
+    { compared: 3, exact: 1, passFail: 2 }
+  );
+
+  const check = await get(`/stats/anki-check?sessionId=${session.id}&deckName=Pharma`);
+  assert.equal(check.json.checked, 3);
+  assert.equal(check.json.matched, 3);
+  assert.deepEqual(check.json.mismatches, []);
+  assert.equal(check.json.ankiReviewsInDeck, 3);
+
+  // A grade recorded for a card Anki didn't answer (the reviewer moved on to 1002)
+  await post("/answer", { ease: 3, cardId: 1003 });
+  const after = await get(`/stats/anki-check?sessionId=${session.id}`);
+  assert.deepEqual(after.json.mismatches.map(m => [m.cardId, m.reason]), [[1003, "not_in_revlog"]]);
+});
+
+test("stats aggregate every history record, not just the newest 1000", async () => {
+  const { createHistoryStore } = await import("../history.js");
+  const { buildStats } = await import("../stats.js");
+  const history = createHistoryStore({ file: path.join(dataDir, "history-many.jsonl") });
+  for (let i = 0; i < 1200; i++) {
+    await history.append({ cardId: 2000 + i, deckName: "Bulk", ease: 3, sessionId: "bulk", sessionDeck: "Bulk" });
+  }
+
+  assert.equal((await history.query({ limit: 5000 })).length, 1000);
+  const stats = buildStats(await history.queryAll({ sessionId: "bulk", limit: 10 }));
+  assert.equal(stats.sessions[0].attempts, 1200);
+  assert.equal(stats.sessions[0].cardsReviewed, 1200);
+});
+
+// ---------- grade outbox ----------
+
+async function outboxDrained() {
+  for (let i = 0; i < 50; i++) {
+    const { json } = await get("/connection");
+    if (!json.pending) return json;
+    await new Promise((r) => setTimeout(r, 40));
+  }
+  throw new Error("grades still pending");
+}
+
+test("a grade given while Anki is unreachable is kept and sent once it is back", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  const recorded = (await get("/history?cardId=1001")).json.attempts.length;
+  anki.failNext("guiAnswerCard", { reset: true });
+
+  const queued = await post("/answer", { ease: 3, cardId: 1001, gradeId: "grade-offline-1" });
+  assert.equal(queued.status, 202);
+  assert.equal(queued.json.queued, true);
+  assert.equal(queued.json.pending, 1);
+  const down = await get("/connection");
+  assert.equal(down.json.connected, false);
+  assert.deepEqual(down.json.items.map(i => [i.cardId, i.ease]), [[1001, 3]]);
+
+  // Pressing again (same or new grade for the card) does not queue a second one
+  assert.equal((await post("/answer", { ease: 3, cardId: 1001, gradeId: "grade-offline-1" })).json.duplicate, true);
+  assert.equal((await post("/answer", { ease: 4, cardId: 1001, gradeId: "grade-offline-2" })).json.duplicate, true);
+  assert.equal(anki.state.revlog.length, 0);
+
+  const health = await get("/health");
+  assert.equal(health.json.ok, true);
+  const up = await outboxDrained();
+  assert.equal(up.connected, true);
+  assert.deepEqual(anki.state.revlog.map(r => [r.cardId, r.ease]), [[1001, 3]]);
+  assert.equal((await get("/history?cardId=1001")).json.attempts.length, recorded + 1);
+
+  const again = await post("/answer", { ease: 3, cardId: 1001, gradeId: "grade-offline-1" });
+  assert.equal(again.json.duplicate, true);
+  assert.equal(anki.state.revlog.length, 1);
+});
+
+test("a grade whose reply is lost is neither retried nor replayed: Anki records it once", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  // Anki grades the card, then the socket drops before the reply
+  anki.failNext("guiAnswerCard", { lost: true });
+
+  const queued = await post("/answer", { ease: 2, cardId: 1001, gradeId: "grade-lost-1" });
+  assert.equal(queued.json.queued, true);
+  assert.equal(anki.callsOf("guiAnswerCard").length, 1, "not retried, which would grade the next card");
+  assert.equal(anki.state.revlog.length, 1);
+
+  await get("/health");
+  await outboxDrained();
+  assert.equal(anki.state.revlog.length, 1, "checked the revlog instead of answering again");
+  assert.equal(anki.callsOf("getReviewsOfCards").length, 1);
+  assert.notEqual((await get("/current")).json.cardId, 1001);
+});
+
+// ---------- undo ----------
+
+test("undo takes back the last GUI grade with guiUndo and forgets its history record", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  const recorded = (await get("/history?cardId=1001")).json.attempts.length;
+  await post("/answer", { ease: 3, cardId: 1001, gradeId: "undo-gui-1" });
+  assert.notEqual((await get("/current")).json.cardId, 1001);
+
+  const undo = await post("/undo");
+  assert.equal(undo.status, 200);
+  assert.deepEqual(undo.json.undone, { cardId: 1001, ease: 3, mode: "gui" });
+  assert.equal(anki.callsOf("guiUndo").length, 1);
+  assert.equal(anki.state.revlog.length, 0);
+  assert.equal((await get("/current")).json.cardId, 1001);
+  assert.equal((await get("/history?cardId=1001")).json.attempts.length, recorded);
+});
+
+test("undo refuses when Anki has newer reviews than the grade", async () => {
+  await post("/start", { deckName: "Pharma", mode: "gui" });
+  await post("/answer", { ease: 3, cardId: 1001, gradeId: "undo-gui-2" });
+  // Reviewed in Anki itself afterwards
+  anki.state.revlog.push({ id: Date.now() + 1000, cardId: 1002, ease: 3, wasNew: false, time: Date.now() + 1000 });
+
+  const undo = await post("/undo");
+  assert.equal(undo.status, 409);
+  assert.match(undo.json.error, /newer reviews/);
+  assert.equal(anki.callsOf("guiUndo").length, 0);
+});
+
+test("headless undo restores the card's scheduling and puts it back in front", async () => {
+  await post("/start", { deckName: "Pharma", mode: "headless" });
+  const before = anki.state.cards.find(c => c.cardId === 1001);
+  const { queue, due, interval, reps } = before;
+  await post("/answer", { ease: 3, cardId: 1001, gradeId: "undo-headless-1" });
+  assert.notEqual((await get("/current")).json.cardId, 1001);
+
+  const undo = await post("/undo");
+  assert.equal(undo.json.ok, true);
+  assert.equal(undo.json.undone.mode, "headless");
+  const after = anki.state.cards.find(c => c.cardId === 1001);
+  assert.deepEqual({ queue: after.queue, due: after.due, interval: after.interval, reps: after.reps }, { queue, due, interval, reps });
+  assert.equal((await get("/current")).json.cardId, 1001);
+});
+
+test("headless undo refuses a grade that only a replay found in the revlog", async () => {
+  await post("/start", { deckName: "Pharma", mode: "headless" });
+  // Anki grades the card, but the reply is lost
+  anki.failNext("answerCards", { lost: true });
+  const queued = await post("/answer", { ease: 3, cardId: 1001, gradeId: "undo-headless-lost" });
+  assert.equal(queued.json.queued, true);
+
+  await get("/health");
+  await outboxDrained();
+  assert.equal(anki.state.revlog.length, 1);
+
+  const undo = await post("/undo");
+  assert.equal(undo.status, 409);
+  assert.match(undo.json.error, /No scheduling state/);
+  assert.equal(anki.callsOf("setSpecificValueOfCard").length, 0);
+});
+
+// ---------- note changes from conversations ----------
+
+const fakeCard = (id) => anki.state.cards.find(c => c.cardId === id);
+
+test("note changes proposed in a conversation apply only when confirmed and are audited", async () => {
+  await post("/conversation/start", { sessionId: "notes-1", seedContext: "Card 1001", deckName: "Pharma", cardId: 1001 });
+  const after = "Membranstabilisierung am Myokard (Schwellenpotential steigt)";
+  replicate.script.llmText = "Die Rückseite ist ungenau.\n" +
+    `<note-change>{"action":"updateField","field":"Back","value":"${after}","reason":"präziser"}</note-change>\n` +
+    '<note-change>{"action":"addTag","tag":"voice::ambiguous","reason":"zwei Lesarten"}</note-change>\n' +
+    '<note-change>{"action":"updateField","field":"Nope","value":"x"}</note-change>';
+
+  const events = await sse("/conversation/send/stream", { sessionId: "notes-1", user: "Stimmt die Karte?" });
+  assert.doesNotMatch(events.filter(e => e.event === "token").map(e => e.data.text).join(""), /note-change/);
+  const end = events.at(-1).data;
+  assert.equal(end.reply, "Die Rückseite ist ungenau.");
+  assert.deepEqual(end.proposals.map(p => p.action), ["updateField", "addTag"], "unknown fields are dropped");
+  const [edit, tag] = end.proposals;
+  assert.deepEqual([edit.noteId, edit.field, edit.before, edit.after], [501, "Back", "Membranstabilisierung am Myokard", after]);
+  assert.equal(anki.callsOf("updateNoteFields").length, 0, "nothing changes before confirmation");
+
+  const applied = await post(`/note-changes/${edit.id}/apply`);
+  assert.equal(applied.json.change.status, "applied");
+  assert.equal(fakeCard(1001).fields.Back, after);
+  assert.equal((await post(`/note-changes/${edit.id}/apply`)).status, 409);
+
+  // The conversation now knows the edited field: a follow-up edit starts from it and applies cleanly
+  replicate.script.llmText = "Noch kürzer.\n" +
+    '<note-change>{"action":"updateField","field":"Back","value":"Membranstabilisierung","reason":"knapper"}</note-change>';
+  const { json: next } = await post("/conversation/send", { sessionId: "notes-1", user: "Kürzer?" });
+  assert.equal(next.proposals[0].before, after);
+  assert.equal((await post(`/note-changes/${next.proposals[0].id}/apply`)).status, 200);
+  assert.equal(fakeCard(1001).fields.Back, "Membranstabilisierung");
+
+  assert.equal((await post(`/note-changes/${tag.id}/dismiss`)).json.change.status, "dismissed");
+  assert.deepEqual(fakeCard(1001).tags, []);
+
+  const audit = await get("/note-changes/audit?noteId=501");
+  assert.deepEqual(
+    audit.json.changes.map(c => [c.action, c.field, c.after, c.sessionId]),
+    [["updateField", "Back", "Membranstabilisierung", "notes-1"], ["updateField", "Back", after, "notes-1"]]
+  );
+});
+
+test("tutor text after a <note-change> block is streamed like the text before it", async () => {
+  await post("/conversation/start", { sessionId: "notes-3", seedContext: "Card 1001", deckName: "Pharma", cardId: 1001 });
+  replicate.script.llmText = "Die Karte ist mehrdeutig.\n" +
+    '<note-change>{"action":"addTag","tag":"voice::ambiguous","reason":"zwei Lesarten"}</note-change>\n' +
+    "Sonst ist sie korrekt.";
+
+  const events = await sse("/conversation/send/stream", { sessionId: "notes-3", user: "Passt die Karte?" });
+  const streamed = events.filter(e => e.event === "token").map(e => e.data.text).join("");
+  const end = events.at(-1).data;
+  assert.equal(end.reply, "Die Karte ist mehrdeutig.\n\nSonst ist sie korrekt.");
+  assert.equal(streamed, end.reply);
+  assert.deepEqual(end.proposals.map(p => p.tags), [["voice::ambiguous"]]);
+});
+
+test("a proposal does not overwrite an edit made in Anki; follow-up notes are created", async () => {
+  await post("/conversation/start", { sessionId: "notes-2", seedContext: "Card 1003", deckName: "Pharma", cardId: 1003 });
+  replicate.script.llmText = "Zwei Vorschläge.\n" +
+    '<note-change>{"action":"updateField","field":"Back","value":"Protaminsulfat","reason":"genauer"}</note-change>\n' +
+    '<note-change>{"action":"addNote","fields":{"Front":"Dosis Protamin?","Back":"1 mg je 100 IE Heparin"},"reason":"Folgefrage"}</note-change>';
+  const { json } = await post("/conversation/send", { sessionId: "notes-2", user: "Was fehlt?" });
+  const [edit, follow] = json.proposals;
+
+  fakeCard(1003).fields = { ...fakeCard(1003).fields, Back: "Protamin (in Anki bearbeitet)" };
+  const refused = await post(`/note-changes/${edit.id}/apply`);
+  assert.equal(refused.status, 409);
+  assert.match(refused.json.error, /changed in Anki/);
+  assert.equal(fakeCard(1003).fields.Back, "Protamin (in Anki bearbeitet)");
+
+  const created = await post(`/note-changes/${follow.id}/apply`);
+  const card = anki.state.cards.find(c => c.noteId === created.json.change.newNoteId);
+  assert.deepEqual([card.deckName, card.modelName, card.fields.Front, card.tags], ["Pharma", "Basic", "Dosis Protamin?", ["voice::added"]]);
+});
+
+test("open proposals survive a restart of the server", async () => {
+  await post("/conversation/start", { sessionId: "notes-4", seedContext: "Card 1001", deckName: "Pharma", cardId: 1001 });
+  replicate.script.llmText = "Mehrdeutig.\n" +
+    '<note-change>{"action":"addTag","tag":"voice::ambiguous","reason":"zwei Lesarten"}</note-change>';
+  const { json } = await post("/conversation/send", { sessionId: "notes-4", user: "Eindeutig?" });
+
+  // A second store on the same files is what the server finds after a restart
+  const { createNoteChangeStore } = await import("../noteChanges.js");
+  const { ankiInvoke } = await import("../anki.js");
+  const restarted = createNoteChangeStore({
+    file: path.join(dataDir, "note-changes.jsonl"),
+    proposalsFile: path.join(dataDir, "note-change-proposals.json"),
+    anki: ankiInvoke,
+  });
+  assert.deepEqual((await restarted.list({ sessionId: "notes-4" })).map(p => [p.id, p.status]), [[json.proposals[0].id, "proposed"]]);
+  assert.equal((await restarted.apply(json.proposals[0].id)).status, "applied");
+  assert.deepEqual(fakeCard(1001).tags, ["voice::ambiguous"]);
+});
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitSentences, splitForSpeech } from "../speechChunks.js";
+
+test("splitSentences keeps abbreviations, ordinals, decimals and initials together", () => {
+  const text = "Dr. Müller sagt z. B., dass am 3. Mai alles begann. Die Dosis ist 2.5 mg, d.h. wenig! " +
+    "Siehe S. 12. „Wirklich?“ fragte er.\nE.g. this works, i.e. nicely. A. Einstein was there in 1905. Then it ended.";
+  assert.deepEqual(splitSentences(text), [
+    "Dr. Müller sagt z. B., dass am 3. Mai alles begann.",
+    "Die Dosis ist 2.5 mg, d.h. wenig!",
+    "Siehe S. 12.",
+    "„Wirklich?“ fragte er.",
+    "E.g. this works, i.e. nicely.",
+    "A. Einstein was there in 1905.",
+    "Then it ended.",
+  ]);
+});
+
+test("splitForSpeech keeps the first chunk short and cuts long sentences at clause boundaries", () => {
+  const long = "Die Natrium-Kalium-Pumpe, auch Na/K-ATPase genannt, transportiert unter ATP-Verbrauch drei " +
+    "Natriumionen aus der Zelle heraus und zwei Kaliumionen hinein; dadurch entsteht ein elektrochemischer " +
+    "Gradient, der für das Ruhemembranpotential unerlässlich ist.";
+  const chunks = splitForSpeech(`${long} Kurz. ${long}`, { firstChars: 80, maxChars: 200 });
+
+  assert.equal(chunks[0], "Die Natrium-Kalium-Pumpe, auch Na/K-ATPase genannt,");
+  assert.ok(chunks.every((c) => c.length <= 200));
+  assert.ok(chunks.some((c) => c.endsWith("hinein;")), "cut after the semicolon");
+  assert.equal(chunks.join(" "), `${long} Kurz. ${long}`);
+});
@@ -0,0 +1,191 @@
+// server/ttsCache.js
+// Content-addressed, on-disk cache of synthesized speech.
+// - key = sha256 of the provider name, the (already sanitized) text and every voice parameter
+// - audio is downloaded once and served locally from /api/audio/:hash
+// - size-bounded: least recently used files are evicted past maxBytes; audio larger than the
+//   whole cache is handed back inline and never stored
+// - index.json keeps size / content type / last access; the directory is reconciled on startup
+
+import crypto from "node:crypto";
+import path from "node:path";
+import { mkdir, readdir, stat, unlink, writeFile, rename } from "node:fs/promises";
+import { readJson, writeJsonAtomic } from "./storage.js";
+import { audioDurationMs } from "./telemetry.js";
+
+// Voice parameters that change the audio. Anything else in the request body is ignored for the key.
+export const TTS_KEY_PARAMS = [
+  "voice_id", "emotion", "speed", "pitch", "volume", "language_boost", "english_normalization",
+  "bitrate", "channel", "sample_rate",
+];
+
+const EXT_FOR_TYPE = {
+  "audio/mpeg": "mp3", "audio/mp3": "mp3", "audio/wav": "wav", "audio/x-wav": "wav",
+  "audio/ogg": "ogg", "audio/webm": "webm", "audio/aac": "aac", "audio/flac": "flac",
+};
+
+export function ttsCacheKey(provider, input) {
+  const material = { provider, text: input.text };
+  for (const k of TTS_KEY_PARAMS) material[k] = input[k] ?? null;
+  return crypto.createHash("sha256").update(JSON.stringify(material)).digest("hex");
+}
+
+export const isCacheHash = (h) => /^[a-f0-9]{64}$/.test(String(h || ""));
+
+async function download(url) {
+  const res = await fetch(url, { signal: AbortSignal.timeout(30000) });
+  if (!res.ok) throw new Error(`TTS audio download failed (${res.status})`);
+  const contentType = (res.headers.get("content-type") || "audio/mpeg").split(";")[0].trim();
+  return { audio: Buffer.from(await res.arrayBuffer()), contentType };
+}
+
+/**
+ * @param {object} opts
+ * @param {string} opts.dir        cache directory
+ * @param {number} opts.maxBytes   evict LRU entries beyond this total size
+ */
+export function createTtsCache({ dir, maxBytes }) {
+  const indexFile = path.join(dir, "index.json");
+  const entries = new Map();   // hash -> { file, size, contentType, chars, durationMs, createdAt, lastAccess, hits }
+  const inflight = new Map();  // hash -> Promise<entry>
+  let totalBytes = 0;
+  let saveTimer = null;
+
+  const ready = (async () => {
+    await mkdir(dir, { recursive: true });
+    const saved = await readJson(indexFile, {});
+    const files = new Set(await readdir(dir));
+
+    for (const [hash, e] of Object.entries(saved)) {
+      if (isCacheHash(hash) && e?.file && files.has(e.file)) {
+        entries.set(hash, e);
+        totalBytes += e.size || 0;
+        files.delete(e.file);
+      }
+    }
+    // Audio files the index doesn't know (crash before the index was saved): adopt them
+    for (const f of files) {
+      const [hash, ext] = f.split(".");
+      if (!isCacheHash(hash) || !ext || f.endsWith(".tmp")) continue;
+      const st = await stat(path.join(dir, f)).catch(() => null);
+      if (!st) continue;
+      const contentType = Object.keys(EXT_FOR_TYPE).find(t => EXT_FOR_TYPE[t] === ext) || "application/octet-stream";
+      entries.set(hash, { file: f, size: st.size, contentType, chars: null, createdAt: st.mtimeMs, lastAccess: st.mtimeMs, hits: 0 });
+      totalBytes += st.size;
+    }
+    await evict();
+  })();
+
+  function scheduleSave() {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      writeJsonAtomic(indexFile, Object.fromEntries(entries)).catch(e => console.warn("[tts-cache] index save failed:", e.message));
+    }, 1000);
+    saveTimer.unref?.();
+  }
+
+  async function remove(hash) {
+    const e = entries.get(hash);
+    if (!e) return false;
+    entries.delete(hash);
+    totalBytes -= e.size || 0;
+    await unlink(path.join(dir, e.file)).catch(() => {});
+    scheduleSave();
+    return true;
+  }
+
+  // keep: the hash just stored, which must survive its own eviction pass
+  async function evict(keep) {
+    if (totalBytes <= maxBytes) return 0;
+    const lru = [...entries.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    let evicted = 0;
+    for (const [hash] of lru) {
+      if (totalBytes <= maxBytes) break;
+      if (hash === keep) continue;
+      await remove(hash);
+      evicted++;
+    }
+    if (evicted) console.log(`[tts-cache] evicted ${evicted} file(s), now ${Math.round(totalBytes / 1024)} KB`);
+    return evicted;
+  }
+
+  async function store(hash, { audio, contentType }, chars) {
+    const durationMs = audioDurationMs(audio, contentType);
+    // Storing it would evict every other file and then not fit anyway
+    if (audio.length > maxBytes) return { size: audio.length, contentType, chars, durationMs, inline: audio };
+
+    const ext = EXT_FOR_TYPE[contentType] || "bin";
+    const file = `${hash}.${ext}`;
+    const tmp = path.join(dir, `${file}.${process.pid}.tmp`);
+    await writeFile(tmp, audio);
+    await rename(tmp, path.join(dir, file));
+
+    const now = Date.now();
+    const entry = {
+      file, size: audio.length, contentType, chars, durationMs,
+      createdAt: now, lastAccess: now, hits: 0,
+    };
+    entries.set(hash, entry);
+    totalBytes += entry.size;
+    scheduleSave();
+    await evict(hash);
+    return entry;
+  }
+
+  return {
+    /**
+     * Return the cached entry for this input, synthesizing (once, even under concurrent calls) on a miss.
+     * synthesize() resolves to { url } or { audio, contentType } like a TTS provider.
+     * An entry too large to cache carries its audio as entry.inline and isn't served by lookup().
+     */
+    async getOrCreate(provider, input, synthesize) {
+      await ready;
+      const hash = ttsCacheKey(provider, input);
+
+      const hit = entries.get(hash);
+      if (hit) {
+        hit.lastAccess = Date.now();
+        hit.hits = (hit.hits || 0) + 1;
+        scheduleSave();
+        return { hash, cached: true, entry: hit };
+      }
+
+      if (!inflight.has(hash)) {
+        inflight.set(hash, (async () => {
+          const out = await synthesize();
+          const data = out.audio ? out : await download(out.url);
+          return store(hash, data, String(input.text || "").length);
+        })().finally(() => inflight.delete(hash)));
+      }
+      return { hash, cached: false, entry: await inflight.get(hash) };
+    },
+
+    /** Absolute path + content type for a cached hash, or null. Counts as an access. */
+    async lookup(hash) {
+      await ready;
+      const e = entries.get(hash);
+      if (!e) return null;
+      e.lastAccess = Date.now();
+      scheduleSave();
+      return { path: path.join(dir, e.file), contentType: e.contentType, size: e.size };
+    },
+
+    async stats({ limit = 50 } = {}) {
+      await ready;
+      const list = [...entries.entries()]
+        .sort((a, b) => b[1].lastAccess - a[1].lastAccess)
+        .slice(0, limit)
+        .map(([hash, e]) => ({ hash, ...e }));
+      return { count: entries.size, totalBytes, maxBytes, inflight: inflight.size, entries: list };
+    },
+
+    /** Purge one hash, or everything when hash is omitted. Returns the number of files removed. */
+    async purge(hash) {
+      await ready;
+      if (hash) return (await remove(hash)) ? 1 : 0;
+      const all = [...entries.keys()];
+      for (const h of all) await remove(h);
+      return all.length;
+    },
+  };
+}